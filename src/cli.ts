@@ -0,0 +1,47 @@
+/**
+ * Command line entry points for machines without an MCP client, e.g. CI:
+ *
+ *   noir-mcp export <archive.tar.gz>
+ *   noir-mcp import <archive.tar.gz> [--force]
+ */
+
+import { exportSnapshot, importSnapshot } from "./tools/index.js";
+import { formatSnapshotResult } from "./formatting.js";
+
+const USAGE = [
+  "Usage:",
+  "  noir-mcp                                    Start the MCP server (stdio)",
+  "  noir-mcp export <archive.tar.gz>            Export cloned repos for offline use",
+  "  noir-mcp import <archive.tar.gz> [--force]  Import an exported archive",
+].join("\n");
+
+/**
+ * Run a CLI command. Returns the exit code, or null when the arguments do not
+ * name a command and the MCP server should start instead.
+ */
+export async function runCli(args: string[]): Promise<number | null> {
+  const [command, ...rest] = args;
+  if (command !== "export" && command !== "import") {
+    return null;
+  }
+
+  const force = rest.includes("--force");
+  const [path] = rest.filter((arg) => !arg.startsWith("--"));
+  if (!path) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const result =
+    command === "export"
+      ? await exportSnapshot({ path })
+      : await importSnapshot({ path, force });
+
+  const output = formatSnapshotResult(result);
+  if (result.success) {
+    console.log(output);
+    return 0;
+  }
+  console.error(output);
+  return 1;
+}
@@ -2,8 +2,80 @@
  * Formatting helpers for MCP tool responses
  */
 
-import type { SyncResult } from "./tools/sync.js";
+import type {
+  SyncResult,
+  SyncProgress,
+  SyncPlanEntry,
+  SyncStatus,
+} from "./tools/sync.js";
+import type { SyncFailureKind } from "./utils/sync-errors.js";
+import type { SyncJob } from "./tools/sync-jobs.js";
 import type { SearchResult, FileInfo, LibraryInfo } from "./utils/search.js";
+import type { SymbolMatch } from "./utils/symbols.js";
+import type { Usage } from "./utils/usages.js";
+import type { Workspace } from "./utils/workspaces.js";
+import type { LibraryCompat } from "./tools/compat.js";
+import type { LockDrift } from "./utils/lockfile.js";
+import type { SnapshotResult } from "./tools/snapshot.js";
+import type { RemovedRepo, CompactedRepo } from "./tools/maintenance.js";
+import { describeSyncLock, type SyncLockInfo } from "./utils/sync-lock.js";
+
+function formatCompat(lib: {
+  compilerVersion?: string;
+  compatible?: boolean;
+}): string | undefined {
+  if (!lib.compilerVersion) return undefined;
+  const flag =
+    lib.compatible === undefined
+      ? "? unknown"
+      : lib.compatible
+        ? "✓ compatible"
+        : "✗ incompatible";
+  return `compiler_version ${lib.compilerVersion} ${flag}`;
+}
+
+function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+function formatCommitChange(commit: SyncResult["repos"][number]["commit"]): string {
+  if (!commit?.after) return "";
+  if (!commit.before || commit.before === commit.after) return ` (${commit.after})`;
+  return ` (${commit.before} → ${commit.after})`;
+}
+
+/** What to do about each kind of sync failure */
+const SYNC_REMEDIATION: Record<SyncFailureKind, string | undefined> = {
+  network:
+    "Check the network connection and proxy settings, or point NOIR_MCP_URL_REWRITES at a reachable mirror.",
+  "ref-not-found":
+    "Check that the requested branch, tag or commit exists upstream (see the version and refs parameters).",
+  auth:
+    "The repository is private or its URL is wrong. Configure git credentials or fix the URL in repos.json.",
+  "disk-full":
+    "Free up disk space; noir_remove_repos and noir_compact_repos can reclaim space from clones.",
+  "git-missing": "Install git and make sure it is on the PATH of the MCP server.",
+  "lock-held":
+    "Another noir-mcp server or git process is changing the repos. Wait for it to finish, then retry.",
+  timeout:
+    "Raise NOIR_MCP_SYNC_TIMEOUT or lower the concurrency parameter, then retry.",
+  unknown: undefined,
+};
+
+const SYNC_STATUS_ICONS: Record<SyncStatus, string> = {
+  cloned: "✓",
+  updated: "✓",
+  unchanged: "✓",
+  skipped: "○",
+  failed: "✗",
+};
 
 export function formatSyncResult(result: SyncResult): string {
   const lines = [
@@ -11,18 +83,138 @@ export function formatSyncResult(result: SyncResult): string {
     "",
     `Version: ${result.version}`,
     result.message,
+  ];
+
+  const fix = result.failure && SYNC_REMEDIATION[result.failure.kind];
+  if (fix) {
+    lines.push(`Fix: ${fix}`);
+  }
+
+  lines.push("", "Repositories:");
+  for (const repo of result.repos) {
+    lines.push(
+      `  ${SYNC_STATUS_ICONS[repo.status]} ${repo.name}: ${repo.message}${formatCommitChange(repo.commit)}`
+    );
+  }
+
+  // One hint per kind of failure, naming the repos it applies to
+  const failedByKind = new Map<SyncFailureKind, string[]>();
+  for (const repo of result.repos) {
+    if (!repo.failure) continue;
+    failedByKind.set(repo.failure.kind, [
+      ...(failedByKind.get(repo.failure.kind) ?? []),
+      repo.name,
+    ]);
+  }
+  const fixes = [...failedByKind].filter(([kind]) => SYNC_REMEDIATION[kind]);
+  if (fixes.length > 0) {
+    lines.push("", "How to fix:");
+    for (const [kind, names] of fixes) {
+      lines.push(`  ${kind} (${names.join(", ")}): ${SYNC_REMEDIATION[kind]}`);
+    }
+  }
+
+  if (result.lockfile) {
+    lines.push("");
+    lines.push(`Lockfile: ${result.lockfile}`);
+  }
+
+  return lines.join("\n");
+}
+
+const PLAN_ICONS: Record<SyncPlanEntry["action"], string> = {
+  clone: "+",
+  reclone: "↻",
+  update: "↑",
+  keep: "=",
+  skip: "○",
+};
+
+export function formatSyncPlan(result: SyncResult): string {
+  const lines = [
+    "Sync plan (dry run, nothing was changed)",
+    "",
+    `Version: ${result.version}`,
+    result.message,
     "",
     "Repositories:",
   ];
 
-  for (const repo of result.repos) {
-    const icon = repo.status.toLowerCase().includes("error") ? "✗" : "✓";
-    lines.push(`  ${icon} ${repo.name}: ${repo.status}`);
+  for (const entry of result.plan ?? []) {
+    lines.push(`  ${PLAN_ICONS[entry.action]} ${entry.name}: ${entry.action} - ${entry.reason}`);
   }
 
   return lines.join("\n");
 }
 
+export function formatSyncProgress(progress: SyncProgress): string {
+  const position = `${Math.min(progress.completed + 1, progress.total)}/${progress.total}`;
+  const percent = progress.percent !== undefined ? ` ${progress.percent}%` : "";
+  return `${progress.repo} (${position}): ${progress.phase}${percent}`;
+}
+
+export function formatSyncJob(job: SyncJob, started: boolean = true): string {
+  switch (job.status) {
+    case "running": {
+      const lines = [
+        started
+          ? `⏳ Started sync job ${job.id}`
+          : `⏳ A sync is already running: job ${job.id}`,
+      ];
+      if (job.progress) {
+        lines.push(`Progress: ${formatSyncProgress(job.progress)}`);
+      }
+      lines.push(`Poll noir_sync_status with jobId "${job.id}" for the result.`);
+      return lines.join("\n");
+    }
+    case "completed":
+      return [`Sync job ${job.id} completed`, "", formatSyncResult(job.result!)].join("\n");
+    case "failed":
+      return `✗ Sync job ${job.id} failed: ${job.error}`;
+  }
+}
+
+export function formatSyncStatus(result: {
+  success: boolean;
+  jobs: SyncJob[];
+  message: string;
+}): string {
+  if (result.jobs.length === 0) {
+    return result.success ? result.message : `✗ ${result.message}`;
+  }
+  if (result.jobs.length === 1) {
+    return formatSyncJob(result.jobs[0]);
+  }
+
+  const lines = [result.message, ""];
+  for (const job of result.jobs) {
+    const detail =
+      job.status === "running" && job.progress
+        ? ` - ${formatSyncProgress(job.progress)}`
+        : job.status === "failed"
+          ? ` - ${job.error}`
+          : job.result
+            ? ` - ${job.result.message}`
+            : "";
+    lines.push(`  ${job.id}: ${job.status} (started ${job.startedAt})${detail}`);
+  }
+  return lines.join("\n");
+}
+
+function formatDrift(drift: LockDrift): string {
+  const name = drift.version ? `${drift.name}@${drift.version}` : drift.name;
+  switch (drift.issue) {
+    case "missing":
+      return `${name}: not cloned (locked at ${drift.expected?.substring(0, 7)})`;
+    case "commit":
+      return `${name}: at ${drift.actual?.substring(0, 7)}, locked at ${drift.expected?.substring(0, 7)}`;
+    case "unlocked":
+      return `${name}: cloned but not in lockfile`;
+    default:
+      return `${name}: ${drift.issue} is ${drift.actual}, locked ${drift.expected}`;
+  }
+}
+
 export function formatStatus(status: {
   reposDir: string;
   repos: {
@@ -31,12 +223,32 @@ export function formatStatus(status: {
     category: string;
     cloned: boolean;
     commit?: string;
+    requestedRef?: string;
+    ref?: string;
+    url?: string;
+    broken?: string;
+    sparse?: string[];
+    diskUsage?: number;
+    versions?: string[];
+    defaultVersion?: string;
+    compilerVersion?: string;
+    compatible?: boolean;
   }[];
+  workspaces?: Workspace[];
+  noirVersion?: string;
+  diskUsage?: number;
+  syncLock?: SyncLockInfo;
+  lockfile?: { path: string; drift: LockDrift[]; error?: string };
+  configErrors?: string[];
 }): string {
   const lines = [
     "Noir MCP Server Status",
     "",
+    ...(status.configErrors ?? []).map((error) => `⚠ Config ignored: ${error}`),
     `Repos directory: ${status.reposDir}`,
+    ...(status.diskUsage ? [`Disk usage: ${formatBytes(status.diskUsage)}`] : []),
+    ...(status.syncLock ? [`⏳ In progress: ${describeSyncLock(status.syncLock)}`] : []),
+    ...(status.noirVersion ? [`Noir version: ${status.noirVersion}`] : []),
     "",
     "Repositories:",
   ];
@@ -53,15 +265,68 @@ export function formatStatus(status: {
   for (const [category, repos] of byCategory) {
     lines.push(`  [${category}]`);
     for (const repo of repos) {
-      const icon = repo.cloned ? "✓" : "○";
+      const icon = repo.broken ? "✗" : repo.cloned ? "✓" : "○";
       const commit = repo.commit ? ` (${repo.commit})` : "";
       lines.push(`    ${icon} ${repo.name}${commit}`);
       lines.push(`      ${repo.description}`);
+      if (repo.broken) {
+        lines.push(`      Broken: ${repo.broken} (run noir_sync_repos with repair: true)`);
+      }
+      if (repo.cloned && repo.ref) {
+        lines.push(
+          repo.requestedRef && repo.requestedRef !== repo.ref
+            ? `      Ref: ${repo.ref} ⚠ requested ${repo.requestedRef}`
+            : `      Ref: ${repo.ref}`
+        );
+      }
+      if (repo.cloned && repo.url) {
+        lines.push(`      URL: ${repo.url}`);
+      }
+      if (repo.cloned && repo.sparse) {
+        lines.push(`      Sparse: ${repo.sparse.join(", ")}`);
+      }
+      if (repo.diskUsage) {
+        lines.push(`      Disk: ${formatBytes(repo.diskUsage)}`);
+      }
+      if (repo.versions && repo.versions.length > 0) {
+        const versions = repo.versions.map((v) =>
+          v === repo.defaultVersion ? `${v} (default)` : v
+        );
+        lines.push(`      Versions: ${versions.join(", ")}`);
+      }
+      const compat = formatCompat(repo);
+      if (compat) {
+        lines.push(`      Compat: ${compat}`);
+      }
+    }
+  }
+
+  if (status.workspaces && status.workspaces.length > 0) {
+    lines.push("");
+    lines.push("Workspaces:");
+    for (const workspace of status.workspaces) {
+      lines.push(`  ✓ ${workspace.name}: ${workspace.path}`);
+    }
+  }
+
+  if (status.lockfile) {
+    lines.push("");
+    lines.push(`Lockfile: ${status.lockfile.path}`);
+    if (status.lockfile.error) {
+      lines.push(`  ✗ ${status.lockfile.error}`);
+    } else if (status.lockfile.drift.length === 0) {
+      lines.push("  ✓ Clones match the lockfile");
+    } else {
+      lines.push("  ⚠ Drift from lockfile:");
+      for (const drift of status.lockfile.drift) {
+        lines.push(`    - ${formatDrift(drift)}`);
+      }
+      lines.push("  Run noir_sync_repos with lockfile to restore the locked commits.");
     }
   }
 
   const clonedCount = status.repos.filter((r) => r.cloned).length;
-  if (clonedCount === 0) {
+  if (clonedCount === 0 && !status.workspaces?.length) {
     lines.push("");
     lines.push("No repositories cloned. Run noir_sync_repos to get started.");
   }
@@ -73,17 +338,33 @@ export function formatSearchResults(result: {
   success: boolean;
   results: SearchResult[];
   message: string;
+  warning?: string;
 }): string {
-  const lines = [result.message, ""];
+  const lines = [
+    result.message,
+    ...(result.warning ? [`⚠ ${result.warning}`] : []),
+    "",
+  ];
 
   if (!result.success || result.results.length === 0) {
     return lines.join("\n");
   }
 
-  for (const match of result.results) {
-    lines.push(`**${match.file}:${match.line}**`);
+  for (const snippet of mergeSnippets(result.results)) {
+    const scopes = snippet.scopes.length > 0 ? ` (${snippet.scopes.join(", ")})` : "";
+    lines.push(`**${snippet.file}:${snippet.matches.join(", ")}**${scopes}`);
     lines.push("```");
-    lines.push(match.content);
+    if (snippet.context) {
+      const { startLine, lines: source } = snippet.context;
+      const width = String(startLine + source.length - 1).length;
+      source.forEach((text, i) => {
+        const line = startLine + i;
+        const marker = snippet.matches.includes(line) ? ":" : "-";
+        lines.push(`${String(line).padStart(width)}${marker} ${text}`.trimEnd());
+      });
+    } else {
+      lines.push(snippet.content);
+    }
     lines.push("```");
     lines.push("");
   }
@@ -91,12 +372,128 @@ export function formatSearchResults(result: {
   return lines.join("\n");
 }
 
+interface Snippet {
+  file: string;
+  matches: (number | undefined)[];
+  scopes: string[];
+  content: string;
+  context?: SearchResult["context"];
+}
+
+/**
+ * Combine matches whose context lines overlap or touch into one snippet,
+ * so no line is shown twice
+ */
+function mergeSnippets(results: SearchResult[]): Snippet[] {
+  const snippets: Snippet[] = [];
+  const lastByFile = new Map<string, Snippet>();
+
+  for (const result of results) {
+    const previous = lastByFile.get(result.file);
+    const context = result.context;
+    if (previous?.context && context && result.line !== undefined) {
+      const previousEnd = previous.context.startLine + previous.context.lines.length - 1;
+      if (context.startLine <= previousEnd + 1) {
+        previous.context = {
+          startLine: previous.context.startLine,
+          lines: [
+            ...previous.context.lines,
+            ...context.lines.slice(previousEnd + 1 - context.startLine),
+          ],
+        };
+        previous.matches.push(result.line);
+        if (result.scope && !previous.scopes.includes(result.scope)) {
+          previous.scopes.push(result.scope);
+        }
+        continue;
+      }
+    }
+
+    const snippet: Snippet = {
+      file: result.file,
+      matches: [result.line],
+      scopes: result.scope ? [result.scope] : [],
+      content: result.content,
+      ...(context && { context }),
+    };
+    snippets.push(snippet);
+    lastByFile.set(result.file, snippet);
+  }
+
+  return snippets;
+}
+
+export function formatSymbolResults(result: {
+  success: boolean;
+  symbols: SymbolMatch[];
+  message: string;
+  warning?: string;
+}): string {
+  const lines = [
+    result.message,
+    ...(result.warning ? [`⚠ ${result.warning}`] : []),
+    "",
+  ];
+
+  for (const symbol of result.symbols) {
+    const name = symbol.container ? `${symbol.container}::${symbol.name}` : symbol.name;
+    lines.push(`**${name}** (${symbol.kind}, ${symbol.match} match) - ${symbol.file}:${symbol.line}`);
+    lines.push("```noir");
+    if (symbol.doc) {
+      lines.push(...symbol.doc.split("\n").map((line) => `/// ${line}`.trimEnd()));
+    }
+    lines.push(...(symbol.attributes ?? []));
+    lines.push(symbol.signature);
+    lines.push("```");
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+export function formatUsageResults(result: {
+  success: boolean;
+  usages: Usage[];
+  message: string;
+  warning?: string;
+}): string {
+  const lines = [
+    result.message,
+    ...(result.warning ? [`⚠ ${result.warning}`] : []),
+    "",
+  ];
+
+  const byRepo = new Map<string, Usage[]>();
+  for (const usage of result.usages) {
+    if (!byRepo.has(usage.repo)) {
+      byRepo.set(usage.repo, []);
+    }
+    byRepo.get(usage.repo)!.push(usage);
+  }
+
+  for (const [repo, usages] of byRepo) {
+    lines.push(`**${repo}** (${usages.length}):`);
+    for (const usage of usages) {
+      lines.push(`  - ${usage.file}:${usage.line} [${usage.kind}]`);
+      lines.push(`    \`${usage.content}\``);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
 export function formatExamplesList(result: {
   success: boolean;
   examples: FileInfo[];
   message: string;
+  warning?: string;
 }): string {
-  const lines = [result.message, ""];
+  const lines = [
+    result.message,
+    ...(result.warning ? [`⚠ ${result.warning}`] : []),
+    "",
+  ];
 
   if (!result.success || result.examples.length === 0) {
     return lines.join("\n");
@@ -157,10 +554,15 @@ export function formatFileContent(result: {
 
 export function formatLibrariesList(result: {
   success: boolean;
+  noirVersion?: string;
   libraries: LibraryInfo[];
   message: string;
 }): string {
-  const lines = [result.message, ""];
+  const lines = [result.message];
+  if (result.noirVersion) {
+    lines.push(`Compatibility checked against Noir ${result.noirVersion}`);
+  }
+  lines.push("");
 
   if (result.libraries.length === 0) {
     return lines.join("\n");
@@ -177,10 +579,19 @@ export function formatLibrariesList(result: {
   for (const [category, libs] of byCategory) {
     lines.push(`**${category}:**`);
     for (const lib of libs) {
-      const status = lib.cloned ? "✓ cloned" : "○ not cloned";
+      const status =
+        lib.source === "nargo-cache"
+          ? `✓ nargo cache @ ${lib.tag}`
+          : lib.cloned
+            ? "✓ cloned"
+            : "○ not cloned";
       lines.push(`  - **${lib.name}** [${status}]`);
       lines.push(`    ${lib.description}`);
       lines.push(`    ${lib.url}`);
+      const compat = formatCompat(lib);
+      if (compat) {
+        lines.push(`    ${compat}`);
+      }
     }
     lines.push("");
   }
@@ -191,3 +602,144 @@ export function formatLibrariesList(result: {
 
   return lines.join("\n");
 }
+
+export function formatWorkspaceResult(result: {
+  success: boolean;
+  workspaces: Workspace[];
+  message: string;
+}): string {
+  const lines = [result.success ? `✓ ${result.message}` : `✗ ${result.message}`];
+
+  if (result.workspaces.length > 0) {
+    lines.push("");
+    lines.push("Workspaces:");
+    for (const workspace of result.workspaces) {
+      lines.push(`  - ${workspace.name}: ${workspace.path}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+export function formatSparseResult(result: {
+  success: boolean;
+  repo: string;
+  sparse: string[];
+  message: string;
+}): string {
+  const lines = [result.success ? `✓ ${result.message}` : `✗ ${result.message}`];
+
+  if (result.sparse.length > 0) {
+    lines.push("");
+    lines.push(`Checked out paths in ${result.repo}:`);
+    for (const path of result.sparse) {
+      lines.push(`  - ${path}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+export function formatRemoveResult(result: {
+  success: boolean;
+  removed: RemovedRepo[];
+  freed: number;
+  message: string;
+}): string {
+  const lines = [result.success ? `✓ ${result.message}` : `✗ ${result.message}`];
+
+  if (result.removed.length > 0) {
+    lines.push("");
+    for (const repo of result.removed) {
+      lines.push(`  - ${repo.dirs.join(", ")} (${formatBytes(repo.size)})`);
+    }
+    lines.push("");
+    lines.push(`Freed ${formatBytes(result.freed)}`);
+  }
+
+  return lines.join("\n");
+}
+
+export function formatCompactResult(result: {
+  success: boolean;
+  repos: CompactedRepo[];
+  message: string;
+}): string {
+  const lines = [result.success ? `✓ ${result.message}` : `⚠ ${result.message}`];
+
+  if (result.repos.length > 0) {
+    lines.push("");
+    for (const repo of result.repos) {
+      lines.push(
+        repo.error
+          ? `  ✗ ${repo.dir}: ${repo.error}`
+          : `  ✓ ${repo.dir}: ${formatBytes(repo.sizeBefore)} → ${formatBytes(repo.sizeAfter)}`
+      );
+    }
+  }
+
+  return lines.join("\n");
+}
+
+export function formatCompatResult(result: {
+  success: boolean;
+  version: string;
+  libraries: LibraryCompat[];
+  message: string;
+}): string {
+  const lines = [result.success ? `✓ ${result.message}` : `✗ ${result.message}`];
+
+  for (const lib of result.libraries) {
+    lines.push("");
+    lines.push(`**${lib.name}**`);
+    lines.push(`  Checked out: ${formatCompat(lib) ?? "no compiler_version"}`);
+
+    const total =
+      lib.compatibleTags.length +
+      lib.incompatibleTags.length +
+      lib.unknownTags.length;
+    if (total === 0) {
+      lines.push(
+        "  No tags fetched locally. Run `git fetch --tags` in the checkout to check releases."
+      );
+      continue;
+    }
+
+    if (lib.compatibleTags.length > 0) {
+      lines.push("  Compatible tags:");
+      for (const { tag, compilerVersion } of lib.compatibleTags) {
+        lines.push(`    ✓ ${tag} (${compilerVersion})`);
+      }
+    } else {
+      lines.push("  No compatible tags found locally.");
+    }
+    if (lib.incompatibleTags.length > 0) {
+      lines.push(
+        `  Incompatible tags: ${lib.incompatibleTags.map((t) => t.tag).join(", ")}`
+      );
+    }
+    if (lib.unknownTags.length > 0) {
+      lines.push(`  Tags without compiler_version: ${lib.unknownTags.join(", ")}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+export function formatSnapshotResult(result: SnapshotResult): string {
+  const lines = [result.success ? `✓ ${result.message}` : `✗ ${result.message}`];
+
+  if (result.success) {
+    lines.push("");
+    if (result.noirVersion) {
+      lines.push(`Noir version: ${result.noirVersion}`);
+    }
+    lines.push("Repositories:");
+    for (const repo of result.repos) {
+      const name = repo.version ? `${repo.name}@${repo.version}` : repo.name;
+      lines.push(`  ✓ ${name} (${repo.commit.substring(0, 7)})`);
+    }
+  }
+
+  return lines.join("\n");
+}
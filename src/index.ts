@@ -19,22 +19,46 @@ import {
   syncRepos,
   getStatus,
   searchNoirCode,
+  findNoirSymbol,
+  findNoirUsages,
   searchNoirDocs,
   searchNoirStdlib,
   listNoirExamples,
   readNoirExample,
   readRepoFile,
   listNoirLibraries,
+  addNoirWorkspace,
+  checkNoirCompat,
+  exportSnapshot,
+  importSnapshot,
+  startSyncJob,
+  getSyncStatus,
+  addNoirSparsePaths,
+  removeNoirRepos,
+  compactNoirRepos,
 } from "./tools/index.js";
+import { runCli } from "./cli.js";
 
 import {
-  formatSyncResult,
   formatStatus,
   formatSearchResults,
+  formatSymbolResults,
+  formatUsageResults,
   formatExamplesList,
   formatExampleContent,
   formatFileContent,
   formatLibrariesList,
+  formatWorkspaceResult,
+  formatCompatResult,
+  formatSnapshotResult,
+  formatSyncResult,
+  formatSyncPlan,
+  formatSyncJob,
+  formatSyncStatus,
+  formatSyncProgress,
+  formatSparseResult,
+  formatRemoveResult,
+  formatCompactResult,
 } from "./formatting.js";
 
 const server = new Server(
@@ -58,7 +82,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       name: "noir_sync_repos",
       description:
         "Clone or update Noir repositories locally. Run this first to enable searching. " +
+        "Runs as a background job and returns its ID; poll noir_sync_status for the result. " +
         "Default: syncs core repos (noir compiler/stdlib/docs, noir-examples). " +
+        "Every sync writes a lockfile with the exact commit of each clone. " +
         "Use categories to sync additional repos: 'libraries' for community packages, 'reference' for awesome-noir.",
       inputSchema: {
         type: "object",
@@ -66,7 +92,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
           version: {
             type: "string",
             description:
-              "Noir version tag for the main noir repo (e.g., 'v1.0.0-beta.3'). Defaults to latest supported version.",
+              "Noir version tag for the main noir repo (e.g., 'v1.0.0-beta.3'). Defaults to latest supported version. " +
+              "Each version is kept in its own directory and the synced version becomes the default for searches.",
           },
           force: {
             type: "boolean",
@@ -82,7 +109,129 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             type: "array",
             items: { type: "string" },
             description:
-              "Categories to sync: 'core' (default), 'libraries', 'reference'. Example: ['core', 'libraries']",
+              "Categories to sync: 'core' (default), 'libraries', 'reference', or a user-defined category. Example: ['core', 'libraries']",
+          },
+          refs: {
+            type: "object",
+            additionalProperties: { type: "string" },
+            description:
+              "Per-repo tag or commit to check out, e.g. { \"noir-bignum\": \"v0.7.0\" }. Repos not listed use their default ref.",
+          },
+          lockfile: {
+            type: "string",
+            description:
+              "Path to a lockfile written by a previous sync. Syncs the repos it lists to exactly the locked commits. " +
+              "Cannot be combined with version, refs or sparse.",
+          },
+          sparse: {
+            type: "object",
+            additionalProperties: { type: "array", items: { type: "string" } },
+            description:
+              "Per-repo extra paths to check out in sparse clones, e.g. { \"noir\": [\"compiler/noirc_frontend\", \"test_programs\"] }. " +
+              "Extra paths are kept by later syncs. Repos cloned in full are rejected.",
+          },
+          repair: {
+            type: "boolean",
+            description:
+              "Re-clone only checkouts that noir_status reports as broken, e.g. after an interrupted sync (default: false)",
+          },
+          concurrency: {
+            type: "number",
+            description:
+              "Maximum number of repos cloned or updated at once (default: 4, or NOIR_MCP_SYNC_CONCURRENCY)",
+          },
+          wait: {
+            type: "boolean",
+            description:
+              "Wait for the sync to finish and return its result instead of a job ID, " +
+              "sending progress notifications if the request has a progressToken (default: false)",
+          },
+          dryRun: {
+            type: "boolean",
+            description:
+              "Only report which repos would be cloned, re-cloned, updated or left unchanged, and why. " +
+              "Nothing is changed on disk (default: false)",
+          },
+        },
+      },
+    },
+    {
+      name: "noir_sync_status",
+      description:
+        "Get the status and final result of background sync jobs started by noir_sync_repos.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          jobId: {
+            type: "string",
+            description: "Job ID returned by noir_sync_repos. Lists all recent jobs if omitted.",
+          },
+        },
+      },
+    },
+    {
+      name: "noir_add_sparse_paths",
+      description:
+        "Check out more paths of a sparse clone (e.g. compiler sources of the noir repo) without re-cloning it. " +
+        "The paths are kept by later syncs; noir_status lists the paths each clone has checked out.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          repo: {
+            type: "string",
+            description: "Repository name (e.g., 'noir')",
+          },
+          paths: {
+            type: "array",
+            items: { type: "string" },
+            description:
+              "Paths relative to the repository root (e.g., ['compiler/noirc_frontend', 'test_programs'])",
+          },
+          version: {
+            type: "string",
+            description: "Noir version whose clone to change (default: the default version)",
+          },
+        },
+        required: ["repo", "paths"],
+      },
+    },
+    {
+      name: "noir_remove_repos",
+      description:
+        "Delete cloned repositories to free disk space. Removes every installed version unless a version is given. " +
+        "noir_status shows the disk usage of each repo.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          repos: {
+            type: "array",
+            items: { type: "string" },
+            description: "Repos to remove by name (e.g., ['bb.js'])",
+          },
+          categories: {
+            type: "array",
+            items: { type: "string" },
+            description: "Remove all repos in these categories (e.g., ['libraries'])",
+          },
+          version: {
+            type: "string",
+            description: "Only remove this version of versioned repos (e.g., 'v1.0.0-beta.3')",
+          },
+        },
+      },
+    },
+    {
+      name: "noir_compact_repos",
+      description:
+        "Run git garbage collection on clones to drop history accumulated by repeated updates. " +
+        "Reports the size of each clone before and after.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          repos: {
+            type: "array",
+            items: { type: "string" },
+            description: "Repos to compact by name. Compacts all clones if omitted.",
           },
         },
       },
@@ -90,7 +239,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     {
       name: "noir_status",
       description:
-        "Check the status of cloned Noir repositories - shows which repos are available, their categories, and commit hashes.",
+        "Check the status of cloned Noir repositories - shows which repos are available, their categories, commit hashes, installed Noir versions, and drift from the lockfile.",
       inputSchema: {
         type: "object",
         properties: {},
@@ -100,13 +249,14 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       name: "noir_search_code",
       description:
         "Search Noir source code across all cloned repos. Supports regex patterns. " +
-        "Use for finding function implementations, patterns, and examples in .nr files.",
+        "Use for finding function implementations, patterns, and examples in .nr files. " +
+        "Each match names its enclosing function, impl or struct; set contextBefore/contextAfter for surrounding lines.",
       inputSchema: {
         type: "object",
         properties: {
           query: {
             type: "string",
-            description: "Search query (supports regex)",
+            description: "Search query (a regex unless mode is 'literal' or 'word')",
           },
           filePattern: {
             type: "string",
@@ -116,12 +266,105 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
           repo: {
             type: "string",
             description:
-              "Specific repo to search (e.g., 'noir', 'noir-bignum', 'zk-kit.noir')",
+              "Specific repo, workspace or cached nargo dependency to search (e.g., 'noir', 'noir-bignum', 'noir-bignum@v0.7.0')",
+          },
+          version: {
+            type: "string",
+            description:
+              "Installed Noir version to query (e.g., 'v1.0.0-beta.3'). Defaults to the most recently synced version.",
           },
           maxResults: {
             type: "number",
             description: "Maximum results to return (default: 30)",
           },
+          mode: {
+            type: "string",
+            enum: ["regex", "literal", "word"],
+            description:
+              "How the query is matched: 'regex' (default), 'literal' text (e.g. '[u8; 32]') or a whole 'word'",
+          },
+          caseSensitive: {
+            type: "boolean",
+            description: "Match case exactly (default: false)",
+          },
+          contextBefore: {
+            type: "number",
+            description: "Lines to show before each match (default: 0)",
+          },
+          contextAfter: {
+            type: "number",
+            description: "Lines to show after each match (default: 0)",
+          },
+        },
+        required: ["query"],
+      },
+    },
+    {
+      name: "noir_find_symbol",
+      description:
+        "Find where a Noir function, struct, trait, impl, global, type alias or module is defined, " +
+        "with its signature, generics, visibility and doc comment. Unlike noir_search_code it returns " +
+        "definitions only, ranked by exact, prefix and fuzzy name matches. " +
+        "Qualify the name to narrow it down, e.g. 'BigNum::new' or 'poseidon2::hash'.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "Symbol name, optionally qualified with a type or module (e.g., 'poseidon2', 'BigNum::new')",
+          },
+          kind: {
+            type: "string",
+            enum: ["fn", "struct", "trait", "impl", "global", "type", "mod"],
+            description: "Only return declarations of this kind",
+          },
+          repo: {
+            type: "string",
+            description:
+              "Specific repo, workspace or cached nargo dependency to search (e.g., 'noir', 'noir-bignum')",
+          },
+          version: {
+            type: "string",
+            description:
+              "Installed Noir version to query (e.g., 'v1.0.0-beta.3'). Defaults to the most recently synced version.",
+          },
+          maxResults: {
+            type: "number",
+            description: "Maximum results to return (default: 20)",
+          },
+        },
+        required: ["query"],
+      },
+    },
+    {
+      name: "noir_find_usages",
+      description:
+        "Find how a Noir function or type is used: call sites, imports and other references across " +
+        "examples, libraries, the stdlib and local workspaces, grouped by repo. Definitions and " +
+        "mentions in comments or strings are left out. Qualify the name to skip unrelated symbols " +
+        "of the same name, e.g. 'std::hash::poseidon2::Poseidon2::hash'.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description:
+              "Symbol name or path (e.g., 'poseidon2_hash', 'Poseidon2::hash', 'std::hash::poseidon2::Poseidon2::hash')",
+          },
+          repo: {
+            type: "string",
+            description:
+              "Specific repo, workspace or cached nargo dependency to search (e.g., 'noir-examples', 'noir-bignum')",
+          },
+          version: {
+            type: "string",
+            description:
+              "Installed Noir version to query (e.g., 'v1.0.0-beta.3'). Defaults to the most recently synced version.",
+          },
+          maxResults: {
+            type: "number",
+            description: "Maximum usages to return (default: 30)",
+          },
         },
         required: ["query"],
       },
@@ -129,7 +372,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     {
       name: "noir_search_docs",
       description:
-        "Search Noir documentation. Use for finding language guides, tutorials, and API documentation.",
+        "Search Noir documentation. Use for finding language guides, tutorials, and API documentation. " +
+        "Each match names the headings it is under.",
       inputSchema: {
         type: "object",
         properties: {
@@ -142,10 +386,33 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             description:
               "Docs section to search (subdirectory under noir/docs/)",
           },
+          version: {
+            type: "string",
+            description:
+              "Installed Noir version to query (e.g., 'v1.0.0-beta.3'). Defaults to the most recently synced version.",
+          },
           maxResults: {
             type: "number",
             description: "Maximum results to return (default: 20)",
           },
+          mode: {
+            type: "string",
+            enum: ["regex", "literal", "word"],
+            description:
+              "How the query is matched: 'regex' (default), 'literal' text (e.g. '[u8; 32]') or a whole 'word'",
+          },
+          caseSensitive: {
+            type: "boolean",
+            description: "Match case exactly (default: false)",
+          },
+          contextBefore: {
+            type: "number",
+            description: "Lines to show before each match (default: 0)",
+          },
+          contextAfter: {
+            type: "number",
+            description: "Lines to show after each match (default: 0)",
+          },
         },
         required: ["query"],
       },
@@ -163,10 +430,33 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             description:
               "Search query (e.g., 'hash', 'Field', 'assert', 'pedersen')",
           },
+          version: {
+            type: "string",
+            description:
+              "Installed Noir version to query (e.g., 'v1.0.0-beta.3'). Defaults to the most recently synced version.",
+          },
           maxResults: {
             type: "number",
             description: "Maximum results to return (default: 30)",
           },
+          mode: {
+            type: "string",
+            enum: ["regex", "literal", "word"],
+            description:
+              "How the query is matched: 'regex' (default), 'literal' text (e.g. '[u8; 32]') or a whole 'word'",
+          },
+          caseSensitive: {
+            type: "boolean",
+            description: "Match case exactly (default: false)",
+          },
+          contextBefore: {
+            type: "number",
+            description: "Lines to show before each match (default: 0)",
+          },
+          contextAfter: {
+            type: "number",
+            description: "Lines to show after each match (default: 0)",
+          },
         },
         required: ["query"],
       },
@@ -204,7 +494,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     {
       name: "noir_read_file",
       description:
-        "Read any file from the cloned repositories by path. Path should be relative to the repos directory.",
+        "Read any file from the cloned repositories, workspaces or cached nargo dependencies by path. " +
+        "Path should be relative to the repos directory or start with a workspace/dependency name.",
       inputSchema: {
         type: "object",
         properties: {
@@ -213,6 +504,11 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             description:
               "File path relative to repos directory (e.g., 'noir/noir_stdlib/src/hash/mod.nr')",
           },
+          version: {
+            type: "string",
+            description:
+              "Installed Noir version to query (e.g., 'v1.0.0-beta.3'). Defaults to the most recently synced version.",
+          },
         },
         required: ["path"],
       },
@@ -220,7 +516,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     {
       name: "noir_list_libraries",
       description:
-        "List available Noir library and reference repos with descriptions and clone status. " +
+        "List available Noir library and reference repos with descriptions and clone status, " +
+        "plus dependencies cached by nargo (~/nargo) labelled with their tag. " +
+        "Cloned libraries are flagged as compatible or not with the selected Noir version based on their Nargo.toml compiler_version. " +
         "Use to discover community packages and tools in the Noir ecosystem.",
       inputSchema: {
         type: "object",
@@ -228,9 +526,88 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
           category: {
             type: "string",
             description:
-              "Filter by category: 'libraries' or 'reference'. Shows both if omitted.",
+              "Filter by category: 'libraries', 'reference', or a user-defined category. Shows all non-core repos if omitted.",
+          },
+        },
+      },
+    },
+    {
+      name: "noir_check_compat",
+      description:
+        "Check which tags of each cloned library support a Noir version, based on the compiler_version " +
+        "in Nargo.toml at every locally fetched tag.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          version: {
+            type: "string",
+            description:
+              "Noir version to check against (e.g., 'v1.0.0-beta.18'). Defaults to the synced default version.",
+          },
+          repos: {
+            type: "array",
+            items: { type: "string" },
+            description: "Libraries to check. Checks all cloned libraries if omitted.",
+          },
+        },
+      },
+    },
+    {
+      name: "noir_export_snapshot",
+      description:
+        "Export all cloned repos, with a manifest and lockfile, into a single .tar.gz archive " +
+        "that noir_import_snapshot can restore on machines without network access.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "Path of the archive to write (e.g. './noir-repos.tar.gz')",
+          },
+        },
+        required: ["path"],
+      },
+    },
+    {
+      name: "noir_import_snapshot",
+      description:
+        "Import an archive created by noir_export_snapshot. Verifies the archive's manifest and the commit of every clone, " +
+        "then replaces local clones of the same name. Searches work offline afterwards.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "Path of the archive to import",
+          },
+          force: {
+            type: "boolean",
+            description:
+              "Import even if the archive's Noir version differs from the server's default version (default: false)",
           },
         },
+        required: ["path"],
+      },
+    },
+    {
+      name: "noir_add_workspace",
+      description:
+        "Add a local Nargo workspace (e.g. the project you are working on) as a search root. " +
+        "It is searched alongside the cloned repos under its own name, respecting .gitignore and skipping target/.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "Absolute path to the workspace root directory",
+          },
+          name: {
+            type: "string",
+            description:
+              "Name to use for the workspace in search results (default: directory name)",
+          },
+        },
+        required: ["path"],
       },
     },
   ],
@@ -245,14 +622,112 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   try {
     switch (name) {
       case "noir_sync_repos": {
-        const result = await syncRepos({
+        const syncOptions = {
           version: args?.version as string | undefined,
           force: args?.force as boolean | undefined,
           repos: args?.repos as string[] | undefined,
           categories: args?.categories as import("./repos/config.js").RepoCategory[] | undefined,
+          refs: args?.refs as Record<string, string> | undefined,
+          lockfile: args?.lockfile as string | undefined,
+          sparse: args?.sparse as Record<string, string[]> | undefined,
+          repair: args?.repair as boolean | undefined,
+          concurrency: args?.concurrency as number | undefined,
+        };
+        if (
+          syncOptions.concurrency !== undefined &&
+          !(Number.isInteger(syncOptions.concurrency) && syncOptions.concurrency > 0)
+        ) {
+          throw new McpError(ErrorCode.InvalidParams, "concurrency must be a positive integer");
+        }
+
+        // Planning is quick and read-only, so it does not need a job
+        if (args?.dryRun) {
+          const result = await syncRepos({ ...syncOptions, dryRun: true });
+          return {
+            content: [
+              {
+                type: "text",
+                text: result.plan ? formatSyncPlan(result) : formatSyncResult(result),
+              },
+            ],
+          };
+        }
+
+        // A background job outlives the request, and its token with it;
+        // noir_sync_status reports its progress instead
+        const progressToken = args?.wait ? request.params._meta?.progressToken : undefined;
+        let lastProgress = 0;
+
+        const { job, started, done } = startSyncJob(
+          syncOptions,
+          progressToken === undefined
+            ? undefined
+            : (progress) => {
+                // Stages restart at 0%, but reported progress must only increase
+                lastProgress = Math.max(
+                  lastProgress,
+                  progress.completed + (progress.percent ?? 0) / 100
+                );
+                server
+                  .notification({
+                    method: "notifications/progress",
+                    params: {
+                      progressToken,
+                      progress: lastProgress,
+                      total: progress.total,
+                      message: formatSyncProgress(progress),
+                    },
+                  })
+                  .catch(() => {});
+              }
+        );
+
+        const text = args?.wait
+          ? formatSyncJob(await done)
+          : formatSyncJob(job, started);
+        return {
+          content: [{ type: "text", text }],
+        };
+      }
+
+      case "noir_sync_status": {
+        const result = getSyncStatus({ jobId: args?.jobId as string | undefined });
+        return {
+          content: [{ type: "text", text: formatSyncStatus(result) }],
+        };
+      }
+
+      case "noir_add_sparse_paths": {
+        if (!args?.repo || !Array.isArray(args?.paths) || args.paths.length === 0) {
+          throw new McpError(ErrorCode.InvalidParams, "repo and paths are required");
+        }
+        const result = await addNoirSparsePaths({
+          repo: args.repo as string,
+          paths: args.paths as string[],
+          version: args?.version as string | undefined,
         });
         return {
-          content: [{ type: "text", text: formatSyncResult(result) }],
+          content: [{ type: "text", text: formatSparseResult(result) }],
+        };
+      }
+
+      case "noir_remove_repos": {
+        const result = await removeNoirRepos({
+          repos: args?.repos as string[] | undefined,
+          categories: args?.categories as import("./repos/config.js").RepoCategory[] | undefined,
+          version: args?.version as string | undefined,
+        });
+        return {
+          content: [{ type: "text", text: formatRemoveResult(result) }],
+        };
+      }
+
+      case "noir_compact_repos": {
+        const result = await compactNoirRepos({
+          repos: args?.repos as string[] | undefined,
+        });
+        return {
+          content: [{ type: "text", text: formatCompactResult(result) }],
         };
       }
 
@@ -267,25 +742,66 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         if (!args?.query) {
           throw new McpError(ErrorCode.InvalidParams, "query is required");
         }
-        const result = searchNoirCode({
+        const result = await searchNoirCode({
           query: args.query as string,
           filePattern: args?.filePattern as string | undefined,
           repo: args?.repo as string | undefined,
           maxResults: args?.maxResults as number | undefined,
+          version: args?.version as string | undefined,
+          mode: args?.mode as import("./utils/search.js").SearchMode | undefined,
+          caseSensitive: args?.caseSensitive as boolean | undefined,
+          contextBefore: args?.contextBefore as number | undefined,
+          contextAfter: args?.contextAfter as number | undefined,
         });
         return {
           content: [{ type: "text", text: formatSearchResults(result) }],
         };
       }
 
+      case "noir_find_symbol": {
+        if (!args?.query) {
+          throw new McpError(ErrorCode.InvalidParams, "query is required");
+        }
+        const result = await findNoirSymbol({
+          query: args.query as string,
+          kind: args?.kind as import("./utils/noir-parser.js").NoirSymbolKind | undefined,
+          repo: args?.repo as string | undefined,
+          maxResults: args?.maxResults as number | undefined,
+          version: args?.version as string | undefined,
+        });
+        return {
+          content: [{ type: "text", text: formatSymbolResults(result) }],
+        };
+      }
+
+      case "noir_find_usages": {
+        if (!args?.query) {
+          throw new McpError(ErrorCode.InvalidParams, "query is required");
+        }
+        const result = await findNoirUsages({
+          query: args.query as string,
+          repo: args?.repo as string | undefined,
+          maxResults: args?.maxResults as number | undefined,
+          version: args?.version as string | undefined,
+        });
+        return {
+          content: [{ type: "text", text: formatUsageResults(result) }],
+        };
+      }
+
       case "noir_search_docs": {
         if (!args?.query) {
           throw new McpError(ErrorCode.InvalidParams, "query is required");
         }
-        const result = searchNoirDocs({
+        const result = await searchNoirDocs({
           query: args.query as string,
           section: args?.section as string | undefined,
           maxResults: args?.maxResults as number | undefined,
+          version: args?.version as string | undefined,
+          mode: args?.mode as import("./utils/search.js").SearchMode | undefined,
+          caseSensitive: args?.caseSensitive as boolean | undefined,
+          contextBefore: args?.contextBefore as number | undefined,
+          contextAfter: args?.contextAfter as number | undefined,
         });
         return {
           content: [{ type: "text", text: formatSearchResults(result) }],
@@ -296,9 +812,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         if (!args?.query) {
           throw new McpError(ErrorCode.InvalidParams, "query is required");
         }
-        const result = searchNoirStdlib({
+        const result = await searchNoirStdlib({
           query: args.query as string,
           maxResults: args?.maxResults as number | undefined,
+          version: args?.version as string | undefined,
+          mode: args?.mode as import("./utils/search.js").SearchMode | undefined,
+          caseSensitive: args?.caseSensitive as boolean | undefined,
+          contextBefore: args?.contextBefore as number | undefined,
+          contextAfter: args?.contextAfter as number | undefined,
         });
         return {
           content: [{ type: "text", text: formatSearchResults(result) }],
@@ -332,6 +853,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
         const result = readRepoFile({
           path: args.path as string,
+          version: args?.version as string | undefined,
         });
         return {
           content: [{ type: "text", text: formatFileContent(result) }],
@@ -347,6 +869,52 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "noir_check_compat": {
+        const result = await checkNoirCompat({
+          version: args?.version as string | undefined,
+          repos: args?.repos as string[] | undefined,
+        });
+        return {
+          content: [{ type: "text", text: formatCompatResult(result) }],
+        };
+      }
+
+      case "noir_export_snapshot": {
+        if (!args?.path) {
+          throw new McpError(ErrorCode.InvalidParams, "path is required");
+        }
+        const result = await exportSnapshot({ path: args.path as string });
+        return {
+          content: [{ type: "text", text: formatSnapshotResult(result) }],
+        };
+      }
+
+      case "noir_import_snapshot": {
+        if (!args?.path) {
+          throw new McpError(ErrorCode.InvalidParams, "path is required");
+        }
+        const result = await importSnapshot({
+          path: args.path as string,
+          force: args?.force as boolean | undefined,
+        });
+        return {
+          content: [{ type: "text", text: formatSnapshotResult(result) }],
+        };
+      }
+
+      case "noir_add_workspace": {
+        if (!args?.path) {
+          throw new McpError(ErrorCode.InvalidParams, "path is required");
+        }
+        const result = addNoirWorkspace({
+          path: args.path as string,
+          name: args?.name as string | undefined,
+        });
+        return {
+          content: [{ type: "text", text: formatWorkspaceResult(result) }],
+        };
+      }
+
       default:
         throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
     }
@@ -368,6 +936,11 @@ async function main() {
   console.error("Noir MCP Server started");
 }
 
+const exitCode = await runCli(process.argv.slice(2));
+if (exitCode !== null) {
+  process.exit(exitCode);
+}
+
 main().catch((error) => {
   console.error("Failed to start server:", error);
   process.exit(1);
@@ -0,0 +1,57 @@
+/**
+ * Noir → bb.js version mapping, from barretenberg/bbup/bb-versions.json in
+ * aztec-packages. Keys and values carry no leading "v".
+ */
+
+import { existsSync, readFileSync } from "fs";
+
+/**
+ * Bundled copy of bb-versions.json, refreshed by sync-bb-version.mjs.
+ * Used when the aztec-packages checkout is missing or does not know a version.
+ */
+export const BUNDLED_BB_VERSIONS: Record<string, string> = {
+  "1.0.0-beta.19": "4.0.0-nightly.20260120",
+};
+
+/**
+ * Load the mapping from a bb-versions.json checkout, merged over the bundled copy
+ */
+export function loadBbVersions(checkoutPath?: string): Record<string, string> {
+  if (!checkoutPath || !existsSync(checkoutPath)) {
+    return BUNDLED_BB_VERSIONS;
+  }
+
+  try {
+    const data = JSON.parse(readFileSync(checkoutPath, "utf-8"));
+    if (typeof data !== "object" || data === null || Array.isArray(data)) {
+      return BUNDLED_BB_VERSIONS;
+    }
+    const entries = Object.entries(data).filter(
+      (entry): entry is [string, string] => typeof entry[1] === "string"
+    );
+    return { ...BUNDLED_BB_VERSIONS, ...Object.fromEntries(entries) };
+  } catch {
+    return BUNDLED_BB_VERSIONS;
+  }
+}
+
+/**
+ * Get the bb.js tag matching a Noir version tag (undefined if unknown)
+ */
+export function resolveBbVersion(
+  noirVersion: string,
+  mapping: Record<string, string> = BUNDLED_BB_VERSIONS
+): string | undefined {
+  const bbVersion = mapping[noirVersion.replace(/^v/, "")];
+  return bbVersion ? `v${bbVersion.replace(/^v/, "")}` : undefined;
+}
+
+/**
+ * Explain why bb.js was not synced for a Noir version
+ */
+export function noBbVersionMessage(noirVersion: string): string {
+  return (
+    `No bb.js version is known for Noir ${noirVersion} in bb-versions.json. ` +
+    `Pass refs: { "bb.js": "<tag>" } to choose one.`
+  );
+}
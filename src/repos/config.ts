@@ -2,7 +2,16 @@
  * Configuration for Noir repositories to clone and search
  */
 
-export type RepoCategory = "core" | "libraries" | "reference";
+import { existsSync, readFileSync } from "fs";
+import { isAbsolute, join, resolve } from "path";
+import { homedir } from "os";
+import { pathToFileURL } from "url";
+import { loadBbVersions, resolveBbVersion } from "./bb-versions.js";
+
+/** Built-in categories; user-defined repos may add their own */
+export type BuiltinCategory = "core" | "libraries" | "reference";
+
+export type RepoCategory = BuiltinCategory | (string & {});
 
 export interface RepoConfig {
   /** Unique name for the repo */
@@ -17,6 +26,10 @@ export interface RepoConfig {
   commit?: string;
   /** Sparse checkout paths - if set, only these paths are checked out */
   sparse?: string[];
+  /** Paths checked out on top of `sparse`, requested for a single clone */
+  extraSparse?: string[];
+  /** Clone each tag into its own `<name>@<tag>` directory so versions can coexist */
+  versioned?: boolean;
   /** Description of what this repo contains */
   description: string;
   /** Category for grouping repos */
@@ -36,6 +49,25 @@ export const DEFAULT_NOIR_VERSION =
 export const DEFAULT_BB_VERSION =
   process.env.BB_DEFAULT_VERSION || "v4.0.0-nightly.20260120";
 
+/** Base directory for noir-mcp data */
+const DATA_DIR = process.env.NOIR_MCP_REPOS_DIR || join(homedir(), ".noir-mcp");
+
+/** bb-versions.json in the bb.js (aztec-packages) checkout */
+const BB_VERSIONS_CHECKOUT_PATH = join(
+  DATA_DIR,
+  "repos",
+  "bb.js",
+  "barretenberg",
+  "bbup",
+  "bb-versions.json"
+);
+
+/** Path of the user-defined repository registry */
+export const USER_REPOS_CONFIG_PATH =
+  process.env.NOIR_MCP_REPOS_CONFIG || join(DATA_DIR, "repos.json");
+
+const BUILTIN_CATEGORIES: BuiltinCategory[] = ["core", "libraries", "reference"];
+
 /**
  * Base Noir repository configurations (without version tag)
  */
@@ -46,6 +78,7 @@ const BASE_REPOS: Omit<RepoConfig, "tag">[] = [
     url: "https://github.com/noir-lang/noir",
     branch: "master",
     sparse: ["docs", "noir_stdlib", "tooling", "examples"],
+    versioned: true,
     description:
       "Noir language compiler, standard library, tooling, and documentation",
     category: "core",
@@ -137,7 +170,7 @@ const BASE_REPOS: Omit<RepoConfig, "tag">[] = [
     name: "bb.js",
     url: "https://github.com/AztecProtocol/aztec-packages",
     branch: "next",
-    sparse: ["barretenberg/ts"],
+    sparse: ["barretenberg/ts", "barretenberg/bbup"],
     description:
       "Aztec Barretenberg TypeScript/JavaScript bindings for proving backends",
     category: "libraries",
@@ -156,22 +189,321 @@ const BASE_REPOS: Omit<RepoConfig, "tag">[] = [
   },
 ];
 
+/**
+ * Validate one entry of the user-defined registry.
+ * Entries overriding a built-in repo only need a name; new repos must
+ * also provide url, description and category.
+ */
+export function validateRepoConfig(
+  entry: unknown,
+  source: string,
+  isOverride: boolean = false
+): Partial<RepoConfig> & { name: string } {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid repo config in ${source}: ${reason}`);
+  };
+
+  if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+    fail("each entry must be an object");
+  }
+  const repo = entry as Record<string, unknown>;
+
+  if (typeof repo.name !== "string" || !repo.name.trim()) {
+    fail("'name' must be a non-empty string");
+  }
+  const name = repo.name as string;
+  if (name.includes("/") || name.startsWith(".")) {
+    fail(`'${name}' is not a valid directory name`);
+  }
+  // `@` separates a versioned repo's name from its version in directory names
+  if (name.includes("@")) {
+    fail(`'${name}' must not contain '@'`);
+  }
+
+  const required = isOverride ? [] : ["url", "description", "category"];
+  for (const field of ["url", "description", "category", "branch", "tag", "commit"]) {
+    const value = repo[field];
+    if (value === undefined) {
+      if (required.includes(field)) {
+        fail(`'${name}' is missing required field '${field}'`);
+      }
+      continue;
+    }
+    if (typeof value !== "string" || !value.trim()) {
+      fail(`'${name}.${field}' must be a non-empty string`);
+    }
+  }
+
+  const isStringArray = (value: unknown) =>
+    Array.isArray(value) && value.every((v) => typeof v === "string");
+
+  if (repo.sparse !== undefined && !isStringArray(repo.sparse)) {
+    fail(`'${name}.sparse' must be an array of strings`);
+  }
+
+  if (repo.versioned !== undefined && typeof repo.versioned !== "boolean") {
+    fail(`'${name}.versioned' must be a boolean`);
+  }
+
+  if (repo.searchPatterns !== undefined) {
+    const patterns = repo.searchPatterns as Record<string, unknown>;
+    if (typeof patterns !== "object" || patterns === null) {
+      fail(`'${name}.searchPatterns' must be an object`);
+    }
+    for (const key of ["code", "docs"]) {
+      if (patterns[key] !== undefined && !isStringArray(patterns[key])) {
+        fail(`'${name}.searchPatterns.${key}' must be an array of strings`);
+      }
+    }
+  }
+
+  return repo as Partial<RepoConfig> & { name: string };
+}
+
+/**
+ * Read the user config file. Returns null when it does not exist; throws when
+ * it is not a JSON object.
+ */
+function readUserConfig(path: string): Record<string, unknown> | null {
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid repo config in ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error(`Invalid repo config in ${path}: expected a 'repos' array`);
+  }
+  return data as Record<string, unknown>;
+}
+
+/**
+ * Load user-defined repos from a JSON file of the form `{ "repos": [...] }`.
+ * Returns an empty list when the file does not exist; throws when it is invalid.
+ */
+export function loadUserRepos(
+  path: string = USER_REPOS_CONFIG_PATH
+): (Partial<RepoConfig> & { name: string })[] {
+  const data = readUserConfig(path);
+  if (!data || data.repos === undefined) {
+    return [];
+  }
+
+  const repos = data.repos;
+  if (!Array.isArray(repos)) {
+    throw new Error(`Invalid repo config in ${path}: expected a 'repos' array`);
+  }
+
+  const builtinNames = new Set(BASE_REPOS.map((r) => r.name));
+  const seen = new Set<string>();
+
+  return repos.map((entry) => {
+    const repo = validateRepoConfig(
+      entry,
+      path,
+      builtinNames.has((entry as { name?: string })?.name ?? "")
+    );
+    if (seen.has(repo.name)) {
+      throw new Error(
+        `Invalid repo config in ${path}: duplicate entry '${repo.name}'`
+      );
+    }
+    seen.add(repo.name);
+    return repo;
+  });
+}
+
+/**
+ * Merge user-defined repos into a base list. Entries with a matching name
+ * override fields of the base entry; new entries are appended.
+ */
+export function mergeRepos(
+  base: Omit<RepoConfig, "tag">[],
+  user: (Partial<RepoConfig> & { name: string })[]
+): RepoConfig[] {
+  const merged: RepoConfig[] = base.map((repo) => ({ ...repo }));
+
+  for (const entry of user) {
+    const index = merged.findIndex((r) => r.name === entry.name);
+    if (index >= 0) {
+      merged[index] = { ...merged[index], ...entry };
+    } else {
+      merged.push(entry as RepoConfig);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Problems found in the user config on startup. The server still starts
+ * (without the invalid settings) and noir_status reports them.
+ */
+export const CONFIG_ERRORS: string[] = [];
+
+/**
+ * Load part of the user config, recording the error and using the fallback
+ * if it is invalid
+ */
+function loadOrReport<T>(load: () => T, fallback: T): T {
+  try {
+    return load();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // An unreadable file fails every part loaded from it; report it once
+    if (!CONFIG_ERRORS.includes(message)) CONFIG_ERRORS.push(message);
+    return fallback;
+  }
+}
+
+/** User-defined repos, validated once on startup (none if the file is invalid) */
+const USER_REPOS = loadOrReport(() => loadUserRepos(), []);
+
+/** A URL prefix replaced by another, like git's `url.<to>.insteadOf <from>` */
+export interface UrlRewrite {
+  from: string;
+  to: string;
+}
+
+/**
+ * Parse rewrite rules from NOIR_MCP_URL_REWRITES (`from=to` pairs separated by `;`)
+ */
+export function parseUrlRewritesEnv(value: string | undefined): UrlRewrite[] {
+  if (!value) return [];
+
+  return value
+    .split(";")
+    .map((rule) => rule.trim())
+    .filter(Boolean)
+    .map((rule) => {
+      const index = rule.indexOf("=");
+      const from = rule.substring(0, index).trim();
+      const to = rule.substring(index + 1).trim();
+      if (index <= 0 || !to) {
+        throw new Error(
+          `Invalid URL rewrite '${rule}' in NOIR_MCP_URL_REWRITES: expected 'from=to'`
+        );
+      }
+      return { from, to };
+    });
+}
+
+/**
+ * Load rewrite rules from the `urlRewrites` object of the user config file
+ */
+export function loadUrlRewrites(path: string = USER_REPOS_CONFIG_PATH): UrlRewrite[] {
+  const rewrites = readUserConfig(path)?.urlRewrites;
+  if (rewrites === undefined) {
+    return [];
+  }
+
+  if (typeof rewrites !== "object" || rewrites === null || Array.isArray(rewrites)) {
+    throw new Error(
+      `Invalid repo config in ${path}: 'urlRewrites' must map URL prefixes to replacements`
+    );
+  }
+
+  return Object.entries(rewrites).map(([from, to]) => {
+    if (!from || typeof to !== "string" || !to) {
+      throw new Error(
+        `Invalid repo config in ${path}: URL rewrite for '${from}' must be a non-empty string`
+      );
+    }
+    return { from, to };
+  });
+}
+
+/** URL rewrite rules; rules from the environment win over the config file */
+export const URL_REWRITES: UrlRewrite[] = [
+  ...loadOrReport(() => parseUrlRewritesEnv(process.env.NOIR_MCP_URL_REWRITES), []),
+  ...loadOrReport(() => loadUrlRewrites(), []),
+];
+
+/**
+ * Get the URL a repo is actually cloned from. The longest matching prefix
+ * is rewritten; plain local paths become file:// URLs so shallow and sparse
+ * clones still work.
+ */
+export function rewriteUrl(url: string, rules: UrlRewrite[] = URL_REWRITES): string {
+  let rewritten = url;
+  let matched = -1;
+  for (const rule of rules) {
+    if (url.startsWith(rule.from) && rule.from.length > matched) {
+      rewritten = rule.to + url.substring(rule.from.length);
+      matched = rule.from.length;
+    }
+  }
+
+  if (rewritten.startsWith("~/")) {
+    rewritten = join(homedir(), rewritten.substring(2));
+  }
+  if (isAbsolute(rewritten)) {
+    return pathToFileURL(resolve(rewritten)).href;
+  }
+  return rewritten;
+}
+
+/** Per-repo ref overrides, e.g. `{ "noir-bignum": "v0.7.0" }` */
+export type RepoRefs = Record<string, string>;
+
+/**
+ * Check whether a ref looks like a commit hash rather than a tag
+ */
+export function isCommitRef(ref: string): boolean {
+  return /^[0-9a-f]{7,40}$/i.test(ref);
+}
+
+/**
+ * Pin a repo config to a ref. Commit hashes are checked out as commits,
+ * anything else as a tag.
+ */
+export function applyRef(config: RepoConfig, ref: string): RepoConfig {
+  return isCommitRef(ref)
+    ? { ...config, commit: ref, tag: undefined }
+    : { ...config, tag: ref, commit: undefined };
+}
+
+/**
+ * Get the bb.js tag matching a Noir version: DEFAULT_BB_VERSION for the
+ * default Noir version, otherwise looked up in bb-versions.json from the
+ * bb.js checkout or the bundled copy (undefined when no mapping exists)
+ */
+export function getBbVersion(noirVersion: string): string | undefined {
+  if (noirVersion === DEFAULT_NOIR_VERSION) {
+    return DEFAULT_BB_VERSION;
+  }
+  return resolveBbVersion(noirVersion, loadBbVersions(BB_VERSIONS_CHECKOUT_PATH));
+}
+
 /**
  * Get Noir repositories configured for a specific version.
- * Version tag only applies to the main noir repo.
+ * The version tag applies to the main noir repo and selects the matching
+ * bb.js tag; other repos can be pinned individually with `refs`.
  */
-export function getNoirRepos(version?: string): RepoConfig[] {
+export function getNoirRepos(version?: string, refs?: RepoRefs): RepoConfig[] {
   const tag = version || DEFAULT_NOIR_VERSION;
+  const bbTag = getBbVersion(tag);
 
-  return BASE_REPOS.map((repo) => ({
-    ...repo,
-    tag:
-      repo.name === "noir"
-        ? tag
-        : repo.name === "bb.js"
-          ? DEFAULT_BB_VERSION
-          : undefined,
-  }));
+  return mergeRepos(BASE_REPOS, USER_REPOS).map((repo) => {
+    const config = {
+      ...repo,
+      tag:
+        repo.name === "noir"
+          ? tag
+          : repo.name === "bb.js"
+            ? bbTag
+            : repo.tag,
+    };
+    const ref = refs?.[repo.name];
+    return ref ? applyRef(config, ref) : config;
+  });
 }
 
 /**
@@ -191,10 +523,16 @@ export function getReposByCategory(
 }
 
 /**
- * Get all available category names
+ * Get all available category names (built-in first, then user-defined)
  */
 export function getCategoryNames(): RepoCategory[] {
-  return ["core", "libraries", "reference"];
+  const names: RepoCategory[] = [...BUILTIN_CATEGORIES];
+  for (const repo of NOIR_REPOS) {
+    if (!names.includes(repo.category)) {
+      names.push(repo.category);
+    }
+  }
+  return names;
 }
 
 /**
@@ -0,0 +1,127 @@
+/**
+ * Compatibility tool - checks which library tags support a Noir version
+ */
+
+import { NOIR_REPOS } from "../repos/config.js";
+import {
+  getRepoPath,
+  isRepoCloned,
+  listRepoTags,
+  readFileAtRef,
+} from "../utils/git.js";
+import {
+  CompatInfo,
+  checkCompat,
+  compareVersions,
+  findCompilerVersion,
+  memberTomlPath,
+  parseNargoToml,
+  satisfiesVersion,
+} from "../utils/compat.js";
+import { getSelectedNoirVersion } from "../utils/search.js";
+
+export interface LibraryCompat extends CompatInfo {
+  name: string;
+  /** Local tags whose compiler_version accepts the Noir version (newest first) */
+  compatibleTags: { tag: string; compilerVersion: string }[];
+  /** Local tags whose compiler_version rejects the Noir version */
+  incompatibleTags: { tag: string; compilerVersion: string }[];
+  /** Local tags without a (parseable) compiler_version */
+  unknownTags: string[];
+}
+
+/**
+ * Read the compiler_version of a repo as of a tag
+ */
+async function getCompilerVersionAtTag(
+  repoName: string,
+  tag: string
+): Promise<string | undefined> {
+  const root = await readFileAtRef(repoName, tag, "Nargo.toml");
+  if (root === null) return undefined;
+
+  const files = new Map<string, string | null>([["Nargo.toml", root]]);
+  for (const member of parseNargoToml(root).members) {
+    const path = memberTomlPath(member);
+    files.set(path, await readFileAtRef(repoName, tag, path));
+  }
+
+  return findCompilerVersion((relPath) => files.get(relPath) ?? null);
+}
+
+/**
+ * For a Noir version (default: the selected one), list which locally fetched tags of each cloned library
+ * satisfy their Nargo.toml compiler_version
+ */
+export async function checkNoirCompat(options: {
+  version?: string;
+  repos?: string[];
+}): Promise<{
+  success: boolean;
+  version: string;
+  libraries: LibraryCompat[];
+  message: string;
+}> {
+  const { version = getSelectedNoirVersion(), repos: repoNames } = options;
+
+  // Libraries are cloned repos with a root Nargo.toml (noir itself has none)
+  const candidates = NOIR_REPOS.filter(
+    (r) =>
+      !r.versioned &&
+      (!repoNames || repoNames.length === 0 || repoNames.includes(r.name)) &&
+      isRepoCloned(r.name)
+  );
+
+  const libraries: LibraryCompat[] = [];
+
+  for (const config of candidates) {
+    const current = checkCompat(getRepoPath(config.name), version);
+    const tags = await listRepoTags(config.name);
+    if (current.compilerVersion === undefined && tags.length === 0) {
+      continue;
+    }
+
+    const library: LibraryCompat = {
+      name: config.name,
+      ...current,
+      compatibleTags: [],
+      incompatibleTags: [],
+      unknownTags: [],
+    };
+
+    for (const tag of [...tags].sort((a, b) => compareVersions(b, a))) {
+      const compilerVersion = await getCompilerVersionAtTag(config.name, tag);
+      const compatible =
+        compilerVersion !== undefined
+          ? satisfiesVersion(version, compilerVersion)
+          : undefined;
+
+      if (compilerVersion === undefined || compatible === undefined) {
+        library.unknownTags.push(tag);
+      } else if (compatible) {
+        library.compatibleTags.push({ tag, compilerVersion });
+      } else {
+        library.incompatibleTags.push({ tag, compilerVersion });
+      }
+    }
+
+    libraries.push(library);
+  }
+
+  if (libraries.length === 0) {
+    return {
+      success: false,
+      version,
+      libraries,
+      message:
+        "No cloned libraries with a Nargo.toml found. Run noir_sync_repos with categories: ['libraries'] first.",
+    };
+  }
+
+  return {
+    success: true,
+    version,
+    libraries,
+    message: `Checked ${libraries.length} libraries against Noir ${version}`,
+  };
+}
@@ -3,8 +3,11 @@
  */
 
 export { syncRepos, getStatus } from "./sync.js";
+export { startSyncJob, getSyncStatus } from "./sync-jobs.js";
 export {
   searchNoirCode,
+  findNoirSymbol,
+  findNoirUsages,
   searchNoirDocs,
   searchNoirStdlib,
   listNoirExamples,
@@ -12,3 +15,8 @@ export {
   readRepoFile,
   listNoirLibraries,
 } from "./search.js";
+export { addNoirWorkspace } from "./workspace.js";
+export { checkNoirCompat } from "./compat.js";
+export { exportSnapshot, importSnapshot } from "./snapshot.js";
+export { addNoirSparsePaths } from "./sparse.js";
+export { removeNoirRepos, compactNoirRepos } from "./maintenance.js";
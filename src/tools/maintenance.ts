@@ -0,0 +1,210 @@
+/**
+ * Maintenance tools - remove clones and compact their git history
+ */
+
+import { join } from "path";
+import { NOIR_REPOS, RepoCategory } from "../repos/config.js";
+import {
+  REPOS_DIR,
+  compactRepo,
+  getRepoDirs,
+  isRepoCloned,
+  removeRepo,
+} from "../utils/git.js";
+import { getDiskUsage } from "../utils/disk.js";
+import { buildLockfile, writeLockfile } from "../utils/lockfile.js";
+import { acquireSyncLock } from "../utils/sync-lock.js";
+import { listSyncJobs } from "./sync-jobs.js";
+
+export interface RemovedRepo {
+  name: string;
+  /** Directories removed from the repos directory */
+  dirs: string[];
+  /** Bytes freed */
+  size: number;
+}
+
+export interface CompactedRepo {
+  /** Clone directory, e.g. `noir@v1.0.0-beta.19` */
+  dir: string;
+  sizeBefore: number;
+  sizeAfter: number;
+  error?: string;
+}
+
+function isSyncRunning(): boolean {
+  return listSyncJobs().some((job) => job.status === "running");
+}
+
+/**
+ * Resolve repo names and categories to configured repo names
+ */
+function selectRepos(repos?: string[], categories?: RepoCategory[]): string[] {
+  const unknown = (repos ?? []).filter(
+    (name) => !NOIR_REPOS.some((r) => r.name === name)
+  );
+  if (unknown.length > 0) {
+    throw new Error(`Unknown repositories: ${unknown.join(", ")}`);
+  }
+
+  return NOIR_REPOS.filter(
+    (r) => repos?.includes(r.name) || categories?.includes(r.category)
+  ).map((r) => r.name);
+}
+
+/**
+ * Delete the clones of the given repos or categories
+ */
+export async function removeNoirRepos(options: {
+  repos?: string[];
+  categories?: RepoCategory[];
+  version?: string;
+}): Promise<{
+  success: boolean;
+  removed: RemovedRepo[];
+  freed: number;
+  message: string;
+}> {
+  const failure = (message: string) => ({
+    success: false,
+    removed: [],
+    freed: 0,
+    message,
+  });
+
+  if (!options.repos?.length && !options.categories?.length) {
+    return failure("Specify repos or categories to remove");
+  }
+  if (isSyncRunning()) {
+    return failure("A sync is running. Wait for it to finish before removing repos.");
+  }
+
+  let names: string[];
+  try {
+    names = selectRepos(options.repos, options.categories);
+  } catch (error) {
+    return failure(error instanceof Error ? error.message : String(error));
+  }
+
+  let release: () => void;
+  try {
+    release = acquireSyncLock("remove");
+  } catch (error) {
+    return failure(error instanceof Error ? error.message : String(error));
+  }
+
+  const removed: RemovedRepo[] = [];
+  let lockfileError: string | undefined;
+  try {
+    for (const name of names) {
+      const dirs = getRepoDirs(name).filter(
+        (entry) => !options.version || entry === `${name}@${options.version}`
+      );
+      if (dirs.length === 0) continue;
+
+      let size = 0;
+      for (const entry of dirs) {
+        size += await getDiskUsage(join(REPOS_DIR, entry));
+      }
+      removeRepo(name, options.version);
+      removed.push({ name, dirs, size });
+    }
+
+    // Keep the lockfile in step with what is on disk, before another
+    // process can change it
+    if (removed.length > 0) {
+      try {
+        writeLockfile(await buildLockfile(NOIR_REPOS));
+      } catch (error) {
+        lockfileError = error instanceof Error ? error.message : String(error);
+      }
+    }
+  } finally {
+    release();
+  }
+
+  const freed = removed.reduce((sum, r) => sum + r.size, 0);
+  let message =
+    removed.length > 0
+      ? `Removed ${removed.length} repositories`
+      : "None of the selected repositories are cloned";
+  if (lockfileError) {
+    message += ` (lockfile not updated: ${lockfileError})`;
+  }
+
+  return { success: true, removed, freed, message };
+}
+
+/**
+ * Run git garbage collection on clones (all of them unless repos are given)
+ */
+export async function compactNoirRepos(options: { repos?: string[] }): Promise<{
+  success: boolean;
+  repos: CompactedRepo[];
+  message: string;
+}> {
+  if (isSyncRunning()) {
+    return {
+      success: false,
+      repos: [],
+      message: "A sync is running. Wait for it to finish before compacting repos.",
+    };
+  }
+
+  let names: string[];
+  try {
+    names = options.repos?.length
+      ? selectRepos(options.repos)
+      : NOIR_REPOS.map((r) => r.name);
+  } catch (error) {
+    return {
+      success: false,
+      repos: [],
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  let release: () => void;
+  try {
+    release = acquireSyncLock("compact");
+  } catch (error) {
+    return {
+      success: false,
+      repos: [],
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const repos: CompactedRepo[] = [];
+  try {
+    for (const dir of names.flatMap(getRepoDirs).filter((d) => isRepoCloned(d))) {
+      const path = join(REPOS_DIR, dir);
+      const sizeBefore = await getDiskUsage(path);
+      try {
+        await compactRepo(dir);
+        repos.push({ dir, sizeBefore, sizeAfter: await getDiskUsage(path) });
+      } catch (error) {
+        repos.push({
+          dir,
+          sizeBefore,
+          sizeAfter: sizeBefore,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  } finally {
+    release();
+  }
+
+  const failed = repos.filter((r) => r.error).length;
+  return {
+    success: failed === 0,
+    repos,
+    message:
+      repos.length === 0
+        ? "No cloned repositories to compact"
+        : failed > 0
+          ? `${failed} of ${repos.length} clones could not be compacted`
+          : `Compacted ${repos.length} clones`,
+  };
+}
@@ -10,49 +10,134 @@ import {
   listLibraries as doListLibraries,
   findExample,
   readFile,
+  getLocalSources,
+  getSelectedNoirVersion,
+  SearchMode,
   SearchResult,
   FileInfo,
   LibraryInfo,
 } from "../utils/search.js";
 import { isRepoCloned } from "../utils/git.js";
-import { getRepoNames, RepoCategory } from "../repos/config.js";
+import { getWorkspaces } from "../utils/workspaces.js";
+import { describeSyncLock, getSyncLock } from "../utils/sync-lock.js";
+import { findSymbols, SymbolMatch } from "../utils/symbols.js";
+import { findUsages, Usage } from "../utils/usages.js";
+import type { NoirSymbolKind } from "../utils/noir-parser.js";
+import {
+  getRepoNames,
+  getCategoryNames,
+  RepoCategory,
+} from "../repos/config.js";
+
+/**
+ * Message for a requested Noir version that has not been synced
+ */
+function versionNotInstalledMessage(version: string): string {
+  return `Noir ${version} is not installed. Run noir_sync_repos with version '${version}' first.`;
+}
+
+/**
+ * Warn that results may be incomplete while repos are being changed, e.g.
+ * by a sync in another MCP server sharing the repos directory
+ */
+function syncInProgressWarning(): { warning?: string } {
+  const lock = getSyncLock();
+  return lock
+    ? { warning: `Repositories are being changed (${describeSyncLock(lock)}); results may be incomplete.` }
+    : {};
+}
 
 /**
  * Search Noir code (.nr files, TypeScript, etc.)
  */
-export function searchNoirCode(options: {
+export async function searchNoirCode(options: {
   query: string;
   filePattern?: string;
   repo?: string;
   maxResults?: number;
-}): {
+  version?: string;
+  mode?: SearchMode;
+  caseSensitive?: boolean;
+  contextBefore?: number;
+  contextAfter?: number;
+}): Promise<{
   success: boolean;
   results: SearchResult[];
   message: string;
-} {
-  const { query, filePattern = "*.nr", repo, maxResults = 30 } = options;
+  warning?: string;
+}> {
+  const {
+    query,
+    filePattern = "*.nr",
+    repo,
+    maxResults = 30,
+    version,
+    mode,
+    caseSensitive,
+    contextBefore,
+    contextAfter,
+  } = options;
+
+  if (version && !isRepoCloned("noir", version)) {
+    return {
+      success: false,
+      ...syncInProgressWarning(),
+      results: [],
+      message: versionNotInstalledMessage(version),
+    };
+  }
+
+  const localSources = getLocalSources();
 
-  if (repo && !isRepoCloned(repo)) {
+  if (
+    repo &&
+    !isRepoCloned(repo) &&
+    !localSources.some((s) => s.name === repo)
+  ) {
     return {
       success: false,
+      ...syncInProgressWarning(),
       results: [],
       message: `Repository '${repo}' is not cloned. Run noir_sync_repos first.`,
     };
   }
 
-  const anyCloned = getRepoNames().some(isRepoCloned);
+  const anyCloned =
+    getRepoNames().some((name) => isRepoCloned(name)) ||
+    localSources.length > 0;
   if (!anyCloned) {
     return {
       success: false,
+      ...syncInProgressWarning(),
       results: [],
       message: "No repositories are cloned. Run noir_sync_repos first.",
     };
   }
 
-  const results = doSearchCode(query, { filePattern, repo, maxResults });
+  let results: SearchResult[];
+  try {
+    results = await doSearchCode(query, {
+      filePattern,
+      repo,
+      maxResults,
+      version,
+      mode,
+      caseSensitive,
+      contextBefore,
+      contextAfter,
+      scope: true,
+    });
+  } catch (error) {
+    return {
+      success: false,
+      results: [],
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
 
   return {
     success: true,
+    ...syncInProgressWarning(),
     results,
     message:
       results.length > 0
@@ -61,33 +146,191 @@ export function searchNoirCode(options: {
   };
 }
 
+/**
+ * Find where Noir functions, types, traits, globals and modules are defined
+ */
+export async function findNoirSymbol(options: {
+  query: string;
+  kind?: NoirSymbolKind;
+  repo?: string;
+  maxResults?: number;
+  version?: string;
+}): Promise<{
+  success: boolean;
+  symbols: SymbolMatch[];
+  message: string;
+  warning?: string;
+}> {
+  const { query, kind, repo, maxResults = 20, version } = options;
+
+  if (version && !isRepoCloned("noir", version)) {
+    return {
+      success: false,
+      ...syncInProgressWarning(),
+      symbols: [],
+      message: versionNotInstalledMessage(version),
+    };
+  }
+
+  const localSources = getLocalSources();
+  const anyCloned = repo
+    ? isRepoCloned(repo) || localSources.some((s) => s.name === repo)
+    : getRepoNames().some((name) => isRepoCloned(name)) || localSources.length > 0;
+  if (!anyCloned) {
+    return {
+      success: false,
+      ...syncInProgressWarning(),
+      symbols: [],
+      message: repo
+        ? `Repository '${repo}' is not cloned. Run noir_sync_repos first.`
+        : "No repositories are cloned. Run noir_sync_repos first.",
+    };
+  }
+
+  const symbols = await findSymbols(query, { kind, repo, maxResults, version });
+
+  return {
+    success: true,
+    ...syncInProgressWarning(),
+    symbols,
+    message:
+      symbols.length > 0
+        ? `Found ${symbols.length} definitions matching '${query}'`
+        : `No definitions found matching '${query}'`,
+  };
+}
+
+/**
+ * Find where a Noir symbol is used: call sites, imports and other
+ * references, grouped by repo
+ */
+export async function findNoirUsages(options: {
+  query: string;
+  repo?: string;
+  maxResults?: number;
+  version?: string;
+}): Promise<{
+  success: boolean;
+  usages: Usage[];
+  message: string;
+  warning?: string;
+}> {
+  const { query, repo, maxResults = 30, version } = options;
+
+  if (version && !isRepoCloned("noir", version)) {
+    return {
+      success: false,
+      ...syncInProgressWarning(),
+      usages: [],
+      message: versionNotInstalledMessage(version),
+    };
+  }
+
+  const localSources = getLocalSources();
+  const anyCloned = repo
+    ? isRepoCloned(repo) || localSources.some((s) => s.name === repo)
+    : getRepoNames().some((name) => isRepoCloned(name)) || localSources.length > 0;
+  if (!anyCloned) {
+    return {
+      success: false,
+      ...syncInProgressWarning(),
+      usages: [],
+      message: repo
+        ? `Repository '${repo}' is not cloned. Run noir_sync_repos first.`
+        : "No repositories are cloned. Run noir_sync_repos first.",
+    };
+  }
+
+  let usages: Usage[];
+  let truncated: boolean;
+  try {
+    ({ usages, truncated } = await findUsages(query, { repo, maxResults, version }));
+  } catch (error) {
+    return {
+      success: false,
+      usages: [],
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const repoCount = new Set(usages.map((u) => u.repo)).size;
+  let message =
+    usages.length > 0
+      ? `Found ${usages.length} usages of '${query}' in ${repoCount} repos`
+      : `No usages found for '${query}'`;
+  if (truncated) {
+    message += " (the name has too many matches to check them all; narrow the search with repo)";
+  }
+  return {
+    success: true,
+    ...syncInProgressWarning(),
+    usages,
+    message,
+  };
+}
+
 /**
  * Search Noir documentation
  */
-export function searchNoirDocs(options: {
+export async function searchNoirDocs(options: {
   query: string;
   section?: string;
   maxResults?: number;
-}): {
+  version?: string;
+  mode?: SearchMode;
+  caseSensitive?: boolean;
+  contextBefore?: number;
+  contextAfter?: number;
+}): Promise<{
   success: boolean;
   results: SearchResult[];
   message: string;
-} {
-  const { query, section, maxResults = 20 } = options;
+  warning?: string;
+}> {
+  const {
+    query,
+    section,
+    maxResults = 20,
+    version,
+    mode,
+    caseSensitive,
+    contextBefore,
+    contextAfter,
+  } = options;
 
-  if (!isRepoCloned("noir")) {
+  if (!isRepoCloned("noir", version)) {
     return {
       success: false,
+      ...syncInProgressWarning(),
       results: [],
-      message:
-        "noir repo is not cloned. Run noir_sync_repos first to get documentation.",
+      message: version
+        ? versionNotInstalledMessage(version)
+        : "noir repo is not cloned. Run noir_sync_repos first to get documentation.",
     };
   }
 
-  const results = doSearchDocs(query, { section, maxResults });
+  let results: SearchResult[];
+  try {
+    results = await doSearchDocs(query, {
+      section,
+      maxResults,
+      version,
+      mode,
+      caseSensitive,
+      contextBefore,
+      contextAfter,
+    });
+  } catch (error) {
+    return {
+      success: false,
+      results: [],
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
 
   return {
     success: true,
+    ...syncInProgressWarning(),
     results,
     message:
       results.length > 0
@@ -99,29 +342,62 @@ export function searchNoirDocs(options: {
 /**
  * Search Noir standard library
  */
-export function searchNoirStdlib(options: {
+export async function searchNoirStdlib(options: {
   query: string;
   maxResults?: number;
-}): {
+  version?: string;
+  mode?: SearchMode;
+  caseSensitive?: boolean;
+  contextBefore?: number;
+  contextAfter?: number;
+}): Promise<{
   success: boolean;
   results: SearchResult[];
   message: string;
-} {
-  const { query, maxResults = 30 } = options;
+  warning?: string;
+}> {
+  const {
+    query,
+    maxResults = 30,
+    version,
+    mode,
+    caseSensitive,
+    contextBefore,
+    contextAfter,
+  } = options;
 
-  if (!isRepoCloned("noir")) {
+  if (!isRepoCloned("noir", version)) {
     return {
       success: false,
+      ...syncInProgressWarning(),
       results: [],
-      message:
-        "noir repo is not cloned. Run noir_sync_repos first to search the standard library.",
+      message: version
+        ? versionNotInstalledMessage(version)
+        : "noir repo is not cloned. Run noir_sync_repos first to search the standard library.",
     };
   }
 
-  const results = doSearchStdlib(query, { maxResults });
+  let results: SearchResult[];
+  try {
+    results = await doSearchStdlib(query, {
+      maxResults,
+      version,
+      mode,
+      caseSensitive,
+      contextBefore,
+      contextAfter,
+    });
+  } catch (error) {
+    return {
+      success: false,
+      results: [],
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
 
   return {
     success: true,
+    ...syncInProgressWarning(),
     results,
     message:
       results.length > 0
@@ -137,13 +413,17 @@ export function listNoirExamples(options: { category?: string }): {
   success: boolean;
   examples: FileInfo[];
   message: string;
+  warning?: string;
 } {
   const { category } = options;
 
-  const anyCloned = getRepoNames().some(isRepoCloned);
+  const anyCloned =
+    getRepoNames().some((name) => isRepoCloned(name)) ||
+    getWorkspaces().length > 0;
   if (!anyCloned) {
     return {
       success: false,
+      ...syncInProgressWarning(),
       examples: [],
       message: "No repositories are cloned. Run noir_sync_repos first.",
     };
@@ -153,6 +433,7 @@ export function listNoirExamples(options: { category?: string }): {
 
   return {
     success: true,
+    ...syncInProgressWarning(),
     examples,
     message:
       examples.length > 0
@@ -204,14 +485,21 @@ export function readNoirExample(options: { name: string }): {
 /**
  * Read any file from cloned repos
  */
-export function readRepoFile(options: { path: string }): {
+export function readRepoFile(options: { path: string; version?: string }): {
   success: boolean;
   content?: string;
   message: string;
 } {
-  const { path } = options;
+  const { path, version } = options;
+
+  if (version && !isRepoCloned("noir", version)) {
+    return {
+      success: false,
+      message: versionNotInstalledMessage(version),
+    };
+  }
 
-  const content = readFile(path);
+  const content = readFile(path, version);
 
   if (!content) {
     return {
@@ -232,19 +520,22 @@ export function readRepoFile(options: { path: string }): {
  */
 export function listNoirLibraries(options: { category?: string }): {
   success: boolean;
+  noirVersion: string;
   libraries: LibraryInfo[];
   message: string;
 } {
-  const validCategories: RepoCategory[] = ["libraries", "reference"];
+  const validCategories = getCategoryNames().filter((c) => c !== "core");
   const category =
-    options.category && validCategories.includes(options.category as RepoCategory)
+    options.category && validCategories.includes(options.category)
       ? (options.category as RepoCategory)
       : undefined;
 
-  const libraries = doListLibraries(category);
+  const noirVersion = getSelectedNoirVersion();
+  const libraries = doListLibraries(category, noirVersion);
 
   return {
     success: true,
+    noirVersion,
     libraries,
     message: `Found ${libraries.length} library/reference repos`,
   };
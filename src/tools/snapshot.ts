@@ -0,0 +1,67 @@
+/**
+ * Snapshot tools - export and import the repos directory for offline use
+ */
+
+import { createSnapshot, restoreSnapshot } from "../utils/snapshot.js";
+import { withSyncLock } from "../utils/sync-lock.js";
+
+export interface SnapshotResult {
+  success: boolean;
+  archive: string;
+  noirVersion?: string;
+  repos: { name: string; version?: string; commit: string }[];
+  message: string;
+}
+
+/**
+ * Export all cloned repos into a single .tar.gz archive
+ */
+export async function exportSnapshot(options: {
+  path: string;
+}): Promise<SnapshotResult> {
+  try {
+    const { manifest, lock } = await createSnapshot(options.path);
+    return {
+      success: true,
+      archive: options.path,
+      noirVersion: manifest.noirVersion,
+      repos: lock.repos.map(({ name, version, commit }) => ({ name, version, commit })),
+      message: `Exported ${lock.repos.length} repositories to ${options.path}`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      archive: options.path,
+      repos: [],
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Import an archive created by exportSnapshot, replacing clones of the same name
+ */
+export async function importSnapshot(options: {
+  path: string;
+  force?: boolean;
+}): Promise<SnapshotResult> {
+  try {
+    const { manifest, lock } = await withSyncLock("snapshot import", () =>
+      restoreSnapshot(options.path, { force: options.force })
+    );
+    return {
+      success: true,
+      archive: options.path,
+      noirVersion: manifest.noirVersion,
+      repos: lock.repos.map(({ name, version, commit }) => ({ name, version, commit })),
+      message: `Imported ${lock.repos.length} repositories from ${options.path}`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      archive: options.path,
+      repos: [],
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Sparse checkout tool - checks out more paths of a sparse clone
+ */
+
+import { addSparsePaths } from "../utils/git.js";
+import { withSyncLock } from "../utils/sync-lock.js";
+
+/**
+ * Add paths to an existing sparse clone without re-cloning it
+ */
+export async function addNoirSparsePaths(options: {
+  repo: string;
+  paths: string[];
+  version?: string;
+}): Promise<{
+  success: boolean;
+  repo: string;
+  sparse: string[];
+  added: string[];
+  message: string;
+}> {
+  const { repo, paths, version } = options;
+
+  try {
+    const { sparse, added } = await withSyncLock("sparse checkout", () =>
+      addSparsePaths(repo, paths, version)
+    );
+    return {
+      success: true,
+      repo,
+      sparse,
+      added,
+      message:
+        added.length > 0
+          ? `Checked out ${added.join(", ")} in ${repo}`
+          : `${repo} already has ${paths.join(", ")} checked out`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      repo,
+      sparse: [],
+      added: [],
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
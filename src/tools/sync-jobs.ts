@@ -0,0 +1,128 @@
+/**
+ * Background sync jobs - run noir_sync_repos without blocking the tool call
+ * and poll for the result with noir_sync_status
+ */
+
+import { syncRepos, SyncProgress, SyncResult } from "./sync.js";
+
+export type SyncOptions = Omit<Parameters<typeof syncRepos>[0], "onProgress">;
+
+export interface SyncJob {
+  id: string;
+  status: "running" | "completed" | "failed";
+  startedAt: string;
+  finishedAt?: string;
+  /** Latest progress event while running */
+  progress?: SyncProgress;
+  /** Final result once completed */
+  result?: SyncResult;
+  /** Unexpected error that aborted the job */
+  error?: string;
+}
+
+/** Finished jobs kept for polling */
+const MAX_FINISHED_JOBS = 20;
+
+const jobs = new Map<string, SyncJob>();
+const running = new Map<string, Promise<SyncJob>>();
+let nextJobId = 1;
+
+function pruneFinishedJobs(): void {
+  const finished = [...jobs.values()].filter((job) => job.status !== "running");
+  for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+    jobs.delete(job.id);
+  }
+}
+
+/**
+ * Start a sync in the background. Only one sync runs at a time: while one is
+ * running, its job is returned instead of starting another.
+ */
+export function startSyncJob(
+  options: SyncOptions,
+  onProgress?: (progress: SyncProgress) => void
+): { job: SyncJob; started: boolean; done: Promise<SyncJob> } {
+  const active = [...jobs.values()].find((job) => job.status === "running");
+  if (active) {
+    return { job: active, started: false, done: running.get(active.id)! };
+  }
+
+  const job: SyncJob = {
+    id: `sync-${nextJobId++}`,
+    status: "running",
+    startedAt: new Date().toISOString(),
+  };
+  jobs.set(job.id, job);
+
+  const done = syncRepos({
+    ...options,
+    onProgress: (progress) => {
+      job.progress = progress;
+      onProgress?.(progress);
+    },
+  })
+    .then((result) => {
+      job.status = "completed";
+      job.result = result;
+      return job;
+    })
+    .catch((error) => {
+      job.status = "failed";
+      job.error = error instanceof Error ? error.message : String(error);
+      return job;
+    })
+    .finally(() => {
+      job.finishedAt = new Date().toISOString();
+      running.delete(job.id);
+      pruneFinishedJobs();
+    });
+
+  running.set(job.id, done);
+  return { job, started: true, done };
+}
+
+/**
+ * Get a sync job by ID
+ */
+export function getSyncJob(id: string): SyncJob | undefined {
+  return jobs.get(id);
+}
+
+/**
+ * List known sync jobs, most recent first
+ */
+export function listSyncJobs(): SyncJob[] {
+  return [...jobs.values()].reverse();
+}
+
+/**
+ * Remove all jobs (used by tests)
+ */
+export function clearSyncJobs(): void {
+  jobs.clear();
+  running.clear();
+  nextJobId = 1;
+}
+
+/**
+ * Report on one job, or on all known jobs when no ID is given
+ */
+export function getSyncStatus(options: { jobId?: string }): {
+  success: boolean;
+  jobs: SyncJob[];
+  message: string;
+} {
+  if (options.jobId) {
+    const job = getSyncJob(options.jobId);
+    return job
+      ? { success: true, jobs: [job], message: `Sync job ${job.id} is ${job.status}` }
+      : { success: false, jobs: [], message: `Unknown sync job: ${options.jobId}` };
+  }
+
+  const all = listSyncJobs();
+  return {
+    success: true,
+    jobs: all,
+    message: all.length > 0 ? `${all.length} sync jobs` : "No sync jobs have been started",
+  };
+}
@@ -2,13 +2,54 @@
  * Repository sync tool - clones and updates Noir repositories
  */
 
+import { join } from "path";
 import {
+  CONFIG_ERRORS,
   NOIR_REPOS,
   getNoirRepos,
   DEFAULT_NOIR_VERSION,
   RepoCategory,
+  RepoConfig,
+  RepoRefs,
 } from "../repos/config.js";
-import { cloneRepo, getReposStatus, REPOS_DIR } from "../utils/git.js";
+import { noBbVersionMessage } from "../repos/bb-versions.js";
+import {
+  cloneRepo,
+  getReposStatus,
+  getDefaultVersion,
+  setDefaultVersion,
+  listInstalledVersions,
+  getRepoPath,
+  getRepoDirName,
+  getRepoCommit,
+  getCheckoutProblem,
+  removeStaleClones,
+  validateSparsePaths,
+  getRepoDirs,
+  listReposDir,
+  planRepoSync,
+  SyncPlanStep,
+  REPOS_DIR,
+} from "../utils/git.js";
+import { getDiskUsage } from "../utils/disk.js";
+import { acquireSyncLock, getSyncLock, SyncLockInfo } from "../utils/sync-lock.js";
+import { getWorkspaces, Workspace } from "../utils/workspaces.js";
+import { checkCompat } from "../utils/compat.js";
+import {
+  LOCKFILE_PATH,
+  LockDrift,
+  Lockfile,
+  buildLockfile,
+  getLockDrift,
+  getLockedConfigs,
+  readLockfile,
+  writeLockfile,
+} from "../utils/lockfile.js";
+import { getSelectedNoirVersion } from "../utils/search.js";
+import { classifySyncError, SyncFailure } from "../utils/sync-errors.js";
+
+/** Outcome of syncing one repo */
+export type SyncStatus = "cloned" | "updated" | "unchanged" | "skipped" | "failed";
 
 export interface SyncResult {
   success: boolean;
@@ -16,31 +57,239 @@ export interface SyncResult {
   version: string;
   repos: {
     name: string;
-    status: string;
-    commit?: string;
+    status: SyncStatus;
+    /** What was done, or why the repo was skipped or failed */
+    message: string;
+    /** Short commit of the checkout before and after the sync */
+    commit?: { before?: string; after?: string };
+    /** Set when status is "failed" */
+    failure?: SyncFailure;
   }[];
+  /** Why the sync could not start at all, e.g. another process holds the lock */
+  failure?: SyncFailure;
+  /** Lockfile written after the sync */
+  lockfile?: string;
+  /** What a dry run would have done, in sync order */
+  plan?: SyncPlanEntry[];
+}
+
+export interface SyncPlanEntry {
+  name: string;
+  action: SyncPlanStep["action"] | "skip";
+  reason: string;
+}
+
+/** Progress of a sync, reported per repo and per git transfer stage */
+export interface SyncProgress {
+  /** Repo being synced */
+  repo: string;
+  /** Number of repos finished so far */
+  completed: number;
+  total: number;
+  /** "starting", a git stage such as "receiving", or "done" */
+  phase: string;
+  /** Percentage of the current git stage */
+  percent?: number;
+}
+
+function positiveIntEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/** Number of repos cloned or updated at the same time */
+export const SYNC_CONCURRENCY = positiveIntEnv("NOIR_MCP_SYNC_CONCURRENCY", 4);
+
+/** Time limit for syncing a single repo */
+export const SYNC_TIMEOUT_MS =
+  positiveIntEnv("NOIR_MCP_SYNC_TIMEOUT", 600) * 1000;
+
+/**
+ * Run fn over items with at most `limit` calls in flight. Results keep the
+ * order of items regardless of which call finishes first.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  // A limit that is not a positive integer would start no workers at all
+  const workers = Number.isInteger(limit) && limit > 0 ? limit : 1;
+  await Promise.all(Array.from({ length: Math.min(workers, items.length) }, worker));
+  return results;
 }
 
 /**
  * Sync repositories (clone if missing, update if exists).
  * Default: only syncs core repos. Use categories or repos to expand.
+ * With a lockfile, syncs the repos it lists to exactly the locked commits.
  */
-export async function syncRepos(options: {
+export async function syncRepos(
+  options: Parameters<typeof runSync>[0]
+): Promise<SyncResult> {
+  // A dry run only reads REPOS_DIR
+  if (options.dryRun) {
+    return runSync(options);
+  }
+
+  // Other MCP servers may share REPOS_DIR
+  let release: () => void;
+  try {
+    release = acquireSyncLock("sync");
+  } catch (error) {
+    const failure = classifySyncError(error);
+    return {
+      success: false,
+      message: failure.message,
+      version: options.version || DEFAULT_NOIR_VERSION,
+      repos: [],
+      failure,
+    };
+  }
+  try {
+    return await runSync(options);
+  } finally {
+    release();
+  }
+}
+
+async function runSync(options: {
   force?: boolean;
   repos?: string[];
   version?: string;
   categories?: RepoCategory[];
+  refs?: RepoRefs;
+  lockfile?: string;
+  /** Extra paths to check out per sparse repo, kept by later syncs */
+  sparse?: Record<string, string[]>;
+  /** Only re-clone broken checkouts (all categories unless repos are named) */
+  repair?: boolean;
+  /** Maximum number of repos synced at once */
+  concurrency?: number;
+  /** Time limit for each repo in milliseconds */
+  timeoutMs?: number;
+  /** Report what would be synced without touching the disk */
+  dryRun?: boolean;
+  onProgress?: (progress: SyncProgress) => void;
 }): Promise<SyncResult> {
-  const { force = false, repos: repoNames, version, categories } = options;
+  const {
+    force = false,
+    repos: repoNames,
+    version,
+    categories,
+    refs,
+    lockfile,
+    sparse,
+    repair = false,
+    concurrency = SYNC_CONCURRENCY,
+    timeoutMs = SYNC_TIMEOUT_MS,
+    dryRun = false,
+    onProgress,
+  } = options;
+
+  const hasRefs = refs !== undefined && Object.keys(refs).length > 0;
+  const hasSparse = sparse !== undefined && Object.keys(sparse).length > 0;
+
+  let lock: Lockfile | null = null;
+  if (lockfile) {
+    const failure = (message: string): SyncResult => ({
+      success: false,
+      message,
+      version: version || DEFAULT_NOIR_VERSION,
+      repos: [],
+    });
+
+    if (version || hasRefs || hasSparse) {
+      return failure("A lockfile cannot be combined with version, refs or sparse");
+    }
+    try {
+      lock = readLockfile(lockfile);
+    } catch (error) {
+      return failure(error instanceof Error ? error.message : String(error));
+    }
+    if (!lock) {
+      return failure(`Lockfile not found: ${lockfile}`);
+    }
+  }
+
+  let configuredRepos: RepoConfig[];
+  try {
+    configuredRepos = lock
+      ? getLockedConfigs(lock)
+      : version || hasRefs
+        ? getNoirRepos(version, refs)
+        : NOIR_REPOS;
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : String(error),
+      version: DEFAULT_NOIR_VERSION,
+      repos: [],
+    };
+  }
+  const effectiveVersion =
+    version || lock?.defaultVersions.noir || DEFAULT_NOIR_VERSION;
+
+  const unknownRefs = Object.keys(refs || {}).filter(
+    (name) => !configuredRepos.some((r) => r.name === name)
+  );
+  if (unknownRefs.length > 0) {
+    return {
+      success: false,
+      message: `Unknown repositories in refs: ${unknownRefs.join(", ")}`,
+      version: effectiveVersion,
+      repos: [],
+    };
+  }
 
-  const configuredRepos = version ? getNoirRepos(version) : NOIR_REPOS;
-  const effectiveVersion = version || DEFAULT_NOIR_VERSION;
+  if (hasSparse) {
+    const unknownSparse = Object.keys(sparse).filter(
+      (name) => !configuredRepos.some((r) => r.name === name)
+    );
+    const fullCheckouts = Object.keys(sparse).filter((name) =>
+      configuredRepos.some((r) => r.name === name && !r.sparse?.length)
+    );
+    try {
+      if (unknownSparse.length > 0) {
+        throw new Error(`Unknown repositories in sparse: ${unknownSparse.join(", ")}`);
+      }
+      if (fullCheckouts.length > 0) {
+        throw new Error(
+          `Not sparse checkouts, all paths are already present: ${fullCheckouts.join(", ")}`
+        );
+      }
+      Object.values(sparse).forEach(validateSparsePaths);
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : String(error),
+        version: effectiveVersion,
+        repos: [],
+      };
+    }
+    configuredRepos = configuredRepos.map((config) =>
+      sparse[config.name] ? { ...config, extraSparse: sparse[config.name] } : config
+    );
+  }
 
   let reposToSync;
 
   if (repoNames && repoNames.length > 0) {
     // Specific repos requested
     reposToSync = configuredRepos.filter((r) => repoNames.includes(r.name));
+  } else if (lock || repair) {
+    // Everything in the lockfile
+    reposToSync = configuredRepos;
   } else if (categories && categories.length > 0) {
     // Categories requested
     reposToSync = configuredRepos.filter((r) =>
@@ -51,6 +300,25 @@ export async function syncRepos(options: {
     reposToSync = configuredRepos.filter((r) => r.category === "core");
   }
 
+  if (repair) {
+    const removed = dryRun ? [] : removeStaleClones();
+    const broken = [];
+    for (const config of reposToSync) {
+      if (await getCheckoutProblem(getRepoDirName(config))) broken.push(config);
+    }
+    if (broken.length === 0) {
+      return {
+        success: true,
+        message:
+          "No broken checkouts found" +
+          (removed.length > 0 ? ` (removed ${removed.length} leftover temporary clones)` : ""),
+        version: effectiveVersion,
+        repos: [],
+      };
+    }
+    reposToSync = broken;
+  }
+
   if (reposToSync.length === 0) {
     return {
       success: false,
@@ -60,31 +328,144 @@ export async function syncRepos(options: {
     };
   }
 
-  const results: SyncResult["repos"] = [];
+  if (dryRun) {
+    return planSync(reposToSync, force || repair, effectiveVersion);
+  }
 
-  for (const config of reposToSync) {
-    try {
-      const status = await cloneRepo(config, force);
-      results.push({ name: config.name, status });
-    } catch (error) {
-      results.push({
-        name: config.name,
-        status: `Error: ${error instanceof Error ? error.message : String(error)}`,
-      });
+  const total = reposToSync.length;
+  let completed = 0;
+
+  const results = await mapWithConcurrency(
+    reposToSync,
+    concurrency,
+    async (config): Promise<SyncResult["repos"][number]> => {
+      // Without a Noir → bb mapping bb.js would follow its branch, mismatching Noir
+      if (config.name === "bb.js" && !config.tag && !config.commit) {
+        completed++;
+        return {
+          name: config.name,
+          status: "skipped",
+          message: `Skipped: ${noBbVersionMessage(effectiveVersion)}`,
+        };
+      }
+
+      const progress = { repo: config.name, total };
+      onProgress?.({ ...progress, completed, phase: "starting" });
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      const dirName = getRepoDirName(config);
+      const before = (await getRepoCommit(dirName).catch(() => null)) || undefined;
+      let result: SyncResult["repos"][number];
+      try {
+        const message = await cloneRepo(config, force, {
+          signal: controller.signal,
+          onProgress:
+            onProgress &&
+            ((phase, percent) => onProgress({ ...progress, completed, phase, percent })),
+        });
+        if (controller.signal.aborted) {
+          throw new Error(`Timed out after ${timeoutMs / 1000}s`);
+        }
+        const after = (await getRepoCommit(dirName)) || undefined;
+        result = {
+          name: config.name,
+          status: !before ? "cloned" : before !== after ? "updated" : "unchanged",
+          message,
+          commit: { before, after },
+        };
+
+        // The most recently synced version becomes the default for searches
+        if (config.versioned && config.tag) {
+          setDefaultVersion(config.name, config.tag);
+        }
+      } catch (error) {
+        const failure: SyncFailure = controller.signal.aborted
+          ? { kind: "timeout", message: `Timed out after ${timeoutMs / 1000}s` }
+          : classifySyncError(error);
+        result = {
+          name: config.name,
+          status: "failed",
+          message: failure.message,
+          failure,
+          ...(before && { commit: { before } }),
+        };
+      } finally {
+        clearTimeout(timer);
+      }
+
+      completed++;
+      onProgress?.({ ...progress, completed, phase: "done" });
+      return result;
+    }
+  );
+
+  // Restore the default versions recorded in the lockfile
+  for (const [name, defaultVersion] of Object.entries(lock?.defaultVersions ?? {})) {
+    if (listInstalledVersions(name).includes(defaultVersion)) {
+      setDefaultVersion(name, defaultVersion);
     }
   }
 
-  const allSuccess = results.every(
-    (r) => !r.status.toLowerCase().includes("error")
-  );
+  const allSuccess = results.every((r) => r.status !== "failed");
+
+  let message = allSuccess
+    ? `Successfully synced ${results.length} repositories to ${REPOS_DIR}`
+    : "Some repositories failed to sync";
+
+  // Record what is on disk now so the environment can be reproduced
+  let writtenLockfile: string | undefined;
+  try {
+    writeLockfile(await buildLockfile(NOIR_REPOS));
+    writtenLockfile = LOCKFILE_PATH;
+  } catch (error) {
+    message += ` (lockfile not written: ${error instanceof Error ? error.message : String(error)})`;
+  }
 
   return {
     success: allSuccess,
-    message: allSuccess
-      ? `Successfully synced ${results.length} repositories to ${REPOS_DIR}`
-      : "Some repositories failed to sync",
+    message,
     version: effectiveVersion,
     repos: results,
+    lockfile: writtenLockfile,
+  };
+}
+
+/**
+ * Work out what syncing the given repos would do
+ */
+async function planSync(
+  configs: RepoConfig[],
+  force: boolean,
+  version: string
+): Promise<SyncResult> {
+  const plan: SyncPlanEntry[] = [];
+  for (const config of configs) {
+    if (config.name === "bb.js" && !config.tag && !config.commit) {
+      plan.push({ name: config.name, action: "skip", reason: noBbVersionMessage(version) });
+      continue;
+    }
+    try {
+      plan.push({ name: config.name, ...(await planRepoSync(config, force)) });
+    } catch (error) {
+      plan.push({
+        name: config.name,
+        action: "reclone",
+        reason: `could not inspect clone: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }
+
+  const count = (action: SyncPlanEntry["action"]) =>
+    plan.filter((entry) => entry.action === action).length;
+  return {
+    success: true,
+    message:
+      `Dry run: ${count("clone")} to clone, ${count("reclone")} to re-clone, ` +
+      `${count("update")} to update, ${count("keep")} unchanged, ${count("skip")} skipped`,
+    version,
+    repos: [],
+    plan,
   };
 }
 
@@ -99,23 +480,110 @@ export async function getStatus(): Promise<{
     category: string;
     cloned: boolean;
     commit?: string;
+    requestedRef?: string;
+    ref?: string;
+    url?: string;
+    broken?: string;
+    sparse?: string[];
+    /** Bytes used by all clones of the repo */
+    diskUsage?: number;
+    versions?: string[];
+    defaultVersion?: string;
+    compilerVersion?: string;
+    compatible?: boolean;
   }[];
+  workspaces: Workspace[];
+  noirVersion: string;
+  /** Bytes used by the repos directory */
+  diskUsage: number;
+  /** Operation currently changing the repos directory */
+  syncLock?: SyncLockInfo;
+  lockfile?: {
+    path: string;
+    drift: LockDrift[];
+    error?: string;
+  };
+  /** Problems in the user config that were ignored on startup */
+  configErrors?: string[];
 }> {
-  const statusMap = await getReposStatus(NOIR_REPOS);
+  // Versioned repos report on their default version
+  const configs = NOIR_REPOS.map((config) =>
+    config.versioned
+      ? { ...config, tag: getDefaultVersion(config.name) || config.tag }
+      : config
+  );
+  const statusMap = await getReposStatus(configs);
+  const noirVersion = getSelectedNoirVersion();
 
-  const repos = NOIR_REPOS.map((config) => {
+  // Walk each entry once: the total is the repos plus whatever else is there
+  const diskUsage = new Map<string, number>();
+  const counted = new Set<string>();
+  let totalDiskUsage = 0;
+  for (const config of configs) {
+    let size = 0;
+    for (const entry of getRepoDirs(config.name)) {
+      size += await getDiskUsage(join(REPOS_DIR, entry));
+      counted.add(entry);
+    }
+    diskUsage.set(config.name, size);
+    totalDiskUsage += size;
+  }
+  for (const entry of listReposDir()) {
+    if (!counted.has(entry)) {
+      totalDiskUsage += await getDiskUsage(join(REPOS_DIR, entry));
+    }
+  }
+
+  const repos = configs.map((config) => {
     const status = statusMap.get(config.name);
+    const cloned = status?.cloned || false;
     return {
       name: config.name,
       description: config.description,
       category: config.category,
-      cloned: status?.cloned || false,
+      cloned,
       commit: status?.commit,
+      requestedRef: status?.requestedRef,
+      ref: status?.ref,
+      url: status?.url,
+      broken: status?.broken,
+      sparse: status?.sparse,
+      diskUsage: diskUsage.get(config.name),
+      ...(config.versioned && {
+        versions: listInstalledVersions(config.name),
+        defaultVersion: config.tag,
+      }),
+      ...(cloned &&
+        !config.versioned &&
+        checkCompat(getRepoPath(config.name), noirVersion)),
     };
   });
 
+  let lockfile;
+  try {
+    const lock = readLockfile();
+    if (lock) {
+      lockfile = {
+        path: LOCKFILE_PATH,
+        drift: await getLockDrift(lock, NOIR_REPOS),
+      };
+    }
+  } catch (error) {
+    lockfile = {
+      path: LOCKFILE_PATH,
+      drift: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
   return {
     reposDir: REPOS_DIR,
     repos,
+    workspaces: getWorkspaces(),
+    noirVersion,
+    diskUsage: totalDiskUsage,
+    syncLock: getSyncLock() ?? undefined,
+    lockfile,
+    ...(CONFIG_ERRORS.length > 0 && { configErrors: [...CONFIG_ERRORS] }),
   };
 }
@@ -0,0 +1,31 @@
+/**
+ * Workspace tool - registers local Nargo workspaces as search roots
+ */
+
+import { addWorkspace, getWorkspaces, Workspace } from "../utils/workspaces.js";
+
+/**
+ * Add a local workspace so it is searched alongside the cloned repos
+ */
+export function addNoirWorkspace(options: { path: string; name?: string }): {
+  success: boolean;
+  workspace?: Workspace;
+  workspaces: Workspace[];
+  message: string;
+} {
+  try {
+    const workspace = addWorkspace(options.path, options.name);
+    return {
+      success: true,
+      workspace,
+      workspaces: getWorkspaces(),
+      message: `Added workspace '${workspace.name}' (${workspace.path})`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      workspaces: getWorkspaces(),
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Library compatibility checks based on Nargo.toml `compiler_version`
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+
+export interface CompatInfo {
+  /** The `compiler_version` requirement from Nargo.toml, if any */
+  compilerVersion?: string;
+  /** Whether the Noir version satisfies it (undefined when unknown) */
+  compatible?: boolean;
+}
+
+interface ParsedVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+/**
+ * Extract the compiler_version and workspace members from a Nargo.toml
+ */
+export function parseNargoToml(content: string): {
+  compilerVersion?: string;
+  members: string[];
+} {
+  let section = "";
+  let compilerVersion: string | undefined;
+  let members: string[] = [];
+
+  // Join multi-line arrays so `members = [ ... ]` can be matched on one line
+  const normalized = content.replace(/\[([^\]]*)\]/g, (match, inner: string) =>
+    match.startsWith("[[") || !inner.includes("\n")
+      ? match
+      : `[${inner.replace(/\n/g, " ")}]`
+  );
+
+  for (const rawLine of normalized.split("\n")) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const header = line.match(/^\[([^\]]+)\]$/);
+    if (header) {
+      section = header[1].trim();
+      continue;
+    }
+
+    const entry = line.match(/^([\w-]+)\s*=\s*(.+)$/);
+    if (!entry) continue;
+    const [, key, value] = entry;
+
+    if (section === "package" && key === "compiler_version") {
+      compilerVersion = value.replace(/^["']|["']$/g, "").trim();
+    }
+    if (section === "workspace" && key === "members") {
+      members = [...value.matchAll(/["']([^"']+)["']/g)].map((m) => m[1]);
+    }
+  }
+
+  return { compilerVersion, members };
+}
+
+/**
+ * Path of a workspace member's Nargo.toml relative to the workspace root
+ */
+export function memberTomlPath(member: string): string {
+  return `${member.replace(/\/$/, "")}/Nargo.toml`;
+}
+
+/**
+ * Find the compiler_version of a package, looking into workspace members
+ * when the root Nargo.toml has none
+ */
+export function findCompilerVersion(
+  readToml: (relPath: string) => string | null
+): string | undefined {
+  const root = readToml("Nargo.toml");
+  if (root === null) return undefined;
+
+  const parsed = parseNargoToml(root);
+  if (parsed.compilerVersion) return parsed.compilerVersion;
+
+  for (const member of parsed.members) {
+    const content = readToml(memberTomlPath(member));
+    const memberVersion = content && parseNargoToml(content).compilerVersion;
+    if (memberVersion) return memberVersion;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a (possibly partial) version like "v1.0.0-beta.3" or "0.36"
+ */
+export function parseVersion(version: string): ParsedVersion | null {
+  const match = version
+    .trim()
+    .match(/^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+.*)?$/);
+  if (!match) return null;
+
+  return {
+    major: parseInt(match[1], 10),
+    minor: match[2] ? parseInt(match[2], 10) : 0,
+    patch: match[3] ? parseInt(match[3], 10) : 0,
+    prerelease: match[4] ? match[4].split(".") : [],
+  };
+}
+
+function comparePrerelease(a: string[], b: string[]): number {
+  // A release sorts after any of its prereleases
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1;
+    if (b[i] === undefined) return 1;
+    const aNum = /^\d+$/.test(a[i]);
+    const bNum = /^\d+$/.test(b[i]);
+    if (aNum && bNum) {
+      const diff = parseInt(a[i], 10) - parseInt(b[i], 10);
+      if (diff !== 0) return diff;
+    } else if (aNum !== bNum) {
+      return aNum ? -1 : 1;
+    } else if (a[i] !== b[i]) {
+      return a[i] < b[i] ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+function compareParsed(a: ParsedVersion, b: ParsedVersion): number {
+  return (
+    a.major - b.major ||
+    a.minor - b.minor ||
+    a.patch - b.patch ||
+    comparePrerelease(a.prerelease, b.prerelease)
+  );
+}
+
+/**
+ * Compare two versions (negative if a < b, 0 if equal, positive if a > b)
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = parseVersion(a);
+  const pb = parseVersion(b);
+  if (!pa || !pb) return a.localeCompare(b);
+  return compareParsed(pa, pb);
+}
+
+/**
+ * Check whether a version satisfies a Cargo-style requirement such as
+ * ">=0.36.0", ">=1.0.0-beta.3, <2.0.0", "^0.36" or "=1.0.0".
+ * Prerelease versions are compared by plain ordering.
+ * Returns undefined when the requirement cannot be parsed.
+ */
+export function satisfiesVersion(
+  version: string,
+  requirement: string
+): boolean | undefined {
+  const target = parseVersion(version);
+  if (!target) return undefined;
+
+  const comparators = requirement
+    .split(",")
+    .map((c) => c.trim())
+    .filter(Boolean);
+  if (comparators.length === 0) return undefined;
+
+  for (const comparator of comparators) {
+    const match = comparator.match(/^(>=|<=|>|<|=|\^|~)?\s*(.+)$/);
+    const bound = match && parseVersion(match[2]);
+    if (!match || !bound) return undefined;
+
+    const cmp = compareParsed(target, bound);
+    const op = match[1] || "^";
+    const parts = match[2].replace(/^v/, "").split("-")[0].split(".").length;
+
+    let ok: boolean;
+    switch (op) {
+      case ">=":
+        ok = cmp >= 0;
+        break;
+      case "<=":
+        ok = cmp <= 0;
+        break;
+      case ">":
+        ok = cmp > 0;
+        break;
+      case "<":
+        ok = cmp < 0;
+        break;
+      case "=":
+        ok =
+          parts === 3
+            ? cmp === 0
+            : target.major === bound.major &&
+              (parts === 1 || target.minor === bound.minor);
+        break;
+      case "~": {
+        const upper =
+          parts === 1
+            ? { major: bound.major + 1, minor: 0, patch: 0, prerelease: [] }
+            : { major: bound.major, minor: bound.minor + 1, patch: 0, prerelease: [] };
+        ok = cmp >= 0 && compareParsed(target, upper) < 0;
+        break;
+      }
+      default: {
+        // Caret: the left-most non-zero component must not change
+        const upper =
+          bound.major > 0 || parts === 1
+            ? { major: bound.major + 1, minor: 0, patch: 0, prerelease: [] }
+            : bound.minor > 0 || parts === 2
+              ? { major: 0, minor: bound.minor + 1, patch: 0, prerelease: [] }
+              : { major: 0, minor: 0, patch: bound.patch + 1, prerelease: [] };
+        ok = cmp >= 0 && compareParsed(target, upper) < 0;
+      }
+    }
+
+    if (!ok) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Check a checked-out package directory against a Noir version
+ */
+export function checkCompat(packagePath: string, noirVersion: string): CompatInfo {
+  const compilerVersion = findCompilerVersion((relPath) => {
+    const fullPath = join(packagePath, relPath);
+    if (!existsSync(fullPath)) return null;
+    try {
+      return readFileSync(fullPath, "utf-8");
+    } catch {
+      return null;
+    }
+  });
+
+  if (!compilerVersion) {
+    return {};
+  }
+
+  return {
+    compilerVersion,
+    compatible: satisfiesVersion(noirVersion, compilerVersion),
+  };
+}
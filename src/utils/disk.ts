@@ -0,0 +1,34 @@
+/**
+ * Disk usage of cloned repositories
+ */
+
+import { lstat, readdir } from "fs/promises";
+import { join } from "path";
+
+/**
+ * Total size in bytes of the files under a path (0 if it does not exist).
+ * Symlinks are counted by their own size, not followed. Entries that can't
+ * be read, or are deleted during the walk, count as 0.
+ */
+export async function getDiskUsage(path: string): Promise<number> {
+  let stats;
+  try {
+    stats = await lstat(path);
+  } catch {
+    return 0;
+  }
+  if (!stats.isDirectory()) return stats.size;
+
+  let entries: string[];
+  try {
+    entries = await readdir(path);
+  } catch {
+    return 0;
+  }
+
+  let total = 0;
+  for (const entry of entries) {
+    total += await getDiskUsage(join(path, entry));
+  }
+  return total;
+}
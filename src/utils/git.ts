@@ -2,11 +2,30 @@
  * Git utilities for cloning and updating repositories
  */
 
-import { simpleGit, SimpleGit } from "simple-git";
-import { existsSync, mkdirSync, rmSync } from "fs";
-import { join } from "path";
+import {
+  simpleGit,
+  SimpleGit,
+  SimpleGitOptions,
+  SimpleGitProgressEvent,
+} from "simple-git";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  renameSync,
+  rmSync,
+  readFileSync,
+  writeFileSync,
+  readdirSync,
+} from "fs";
+import { basename, isAbsolute, join } from "path";
 import { homedir } from "os";
-import { RepoConfig } from "../repos/config.js";
+import {
+  RepoConfig,
+  getRepoConfig,
+  isCommitRef,
+  rewriteUrl,
+} from "../repos/config.js";
 
 /** Base directory for cloned repos */
 export const REPOS_DIR = join(
@@ -21,72 +40,553 @@ export function ensureReposDir(): void {
   mkdirSync(REPOS_DIR, { recursive: true });
 }
 
+/** File in REPOS_DIR recording the default version of versioned repos */
+const DEFAULT_VERSIONS_FILE = ".default-versions.json";
+
+function isVersionedRepo(repoName: string): boolean {
+  return getRepoConfig(repoName)?.versioned === true;
+}
+
+/**
+ * Get the directory name a config is cloned into: `<name>@<tag>` for
+ * versioned repos (`<name>@<short commit>` when pinned to a commit),
+ * otherwise just the name
+ */
+export function getRepoDirName(config: RepoConfig): string {
+  if (!config.versioned) {
+    return config.name;
+  }
+  const version = config.tag ?? config.commit?.substring(0, 7).toLowerCase();
+  return version ? `${config.name}@${version}` : config.name;
+}
+
+function readDefaultVersions(): Record<string, string> {
+  try {
+    return JSON.parse(
+      readFileSync(join(REPOS_DIR, DEFAULT_VERSIONS_FILE), "utf-8")
+    );
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Get the version of a versioned repo used when no version is requested:
+ * the most recently synced one, falling back to the configured tag
+ */
+export function getDefaultVersion(repoName: string): string | undefined {
+  return readDefaultVersions()[repoName] || getRepoConfig(repoName)?.tag;
+}
+
+/**
+ * Record the default version of a versioned repo
+ */
+export function setDefaultVersion(repoName: string, version: string): void {
+  ensureReposDir();
+  writeFileSync(
+    join(REPOS_DIR, DEFAULT_VERSIONS_FILE),
+    JSON.stringify({ ...readDefaultVersions(), [repoName]: version }, null, 2)
+  );
+}
+
 /**
- * Get the local path for a repository
+ * List the installed versions of a versioned repo
  */
-export function getRepoPath(repoName: string): string {
+export function listInstalledVersions(repoName: string): string[] {
+  try {
+    return readdirSync(REPOS_DIR)
+      .filter((entry) => entry.startsWith(`${repoName}@`))
+      .filter((entry) => existsSync(join(REPOS_DIR, entry, ".git")))
+      .map((entry) => entry.substring(repoName.length + 1))
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * List everything in REPOS_DIR (empty if it does not exist)
+ */
+export function listReposDir(): string[] {
+  try {
+    return readdirSync(REPOS_DIR);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * List the directories in REPOS_DIR belonging to a repo: every version of
+ * versioned repos, including incomplete ones
+ */
+export function getRepoDirs(repoName: string): string[] {
+  return listReposDir()
+    .filter((entry) => entry === repoName || entry.startsWith(`${repoName}@`))
+    .sort();
+}
+
+/**
+ * Delete a repo's clones (only the given version of versioned repos, if
+ * set). Returns the removed directory names.
+ */
+export function removeRepo(repoName: string, version?: string): string[] {
+  const dirs = getRepoDirs(repoName).filter(
+    (entry) => !version || entry === `${repoName}@${version}`
+  );
+  for (const entry of dirs) {
+    rmSync(join(REPOS_DIR, entry), { recursive: true, force: true });
+  }
+
+  // Forget a default version that is no longer installed
+  const defaults = readDefaultVersions();
+  if (defaults[repoName] && !listInstalledVersions(repoName).includes(defaults[repoName])) {
+    delete defaults[repoName];
+    writeFileSync(
+      join(REPOS_DIR, DEFAULT_VERSIONS_FILE),
+      JSON.stringify(defaults, null, 2)
+    );
+  }
+
+  return dirs;
+}
+
+/**
+ * Get the local path for a repository. Versioned repos resolve to the
+ * requested version, or the default version if none is given.
+ */
+export function getRepoPath(repoName: string, version?: string): string {
+  if (isVersionedRepo(repoName)) {
+    const effectiveVersion = version || getDefaultVersion(repoName);
+    if (effectiveVersion) {
+      return join(REPOS_DIR, `${repoName}@${effectiveVersion}`);
+    }
+  }
   return join(REPOS_DIR, repoName);
 }
 
 /**
  * Check if a repository is already cloned
  */
-export function isRepoCloned(repoName: string): boolean {
-  const repoPath = getRepoPath(repoName);
+export function isRepoCloned(repoName: string, version?: string): boolean {
+  const repoPath = getRepoPath(repoName, version);
   return existsSync(join(repoPath, ".git"));
 }
 
+/**
+ * Get the top-level directories searched when no repo is specified.
+ * Only one version of each versioned repo is included.
+ */
+export function getSearchableRepoPaths(version?: string): string[] {
+  let entries: string[];
+  try {
+    entries = readdirSync(REPOS_DIR, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && !entry.name.startsWith("."))
+      .map((entry) => entry.name);
+  } catch {
+    return [];
+  }
+
+  return entries
+    .filter((entry) => {
+      const [name, entryVersion] = entry.split("@");
+      if (!isVersionedRepo(name)) return true;
+      return entryVersion === (version || getDefaultVersion(name));
+    })
+    .map((entry) => join(REPOS_DIR, entry));
+}
+
+/** Git config key recording the ref a clone was requested with (older clones) */
+const REQUESTED_REF_KEY = "noir-mcp.ref";
+
+/** File in a clone's .git directory recording the config it was synced with */
+const SYNC_MANIFEST_FILE = "noir-mcp.json";
+
+export interface SyncManifest {
+  /** Configured URL, before rewrite rules */
+  url: string;
+  /** Requested commit, tag or branch */
+  ref?: string;
+  /** Sparse checkout paths (absent for full checkouts) */
+  sparse?: string[];
+  /** Paths in `sparse` that were added on request rather than configured */
+  extraSparse?: string[];
+  syncedAt: string;
+}
+
+/**
+ * Get the ref a config asks for: commit > tag > branch
+ */
+export function getConfigRef(config: RepoConfig): string | undefined {
+  return config.commit || config.tag || config.branch;
+}
+
+/**
+ * Get the paths a config checks out: its sparse paths plus any extra paths
+ * requested for the clone (undefined for full checkouts)
+ */
+export function getSparseCheckout(config: RepoConfig): string[] | undefined {
+  if (!config.sparse || config.sparse.length === 0) return undefined;
+  return [...new Set([...config.sparse, ...(config.extraSparse ?? [])])];
+}
+
+/**
+ * Throw if any path could escape the repository or is not a plain relative path
+ */
+export function validateSparsePaths(paths: string[]): void {
+  if (!Array.isArray(paths)) {
+    throw new Error("Sparse paths must be a list of strings");
+  }
+  const invalid = paths.filter(
+    (p) =>
+      typeof p !== "string" ||
+      p.trim() === "" ||
+      isAbsolute(p) ||
+      p.split(/[\\/]/).includes("..")
+  );
+  if (invalid.length > 0) {
+    throw new Error(
+      `Invalid sparse paths: ${invalid.map((p) => JSON.stringify(p)).join(", ")}. Use paths relative to the repository root.`
+    );
+  }
+}
+
+/** Receives the stage of a git transfer (e.g. "receiving") and its percentage */
+export type GitProgressHandler = (stage: string, percent: number) => void;
+
+/** Options for long-running git operations */
+export interface GitTaskOptions {
+  onProgress?: GitProgressHandler;
+  /** Kills the running git process when aborted */
+  signal?: AbortSignal;
+}
+
+function gitOptions(options: GitTaskOptions): Partial<SimpleGitOptions> {
+  const { onProgress, signal } = options;
+  return {
+    ...(onProgress && {
+      progress: ({ stage, progress }: SimpleGitProgressEvent) => onProgress(stage, progress),
+    }),
+    ...(signal && { abort: signal }),
+  };
+}
+
 /**
  * Clone a repository with optional sparse checkout and tag support
  */
 export async function cloneRepo(
   config: RepoConfig,
-  force: boolean = false
+  force: boolean = false,
+  options: GitTaskOptions = {}
 ): Promise<string> {
   ensureReposDir();
-  const repoPath = getRepoPath(config.name);
+  const dirName = getRepoDirName(config);
+  const repoPath = getRepoPath(dirName);
+  config = withRecordedExtraSparse(config);
 
-  // Check if we need to re-clone due to version mismatch
-  const versionMismatch = await needsReclone(config);
+  // Versioned repos used to be cloned without a version suffix; the old
+  // checkout stays in use until its replacement is ready
+  const legacyPath = join(REPOS_DIR, config.name);
+  const removeLegacyClone = () => {
+    if (dirName !== config.name && existsSync(legacyPath)) {
+      rmSync(legacyPath, { recursive: true, force: true });
+    }
+  };
 
-  // Remove existing if force is set or version changed
-  if ((force || versionMismatch) && existsSync(repoPath)) {
-    rmSync(repoPath, { recursive: true, force: true });
+  // Clones at the requested ref are just updated
+  if (!force && !(await needsReclone(config))) {
+    const sparseChanged = await reconcileSparsePaths(config);
+    const status = await updateRepo(config, options);
+    writeSyncManifest(repoPath, config);
+    removeLegacyClone();
+    return sparseChanged ? `${status} (${describeSparseChange(config)})` : status;
   }
 
-  // If already cloned and version matches, just update
-  if (isRepoCloned(config.name)) {
-    return await updateRepo(config.name);
+  // Clone next to the target and swap it in only once it is complete, so a
+  // failure leaves the previous checkout (if any) untouched
+  const tempPath = mkdtempSync(join(REPOS_DIR, `.${dirName}${TEMP_CLONE_MARKER}`));
+  try {
+    const status = await cloneFresh(config, tempPath, options);
+    replaceDir(tempPath, repoPath);
+    removeLegacyClone();
+    return status;
+  } finally {
+    rmSync(tempPath, { recursive: true, force: true });
   }
+}
+
+function sameSparsePaths(a: string[], b: string[]): boolean {
+  return a.length === b.length && [...a].sort().join("\n") === [...b].sort().join("\n");
+}
+
+/**
+ * Check whether a clone's sparse paths differ from the config's
+ */
+async function sparsePathsChanged(config: RepoConfig): Promise<boolean> {
+  const dirName = getRepoDirName(config);
+  const manifest = readSyncManifest(dirName);
+  const current = manifest
+    ? manifest.sparse ?? []
+    : (await getSparsePaths(dirName)) ?? [];
+  return !sameSparsePaths(current, getSparseCheckout(config) ?? []);
+}
+
+function describeSparseChange(config: RepoConfig): string {
+  const sparse = getSparseCheckout(config);
+  return sparse
+    ? `sparse paths changed to ${sparse.join(", ")}`
+    : "sparse checkout disabled";
+}
+
+/**
+ * Apply the configured sparse paths to an existing clone in place.
+ * Returns true if they differed from what the clone was synced with.
+ */
+async function reconcileSparsePaths(config: RepoConfig): Promise<boolean> {
+  if (!(await sparsePathsChanged(config))) return false;
+
+  const wanted = getSparseCheckout(config) ?? [];
+  const git = simpleGit(getRepoPath(getRepoDirName(config)));
+  if (wanted.length > 0) {
+    await git.raw(["sparse-checkout", "set", ...wanted]);
+  } else {
+    await git.raw(["sparse-checkout", "disable"]);
+  }
+  return true;
+}
+
+/**
+ * Check out more paths in an existing sparse clone without re-cloning.
+ * The paths are kept by later syncs. Returns all paths now checked out.
+ */
+export async function addSparsePaths(
+  repoName: string,
+  paths: string[],
+  version?: string
+): Promise<{ sparse: string[]; added: string[] }> {
+  validateSparsePaths(paths);
+  const config = getRepoConfig(repoName);
+  if (!config) {
+    throw new Error(`Unknown repository: ${repoName}`);
+  }
+
+  const repoPath = getRepoPath(repoName, version);
+  const dirName = basename(repoPath);
+  if (!isRepoCloned(dirName)) {
+    throw new Error(`${dirName} is not cloned. Run noir_sync_repos first.`);
+  }
+
+  const current = await getSparsePaths(dirName);
+  if (!current) {
+    throw new Error(`${dirName} is a full checkout; all paths are already present`);
+  }
+
+  const added = [...new Set(paths)].filter((p) => !current.includes(p));
+  if (added.length > 0) {
+    await simpleGit(repoPath).raw(["sparse-checkout", "add", ...added]);
+  }
+
+  const manifest: SyncManifest = readSyncManifest(dirName) ?? {
+    url: config.url,
+    ref: (await getRecordedRef(dirName)) ?? undefined,
+    syncedAt: new Date().toISOString(),
+  };
+  const sparse = [...current, ...added];
+  const extraSparse = [...new Set([...(manifest.extraSparse ?? []), ...added])];
+  writeManifestFile(repoPath, {
+    ...manifest,
+    sparse,
+    ...(extraSparse.length > 0 && { extraSparse }),
+  });
+
+  return { sparse, added };
+}
+
+/**
+ * Paths added to a clone earlier stay checked out, even across re-clones
+ */
+function withRecordedExtraSparse(config: RepoConfig): RepoConfig {
+  const recorded = readSyncManifest(getRepoDirName(config))?.extraSparse ?? [];
+  if (recorded.length === 0) return config;
+  return {
+    ...config,
+    extraSparse: [...new Set([...recorded, ...(config.extraSparse ?? [])])],
+  };
+}
+
+/** What syncing a repo will do */
+export interface SyncPlanStep {
+  action: "clone" | "reclone" | "update" | "keep";
+  reason: string;
+}
+
+/**
+ * Work out what cloneRepo would do for a config, without changing anything
+ */
+export async function planRepoSync(
+  config: RepoConfig,
+  force: boolean = false
+): Promise<SyncPlanStep> {
+  config = withRecordedExtraSparse(config);
+  const dirName = getRepoDirName(config);
+  const ref = getConfigRef(config) ?? "default branch";
+
+  if (!existsSync(getRepoPath(dirName))) {
+    return { action: "clone", reason: `not cloned, will check out ${ref}` };
+  }
+  if (force) {
+    return { action: "reclone", reason: "force requested" };
+  }
+
+  const recloneReason = await getRecloneReason(config);
+  if (recloneReason) {
+    return { action: "reclone", reason: recloneReason };
+  }
+
+  const sparseChange = (await sparsePathsChanged(config))
+    ? `; ${describeSparseChange(config)}`
+    : "";
+  if (config.commit || config.tag) {
+    return {
+      action: sparseChange ? "update" : "keep",
+      reason: `already at ${ref}${sparseChange}`,
+    };
+  }
+  return { action: "update", reason: `fetch latest ${ref}${sparseChange}` };
+}
+
+/** Infix of the temporary directories clones are made in */
+const TEMP_CLONE_MARKER = ".tmp-";
+
+/**
+ * Whether an entry of REPOS_DIR is a temporary clone (or the backup of a
+ * replaced checkout) rather than a finished clone
+ */
+export function isTempClone(entry: string): boolean {
+  return entry.startsWith(".") && entry.includes(TEMP_CLONE_MARKER);
+}
+
+/**
+ * Move source to target, replacing whatever is at target. The old target is
+ * moved aside first and restored if the move fails.
+ */
+function replaceDir(source: string, target: string): void {
+  if (!existsSync(target)) {
+    renameSync(source, target);
+    return;
+  }
+
+  const backup = `${source}.old`;
+  renameSync(target, backup);
+  try {
+    renameSync(source, target);
+  } catch (error) {
+    renameSync(backup, target);
+    throw error;
+  }
+  rmSync(backup, { recursive: true, force: true });
+}
 
-  const git: SimpleGit = simpleGit();
+/**
+ * Remove temporary clone directories left behind by interrupted syncs
+ */
+export function removeStaleClones(): string[] {
+  let entries: string[];
+  try {
+    entries = readdirSync(REPOS_DIR);
+  } catch {
+    return [];
+  }
+
+  const stale = entries.filter(isTempClone);
+  for (const entry of stale) {
+    rmSync(join(REPOS_DIR, entry), { recursive: true, force: true });
+  }
+  return stale;
+}
+
+/**
+ * Describe what is wrong with a checkout that exists but cannot be used,
+ * e.g. after a clone was interrupted. Returns null for healthy or missing
+ * checkouts.
+ */
+export async function getCheckoutProblem(repoName: string): Promise<string | null> {
+  const repoPath = getRepoPath(repoName);
+  if (!existsSync(repoPath)) return null;
+
+  const gitDir = join(repoPath, ".git");
+  if (!existsSync(gitDir)) {
+    return "directory is not a git checkout";
+  }
+
+  try {
+    await simpleGit(repoPath).revparse(["--verify", "HEAD"]);
+  } catch {
+    return "no commit is checked out";
+  }
+
+  if (!existsSync(join(gitDir, "index"))) {
+    return "files were never checked out";
+  }
+  return null;
+}
+
+/**
+ * Check out a commit in a fresh clone. A full hash is fetched by name, as it
+ * may not be on any branch; servers don't resolve abbreviated hashes, so a
+ * short one is looked up in the history the clone already has.
+ */
+async function checkoutCommit(git: SimpleGit, name: string, commit: string): Promise<void> {
+  if (commit.length === 40) {
+    await git.fetch(["origin", commit]);
+    await git.checkout(commit);
+    return;
+  }
+
+  let full: string;
+  try {
+    full = (await git.raw(["rev-parse", "--verify", `${commit}^{commit}`])).trim();
+  } catch (error) {
+    throw new Error(
+      `No commit starting with ${commit} in ${name}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  await git.checkout(full);
+}
+
+async function cloneFresh(
+  config: RepoConfig,
+  repoPath: string,
+  options: GitTaskOptions
+): Promise<string> {
+  const git: SimpleGit = simpleGit(gitOptions(options));
+  const url = rewriteUrl(config.url);
 
   // Determine ref to checkout: commit > tag > branch
   const ref = config.commit || config.tag || config.branch;
   const refType = config.commit ? "commit" : config.tag ? "tag" : "branch";
 
-  if (config.sparse && config.sparse.length > 0) {
+  const sparse = getSparseCheckout(config);
+  if (sparse) {
     // Clone with sparse checkout for large repos
     if (config.commit) {
-      await git.clone(config.url, repoPath, [
+      await git.clone(url, repoPath, [
         "--filter=blob:none",
         "--sparse",
         "--no-checkout",
       ]);
 
-      const repoGit = simpleGit(repoPath);
-      await repoGit.raw(["sparse-checkout", "set", ...config.sparse]);
-      await repoGit.fetch(["origin", config.commit]);
-      await repoGit.checkout(config.commit);
+      const repoGit = simpleGit(repoPath, gitOptions(options));
+      await repoGit.raw(["sparse-checkout", "set", ...sparse]);
+      await checkoutCommit(repoGit, config.name, config.commit);
     } else if (config.tag) {
-      await git.clone(config.url, repoPath, [
+      await git.clone(url, repoPath, [
         "--filter=blob:none",
         "--sparse",
         "--no-checkout",
       ]);
 
-      const repoGit = simpleGit(repoPath);
-      await repoGit.raw(["sparse-checkout", "set", ...config.sparse]);
+      const repoGit = simpleGit(repoPath, gitOptions(options));
+      await repoGit.raw(["sparse-checkout", "set", ...sparse]);
       await repoGit.fetch([
         "--depth=1",
         "origin",
@@ -94,28 +594,28 @@ export async function cloneRepo(
       ]);
       await repoGit.checkout(config.tag);
     } else {
-      await git.clone(config.url, repoPath, [
+      await git.clone(url, repoPath, [
         "--filter=blob:none",
         "--sparse",
         "--depth=1",
         ...(config.branch ? ["-b", config.branch] : []),
       ]);
 
-      const repoGit = simpleGit(repoPath);
-      await repoGit.raw(["sparse-checkout", "set", ...config.sparse]);
+      const repoGit = simpleGit(repoPath, gitOptions(options));
+      await repoGit.raw(["sparse-checkout", "set", ...sparse]);
     }
 
-    return `Cloned ${config.name} @ ${ref} (${refType}, sparse: ${config.sparse.join(", ")})`;
+    writeSyncManifest(repoPath, config);
+    return `Cloned ${config.name} @ ${ref} (${refType}, sparse: ${sparse.join(", ")})`;
   } else {
     // Clone for smaller repos
     if (config.commit) {
-      await git.clone(config.url, repoPath, ["--no-checkout"]);
-      const repoGit = simpleGit(repoPath);
-      await repoGit.fetch(["origin", config.commit]);
-      await repoGit.checkout(config.commit);
+      await git.clone(url, repoPath, ["--no-checkout"]);
+      const repoGit = simpleGit(repoPath, gitOptions(options));
+      await checkoutCommit(repoGit, config.name, config.commit);
     } else if (config.tag) {
-      await git.clone(config.url, repoPath, ["--no-checkout"]);
-      const repoGit = simpleGit(repoPath);
+      await git.clone(url, repoPath, ["--no-checkout"]);
+      const repoGit = simpleGit(repoPath, gitOptions(options));
       await repoGit.fetch([
         "--depth=1",
         "origin",
@@ -123,41 +623,88 @@ export async function cloneRepo(
       ]);
       await repoGit.checkout(config.tag);
     } else {
-      await git.clone(config.url, repoPath, [
+      await git.clone(url, repoPath, [
         "--depth=1",
         ...(config.branch ? ["-b", config.branch] : []),
       ]);
     }
 
+    writeSyncManifest(repoPath, config);
     return `Cloned ${config.name} @ ${ref} (${refType})`;
   }
 }
 
 /**
- * Update an existing repository
+ * Point a clone's origin at the given URL, e.g. after rewrite rules changed
  */
-export async function updateRepo(repoName: string): Promise<string> {
-  const repoPath = getRepoPath(repoName);
+async function ensureRemoteUrl(repoName: string, url: string): Promise<void> {
+  if ((await getRemoteUrl(repoName)) === url) return;
+  await simpleGit(getRepoPath(repoName)).raw(["remote", "set-url", "origin", url]);
+}
 
-  if (!isRepoCloned(repoName)) {
-    throw new Error(`Repository ${repoName} is not cloned`);
+/**
+ * Update an existing clone to its configured ref. Branches are fetched and
+ * moved to the remote tip; tag and commit pins are left as they are.
+ */
+export async function updateRepo(
+  config: RepoConfig,
+  options: GitTaskOptions = {}
+): Promise<string> {
+  const dirName = getRepoDirName(config);
+
+  if (!isRepoCloned(dirName)) {
+    throw new Error(`Repository ${dirName} is not cloned`);
   }
 
-  const git = simpleGit(repoPath);
+  // Fetch through the current rewrite rules
+  await ensureRemoteUrl(dirName, rewriteUrl(config.url));
+
+  // Pinned checkouts have nothing to update
+  if (config.commit || config.tag) {
+    return `${config.name} already at ${getConfigRef(config)}`;
+  }
 
+  const git = simpleGit(getRepoPath(dirName), gitOptions(options));
+  const branch =
+    config.branch ||
+    (await git.raw(["rev-parse", "--abbrev-ref", "HEAD"])).trim();
+  if (!branch || branch === "HEAD") {
+    throw new Error(`Cannot update ${config.name}: no branch is configured or checked out`);
+  }
+
+  const before = await getRepoCommit(dirName, true);
   try {
-    await git.fetch(["--depth=1"]);
-    await git.reset(["--hard", "origin/HEAD"]);
-    return `Updated ${repoName}`;
+    await git.fetch([
+      "--depth=1",
+      "origin",
+      `+refs/heads/${branch}:refs/remotes/origin/${branch}`,
+    ]);
+    // Shallow histories can't be merged, so move the branch to the fetched tip
+    await git.raw(["checkout", "--force", "-B", branch, `origin/${branch}`]);
   } catch (error) {
-    // If fetch fails, try a simple pull
-    try {
-      await git.pull();
-      return `Updated ${repoName}`;
-    } catch (pullError) {
-      return `Failed to update ${repoName}: ${pullError}`;
-    }
+    throw new Error(
+      `Failed to update ${config.name} on ${branch}: ${error instanceof Error ? error.message : String(error)}`
+    );
   }
+  const after = await getRepoCommit(dirName, true);
+
+  return before === after
+    ? `${config.name} is up to date on ${branch}`
+    : `Updated ${config.name} on ${branch}`;
+}
+
+/**
+ * Drop history left behind by repeated shallow fetches: expire the reflog
+ * and prune unreachable objects
+ */
+export async function compactRepo(repoName: string): Promise<void> {
+  if (!isRepoCloned(repoName)) {
+    throw new Error(`Repository ${repoName} is not cloned`);
+  }
+
+  const git = simpleGit(getRepoPath(repoName));
+  await git.raw(["reflog", "expire", "--expire=now", "--all"]);
+  await git.raw(["gc", "--prune=now", "--quiet"]);
 }
 
 /**
@@ -171,11 +718,15 @@ export async function getRepoCommit(
     return null;
   }
 
-  const git = simpleGit(getRepoPath(repoName));
-  const log = await git.log(["-1"]);
-  const hash = log.latest?.hash;
-  if (!hash) return null;
-  return full ? hash : hash.substring(0, 7);
+  try {
+    const log = await simpleGit(getRepoPath(repoName)).log(["-1"]);
+    const hash = log.latest?.hash;
+    if (!hash) return null;
+    return full ? hash : hash.substring(0, 7);
+  } catch {
+    // Broken checkouts have no readable HEAD
+    return null;
+  }
 }
 
 /**
@@ -203,26 +754,277 @@ export async function getRepoTag(repoName: string): Promise<string | null> {
   }
 }
 
+/**
+ * Get every tag pointing at HEAD (a release commit may carry several)
+ */
+export async function getRepoTags(repoName: string): Promise<string[]> {
+  if (!isRepoCloned(repoName)) {
+    return [];
+  }
+
+  try {
+    const result = await simpleGit(getRepoPath(repoName)).raw([
+      "tag",
+      "--points-at",
+      "HEAD",
+    ]);
+    return result.split("\n").map((tag) => tag.trim()).filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * List the tags fetched locally for a repo
+ */
+export async function listRepoTags(repoName: string): Promise<string[]> {
+  if (!isRepoCloned(repoName)) {
+    return [];
+  }
+
+  try {
+    const result = await simpleGit(getRepoPath(repoName)).raw(["tag", "--list"]);
+    return result.split("\n").map((t) => t.trim()).filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Get the URL of a clone's origin remote
+ */
+export async function getRemoteUrl(repoName: string): Promise<string | null> {
+  if (!isRepoCloned(repoName)) {
+    return null;
+  }
+
+  try {
+    const result = await simpleGit(getRepoPath(repoName)).raw([
+      "remote",
+      "get-url",
+      "origin",
+    ]);
+    return result.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the sparse checkout paths of a clone (null if it is not sparse)
+ */
+export async function getSparsePaths(repoName: string): Promise<string[] | null> {
+  if (!isRepoCloned(repoName)) {
+    return null;
+  }
+
+  try {
+    const result = await simpleGit(getRepoPath(repoName)).raw([
+      "sparse-checkout",
+      "list",
+    ]);
+    const paths = result.split("\n").map((p) => p.trim()).filter(Boolean);
+    return paths.length > 0 ? paths : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a file as it is at a given ref (null if it does not exist there)
+ */
+export async function readFileAtRef(
+  repoName: string,
+  ref: string,
+  filePath: string
+): Promise<string | null> {
+  try {
+    return await simpleGit(getRepoPath(repoName)).show([`${ref}:${filePath}`]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record the config a clone was synced with, so later syncs can tell what
+ * changed and status can compare the requested ref with what is checked out
+ */
+function writeSyncManifest(repoPath: string, config: RepoConfig): void {
+  const sparse = getSparseCheckout(config);
+  const manifest: SyncManifest = {
+    url: config.url,
+    ref: getConfigRef(config),
+    ...(sparse && { sparse }),
+    ...(sparse && config.extraSparse?.length && { extraSparse: config.extraSparse }),
+    syncedAt: new Date().toISOString(),
+  };
+  writeManifestFile(repoPath, manifest);
+}
+
+function writeManifestFile(repoPath: string, manifest: SyncManifest): void {
+  writeFileSync(
+    join(repoPath, ".git", SYNC_MANIFEST_FILE),
+    JSON.stringify(manifest, null, 2)
+  );
+}
+
+/**
+ * Read the sync manifest of a clone (null for clones made before manifests)
+ */
+export function readSyncManifest(repoName: string): SyncManifest | null {
+  try {
+    return JSON.parse(
+      readFileSync(join(getRepoPath(repoName), ".git", SYNC_MANIFEST_FILE), "utf-8")
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the ref a clone was requested with (null if unknown)
+ */
+export async function getRecordedRef(repoName: string): Promise<string | null> {
+  if (!isRepoCloned(repoName)) {
+    return null;
+  }
+
+  const manifest = readSyncManifest(repoName);
+  if (manifest) {
+    return manifest.ref || null;
+  }
+
+  try {
+    const result = await simpleGit(getRepoPath(repoName)).raw([
+      "config",
+      "--get",
+      REQUESTED_REF_KEY,
+    ]);
+    return result.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+async function getRepoBranch(repoName: string): Promise<string | null> {
+  try {
+    const branch = (
+      await simpleGit(getRepoPath(repoName)).raw([
+        "rev-parse",
+        "--abbrev-ref",
+        "HEAD",
+      ])
+    ).trim();
+    return branch && branch !== "HEAD" ? branch : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the ref actually checked out. The requested ref is reported if HEAD
+ * matches it (its branch, one of its tags or its commit), so a branch whose
+ * tip was just tagged still shows as the branch. Otherwise: the tag if HEAD
+ * is tagged, the branch name, or the short commit hash.
+ */
+export async function getRepoRef(
+  repoName: string,
+  requestedRef?: string
+): Promise<string | null> {
+  if (!isRepoCloned(repoName)) {
+    return null;
+  }
+
+  if (requestedRef) {
+    if (isCommitRef(requestedRef)) {
+      const head = await getRepoCommit(repoName, true);
+      if (head?.startsWith(requestedRef.toLowerCase())) return requestedRef;
+    }
+    if (
+      (await getRepoBranch(repoName)) === requestedRef ||
+      (await getRepoTags(repoName)).includes(requestedRef)
+    ) {
+      return requestedRef;
+    }
+  }
+
+  return (
+    (await getRepoTag(repoName)) ||
+    (await getRepoBranch(repoName)) ||
+    getRepoCommit(repoName)
+  );
+}
+
 /**
  * Check if the cloned repo matches the requested config.
  * Returns true if re-clone is needed.
  */
 export async function needsReclone(config: RepoConfig): Promise<boolean> {
-  if (!isRepoCloned(config.name)) {
-    return true;
+  return (await getRecloneReason(config)) !== null;
+}
+
+/**
+ * Explain why a clone has to be replaced to match the config
+ * (null if it can be kept and updated in place)
+ */
+export async function getRecloneReason(config: RepoConfig): Promise<string | null> {
+  const dirName = getRepoDirName(config);
+
+  if (!isRepoCloned(dirName)) {
+    return existsSync(getRepoPath(dirName))
+      ? "checkout is broken: directory is not a git checkout"
+      : "not cloned";
+  }
+
+  const problem = await getCheckoutProblem(dirName);
+  if (problem) {
+    return `checkout is broken: ${problem}`;
+  }
+
+  // A different URL is a different repository
+  const manifest = readSyncManifest(dirName);
+  if (manifest && rewriteUrl(manifest.url) !== rewriteUrl(config.url)) {
+    return `URL changed from ${manifest.url} to ${config.url}`;
   }
 
   if (config.commit) {
-    const currentCommit = await getRepoCommit(config.name, true);
-    return !currentCommit?.startsWith(config.commit.substring(0, 7));
+    const currentCommit = await getRepoCommit(dirName, true);
+    return currentCommit?.startsWith(config.commit.substring(0, 7))
+      ? null
+      : `at ${currentCommit?.substring(0, 7) ?? "no commit"}, commit ${config.commit} requested`;
   }
 
   if (config.tag) {
-    const currentTag = await getRepoTag(config.name);
-    return currentTag !== config.tag;
+    const tags = await getRepoTags(dirName);
+    return tags.includes(config.tag)
+      ? null
+      : `at ${tags.join(", ") || "an untagged commit"}, tag ${config.tag} requested`;
+  }
+
+  // A branch config replaces a clone that was previously pinned elsewhere
+  if (config.branch) {
+    const recordedRef = await getRecordedRef(dirName);
+    return recordedRef !== null && recordedRef !== config.branch
+      ? `pinned to ${recordedRef}, branch ${config.branch} requested`
+      : null;
   }
 
-  return false;
+  return null;
+}
+
+export interface RepoStatus {
+  cloned: boolean;
+  commit?: string;
+  /** Ref the clone was requested with (falls back to the configured ref) */
+  requestedRef?: string;
+  /** Ref actually checked out */
+  ref?: string;
+  /** URL the clone fetches from (after rewrite rules) */
+  url?: string;
+  /** Why an existing checkout is unusable (see getCheckoutProblem) */
+  broken?: string;
+  /** Paths checked out in a sparse clone */
+  sparse?: string[];
 }
 
 /**
@@ -230,15 +1032,36 @@ export async function needsReclone(config: RepoConfig): Promise<boolean> {
  */
 export async function getReposStatus(
   configs: RepoConfig[]
-): Promise<Map<string, { cloned: boolean; commit?: string }>> {
-  const status = new Map<string, { cloned: boolean; commit?: string }>();
+): Promise<Map<string, RepoStatus>> {
+  const status = new Map<string, RepoStatus>();
 
   for (const config of configs) {
-    const cloned = isRepoCloned(config.name);
-    const commit = cloned
-      ? (await getRepoCommit(config.name)) || undefined
-      : undefined;
-    status.set(config.name, { cloned, commit });
+    const dirName = getRepoDirName(config);
+    const broken = (await getCheckoutProblem(dirName)) || undefined;
+    if (broken || !isRepoCloned(dirName)) {
+      status.set(config.name, {
+        cloned: false,
+        requestedRef: getConfigRef(config),
+        ...(broken && { broken }),
+      });
+      continue;
+    }
+
+    const commit = (await getRepoCommit(dirName)) || undefined;
+    const requestedRef =
+      (await getRecordedRef(dirName)) || getConfigRef(config);
+    const ref = (await getRepoRef(dirName, requestedRef)) || undefined;
+
+    const url = (await getRemoteUrl(dirName)) || undefined;
+    const sparse = await getSparsePaths(dirName);
+    status.set(config.name, {
+      cloned: true,
+      commit,
+      requestedRef,
+      ref,
+      url,
+      ...(sparse && { sparse }),
+    });
   }
 
   return status;
@@ -0,0 +1,245 @@
+/**
+ * Sync lockfile - records the exact commit of every clone so an environment
+ * can be reproduced elsewhere
+ */
+
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
+import { dirname, join } from "path";
+import { homedir } from "os";
+import { RepoConfig, getRepoConfig, rewriteUrl } from "../repos/config.js";
+import {
+  getRepoDirName,
+  getRepoCommit,
+  getRecordedRef,
+  getConfigRef,
+  getSparsePaths,
+  getDefaultVersion,
+  isRepoCloned,
+  listInstalledVersions,
+  readSyncManifest,
+} from "./git.js";
+
+/** Path of the lockfile written after every sync */
+export const LOCKFILE_PATH =
+  process.env.NOIR_MCP_LOCKFILE ||
+  join(process.env.NOIR_MCP_REPOS_DIR || join(homedir(), ".noir-mcp"), "repos.lock.json");
+
+const LOCKFILE_VERSION = 1;
+
+export interface LockedRepo {
+  name: string;
+  /** Tag of a versioned repo (e.g. noir), which may be installed several times */
+  version?: string;
+  /** Configured URL, before rewrite rules (those apply when cloning) */
+  url: string;
+  /** Ref the clone was requested with (branch, tag or commit) */
+  ref: string;
+  /** Full commit hash checked out */
+  commit: string;
+  sparse?: string[];
+}
+
+export interface Lockfile {
+  lockfileVersion: number;
+  /** Default version of each versioned repo */
+  defaultVersions: Record<string, string>;
+  repos: LockedRepo[];
+}
+
+export interface LockDrift {
+  name: string;
+  version?: string;
+  issue: "missing" | "commit" | "url" | "sparse" | "unlocked";
+  expected?: string;
+  actual?: string;
+}
+
+function invalid(path: string, reason: string): Error {
+  return new Error(`Invalid lockfile ${path}: ${reason}`);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+/**
+ * Read a lockfile. Returns null when it does not exist; throws when it is invalid.
+ */
+export function readLockfile(path: string = LOCKFILE_PATH): Lockfile | null {
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  let data: Partial<Lockfile>;
+  try {
+    data = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw invalid(path, error instanceof Error ? error.message : String(error));
+  }
+
+  if (data?.lockfileVersion !== LOCKFILE_VERSION) {
+    throw invalid(path, `unsupported lockfileVersion ${data?.lockfileVersion}`);
+  }
+  if (!Array.isArray(data.repos)) {
+    throw invalid(path, "expected a 'repos' array");
+  }
+
+  for (const repo of data.repos as Partial<LockedRepo>[]) {
+    for (const field of ["name", "url", "ref", "commit"] as const) {
+      if (typeof repo?.[field] !== "string" || !repo[field]) {
+        throw invalid(path, `repo entry is missing '${field}'`);
+      }
+    }
+    if (repo.version !== undefined && typeof repo.version !== "string") {
+      throw invalid(path, `'version' of ${repo.name} must be a string`);
+    }
+    if (repo.sparse !== undefined && !isStringArray(repo.sparse)) {
+      throw invalid(path, `'sparse' of ${repo.name} must be an array of strings`);
+    }
+  }
+
+  return {
+    lockfileVersion: LOCKFILE_VERSION,
+    defaultVersions: data.defaultVersions ?? {},
+    repos: data.repos,
+  };
+}
+
+/**
+ * Write a lockfile
+ */
+export function writeLockfile(lock: Lockfile, path: string = LOCKFILE_PATH): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(lock, null, 2) + "\n");
+}
+
+/**
+ * Expand configs to one entry per clone directory: every installed version
+ * of versioned repos, the configured checkout otherwise
+ */
+function expandInstalled(configs: RepoConfig[]): RepoConfig[] {
+  return configs.flatMap((config) =>
+    config.versioned
+      ? listInstalledVersions(config.name).map((tag) => ({ ...config, tag }))
+      : [config]
+  );
+}
+
+/**
+ * Record the state of every cloned repo
+ */
+export async function buildLockfile(configs: RepoConfig[]): Promise<Lockfile> {
+  const repos: LockedRepo[] = [];
+  const defaultVersions: Record<string, string> = {};
+
+  for (const config of expandInstalled(configs)) {
+    const dirName = getRepoDirName(config);
+    if (!isRepoCloned(dirName)) continue;
+
+    const commit = await getRepoCommit(dirName, true);
+    if (!commit) continue;
+
+    const sparse = await getSparsePaths(dirName);
+    repos.push({
+      name: config.name,
+      ...(config.versioned && { version: config.tag }),
+      url: readSyncManifest(dirName)?.url || config.url,
+      ref: (await getRecordedRef(dirName)) || getConfigRef(config) || commit,
+      commit,
+      ...(sparse && { sparse }),
+    });
+  }
+
+  for (const config of configs) {
+    const version = config.versioned && getDefaultVersion(config.name);
+    if (version && repos.some((r) => r.name === config.name && r.version === version)) {
+      defaultVersions[config.name] = version;
+    }
+  }
+
+  return { lockfileVersion: LOCKFILE_VERSION, defaultVersions, repos };
+}
+
+/**
+ * Turn lockfile entries into configs that check out exactly the locked commits.
+ * Throws when an entry names a repo that is not configured.
+ */
+export function getLockedConfigs(lock: Lockfile): RepoConfig[] {
+  const unknown = lock.repos
+    .map((r) => r.name)
+    .filter((name) => !getRepoConfig(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown repositories in lockfile: ${[...new Set(unknown)].join(", ")}`);
+  }
+
+  return lock.repos.map((entry) => {
+    const base = getRepoConfig(entry.name)!;
+    return {
+      ...base,
+      // Cloning applies this machine's rewrite rules to the locked URL
+      url: entry.url,
+      sparse: entry.sparse,
+      commit: entry.commit,
+      tag: base.versioned ? entry.version : undefined,
+    };
+  });
+}
+
+/**
+ * Compare a lockfile with the clones on disk
+ */
+export async function getLockDrift(
+  lock: Lockfile,
+  configs: RepoConfig[]
+): Promise<LockDrift[]> {
+  const drift: LockDrift[] = [];
+  const actual = await buildLockfile(configs);
+  const key = (r: { name: string; version?: string }) => `${r.name}@${r.version ?? ""}`;
+  const onDisk = new Map(actual.repos.map((r) => [key(r), r]));
+
+  for (const locked of lock.repos) {
+    const { name, version } = locked;
+    const current = onDisk.get(key(locked));
+    onDisk.delete(key(locked));
+
+    if (!current) {
+      drift.push({ name, version, issue: "missing", expected: locked.commit });
+      continue;
+    }
+    if (current.commit !== locked.commit) {
+      drift.push({
+        name,
+        version,
+        issue: "commit",
+        expected: locked.commit,
+        actual: current.commit,
+      });
+    }
+    // URLs that the local rewrite rules send to the same place are the same repo
+    if (rewriteUrl(current.url) !== rewriteUrl(locked.url)) {
+      drift.push({ name, version, issue: "url", expected: locked.url, actual: current.url });
+    }
+    const lockedSparse = (locked.sparse ?? []).join(", ");
+    const currentSparse = (current.sparse ?? []).join(", ");
+    if (lockedSparse !== currentSparse) {
+      drift.push({
+        name,
+        version,
+        issue: "sparse",
+        expected: lockedSparse || "(full checkout)",
+        actual: currentSparse || "(full checkout)",
+      });
+    }
+  }
+
+  for (const current of onDisk.values()) {
+    drift.push({
+      name: current.name,
+      version: current.version,
+      issue: "unlocked",
+      actual: current.commit,
+    });
+  }
+
+  return drift;
+}
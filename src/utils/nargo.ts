@@ -0,0 +1,81 @@
+/**
+ * Discovery of nargo's git dependency cache.
+ *
+ * nargo downloads git dependencies into ~/nargo/<host>/<org>/<repo>/<tag>,
+ * which is exactly the library version a project compiles against.
+ */
+
+import { existsSync, readdirSync } from "fs";
+import { join } from "path";
+import { homedir } from "os";
+
+/** Root of nargo's git dependency cache */
+export const NARGO_DIR =
+  process.env.NOIR_MCP_NARGO_DIR || join(homedir(), "nargo");
+
+export interface NargoDependency {
+  /**
+   * Source name used in search results and file paths, e.g.
+   * "nargo:noir-bignum@v0.7.0" (prefixed to stay apart from versioned clones)
+   */
+  name: string;
+  host: string;
+  org: string;
+  repo: string;
+  tag: string;
+  /** Absolute path to the cached checkout */
+  path: string;
+  url: string;
+}
+
+function listDirs(path: string): string[] {
+  try {
+    return readdirSync(path, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && !entry.name.startsWith("."))
+      .map((entry) => entry.name)
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * List all dependencies in the nargo git cache
+ */
+export function listNargoDependencies(
+  nargoDir: string = NARGO_DIR
+): NargoDependency[] {
+  if (!existsSync(nargoDir)) {
+    return [];
+  }
+
+  const deps: NargoDependency[] = [];
+  const names = new Set<string>();
+
+  for (const host of listDirs(nargoDir)) {
+    for (const org of listDirs(join(nargoDir, host))) {
+      for (const repo of listDirs(join(nargoDir, host, org))) {
+        for (const tag of listDirs(join(nargoDir, host, org, repo))) {
+          // Same repo name from different orgs gets the org as prefix
+          let name = `nargo:${repo}@${tag}`;
+          if (names.has(name)) {
+            name = `nargo:${org}.${repo}@${tag}`;
+          }
+          names.add(name);
+
+          deps.push({
+            name,
+            host,
+            org,
+            repo,
+            tag,
+            path: join(nargoDir, host, org, repo, tag),
+            url: `https://${host}/${org}/${repo}`,
+          });
+        }
+      }
+    }
+  }
+
+  return deps;
+}
@@ -0,0 +1,317 @@
+/**
+ * Lightweight Noir source parser - finds item declarations without
+ * building a full syntax tree
+ */
+
+export type NoirSymbolKind = "fn" | "struct" | "trait" | "impl" | "global" | "type" | "mod";
+
+export interface NoirSymbol {
+  name: string;
+  kind: NoirSymbolKind;
+  /** 1-based line of the declaration */
+  line: number;
+  /** Line of the closing brace of the body (or of the declaration's end) */
+  endLine: number;
+  /** e.g. "pub" or "pub(crate)"; absent for private items */
+  visibility?: string;
+  /** Generic parameters including the angle brackets */
+  generics?: string;
+  /** Declaration without its body or value, whitespace collapsed */
+  signature: string;
+  /** Text of the doc comments (`///` or `/** *\/`) above the declaration */
+  doc?: string;
+  attributes?: string[];
+  /** Type, trait or module the declaration is nested in */
+  container?: string;
+}
+
+export interface DocComment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Replace comments and string contents with spaces (keeping newlines, so
+ * offsets and line numbers stay valid) and collect doc comments
+ */
+export function stripComments(source: string): { code: string; docs: DocComment[] } {
+  const code = source.split("");
+  const docs: DocComment[] = [];
+  const blank = (from: number, to: number) => {
+    for (let i = from; i < to; i++) {
+      if (code[i] !== "\n") code[i] = " ";
+    }
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    if (source.startsWith("//", i)) {
+      let end = source.indexOf("\n", i);
+      if (end === -1) end = source.length;
+      if (source.startsWith("///", i) && !source.startsWith("////", i)) {
+        docs.push({ start: i, end, text: source.slice(i + 3, end).replace(/^ /, "") });
+      }
+      blank(i, end);
+      i = end;
+    } else if (source.startsWith("/*", i)) {
+      // Block comments nest
+      let depth = 0;
+      let end = i;
+      while (end < source.length) {
+        if (source.startsWith("/*", end)) {
+          depth++;
+          end += 2;
+        } else if (source.startsWith("*/", end)) {
+          depth--;
+          end += 2;
+          if (depth === 0) break;
+        } else {
+          end++;
+        }
+      }
+      const text = source.slice(i, end);
+      if (text.startsWith("/**") && !text.startsWith("/**/")) {
+        docs.push({
+          start: i,
+          end,
+          text: text
+            .slice(3, -2)
+            .split("\n")
+            .map((line) => line.replace(/^\s*\* ?/, "").trimEnd())
+            .join("\n")
+            .trim(),
+        });
+      }
+      blank(i, end);
+      i = end;
+    } else if (source[i] === '"') {
+      let end = i + 1;
+      while (end < source.length && source[end] !== '"') {
+        end += source[end] === "\\" ? 2 : 1;
+      }
+      blank(i + 1, end);
+      i = end + 1;
+    } else if (
+      source[i] === "r" &&
+      /^r#*"/.test(source.slice(i, i + 8)) &&
+      !/\w/.test(source[i - 1] ?? "")
+    ) {
+      // Raw strings: r"...", r#"..."#
+      const hashes = source.slice(i + 1).match(/^#*/)![0];
+      const open = i + 2 + hashes.length;
+      let end = source.indexOf(`"${hashes}`, open);
+      if (end === -1) end = source.length;
+      blank(open, end);
+      i = end + 1 + hashes.length;
+    } else {
+      i++;
+    }
+  }
+
+  return { code: code.join(""), docs };
+}
+
+/** Index of the bracket closing the one at `open` (or -1) */
+function matchAngle(code: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < code.length; i++) {
+    if (code[i] === "<") depth++;
+    else if (code[i] === ">" && code[i - 1] !== "-") {
+      depth--;
+      if (depth === 0) return i;
+    } else if (code[i] === "{" || code[i] === ";") {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Find where a declaration header ends: its body's opening brace, or the
+ * semicolon of a declaration without body. Globals and type aliases end at
+ * their semicolon wherever braces appear in the value.
+ */
+function findHeaderEnd(code: string, from: number, kind: NoirSymbolKind): number {
+  let depth = 0;
+  for (let i = from; i < code.length; i++) {
+    const char = code[i];
+    if (char === "(" || char === "[") depth++;
+    else if (char === ")" || char === "]") depth--;
+    else if (char === "{") {
+      if (depth === 0 && kind !== "global" && kind !== "type") return i;
+      depth++;
+    } else if (char === "}") depth--;
+    else if (char === ";" && depth === 0) return i;
+  }
+  return code.length;
+}
+
+/** Index of the brace closing the one at `open` (or the end of the code) */
+function matchBrace(code: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < code.length; i++) {
+    if (code[i] === "{") depth++;
+    else if (code[i] === "}") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return code.length;
+}
+
+/** Offset just after the last non-whitespace character before `offset` */
+function lastCodeBefore(code: string, offset: number): number {
+  let i = offset;
+  while (i > 0 && /\s/.test(code[i - 1])) i--;
+  return i;
+}
+
+/** Type name from a path with generics, e.g. "BigNum" from "bignum::BigNum<N, P>" */
+function baseTypeName(type: string): string {
+  const path = type.trim().replace(/<.*$/s, "").trim();
+  return path.split("::").pop()!.trim();
+}
+
+const DECLARATION = /\b(fn|struct|trait|impl|global|type|mod)\b|[{}]/;
+const MODIFIERS = /(?:\bpub(?:\s*\([^)]*\))?\s+|\b(?:unconstrained|comptime|unsafe|mut)\s+)*$/;
+
+interface Scope {
+  /** Whether declarations in this scope are indexed */
+  items: boolean;
+  container?: string;
+}
+
+/**
+ * Extract the item declarations of a Noir source file: top-level items and
+ * those nested in impls, traits and inline modules. Items declared inside
+ * function bodies are skipped.
+ */
+export function parseNoirSymbols(source: string): NoirSymbol[] {
+  const { code, docs } = stripComments(source);
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === "\n") lineStarts.push(i + 1);
+  }
+  const lineOf = (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+
+  const symbols: NoirSymbol[] = [];
+  const scopes: Scope[] = [{ items: true }];
+  const pattern = new RegExp(DECLARATION.source, "g");
+  let nextDoc = 0;
+
+  let match;
+  while ((match = pattern.exec(code))) {
+    if (match[0] === "{") {
+      scopes.push({ items: false });
+      continue;
+    }
+    if (match[0] === "}") {
+      if (scopes.length > 1) scopes.pop();
+      continue;
+    }
+
+    const scope = scopes[scopes.length - 1];
+    const kind = match[1] as NoirSymbolKind;
+    const keyword = match.index;
+    const start =
+      keyword - code.slice(Math.max(0, keyword - 100), keyword).match(MODIFIERS)![0].length;
+
+    // Only items start a statement; `fn` in types or `impl Trait` in
+    // parameters do not
+    const before = code[lastCodeBefore(code, start) - 1];
+    if (!scope.items || (before !== undefined && !"{};]".includes(before))) {
+      continue;
+    }
+
+    const headerEnd = findHeaderEnd(code, keyword, kind);
+    let header = code.slice(start, headerEnd);
+    const afterKeyword = code.slice(keyword + kind.length, headerEnd);
+
+    let name: string;
+    let generics: string | undefined;
+    let container: string | undefined;
+    if (kind === "impl") {
+      let rest = afterKeyword.trimStart();
+      if (rest.startsWith("<")) {
+        const close = matchAngle(rest, 0);
+        generics = close === -1 ? undefined : rest.slice(0, close + 1);
+        rest = close === -1 ? rest : rest.slice(close + 1);
+      }
+      const target = rest.replace(/\bwhere\b[\s\S]*$/, "");
+      const forIndex = target.search(/\sfor\s/);
+      name = baseTypeName(forIndex === -1 ? target : target.slice(forIndex + 5));
+      container = name;
+    } else {
+      const nameMatch = afterKeyword.match(/^\s*(?:mut\s+)?([A-Za-z_][A-Za-z0-9_]*)/);
+      if (!nameMatch) continue;
+      name = nameMatch[1];
+      const afterName = keyword + kind.length + nameMatch[0].length;
+      const open = afterName + (code.slice(afterName, headerEnd).match(/^\s*/)![0].length);
+      if (code[open] === "<") {
+        const close = matchAngle(code, open);
+        if (close !== -1) generics = code.slice(open, close + 1);
+      }
+      if (kind === "global") {
+        // The value is not part of the signature
+        header = header.replace(/=[\s\S]*$/, "");
+      }
+    }
+
+    // Attributes and doc comments directly above the declaration
+    const attributes: string[] = [];
+    let attributesStart = start;
+    for (;;) {
+      const end = lastCodeBefore(code, attributesStart);
+      if (code[end - 1] !== "]") break;
+      const open = code.lastIndexOf("#[", end);
+      if (open === -1) break;
+      attributes.unshift(source.slice(open, end).replace(/\s+/g, " "));
+      attributesStart = open;
+    }
+    const previousCode = lastCodeBefore(code, attributesStart);
+    // Doc comments are in source order and declarations are visited in order
+    while (nextDoc < docs.length && docs[nextDoc].start < previousCode) nextDoc++;
+    const docLines: string[] = [];
+    for (let d = nextDoc; d < docs.length && docs[d].end <= attributesStart; d++) {
+      docLines.push(docs[d].text);
+    }
+    const doc = docLines.join("\n").trim();
+
+    const visibility = header.match(/^pub(?:\s*\([^)]*\))?/)?.[0].replace(/\s+/g, "");
+    symbols.push({
+      name,
+      kind,
+      line: lineOf(start),
+      endLine: lineOf(code[headerEnd] === "{" ? matchBrace(code, headerEnd) : headerEnd),
+      ...(visibility && { visibility }),
+      ...(generics && { generics: generics.replace(/\s+/g, " ") }),
+      signature: header.replace(/\s+/g, " ").trim(),
+      ...(doc && { doc }),
+      ...(attributes.length > 0 && { attributes }),
+      ...(scope.container && { container: scope.container }),
+    });
+
+    // Continue after the header; bodies of impls, traits and modules hold
+    // more items
+    if (code[headerEnd] === "{") {
+      scopes.push(
+        kind === "impl" || kind === "trait" || kind === "mod"
+          ? { items: true, container: kind === "impl" ? container : name }
+          : { items: false }
+      );
+    }
+    pattern.lastIndex = headerEnd + 1;
+  }
+
+  return symbols;
+}
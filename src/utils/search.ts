@@ -2,18 +2,38 @@
  * Search utilities for finding content in cloned repositories
  */
 
-import { execSync } from "child_process";
+import { spawn } from "child_process";
+import { createInterface } from "readline";
 import { existsSync, readFileSync } from "fs";
-import { join, relative, extname } from "path";
+import { join, relative, extname, isAbsolute, sep } from "path";
 import { globbySync } from "globby";
-import { REPOS_DIR, getRepoPath, isRepoCloned } from "./git.js";
-import { NOIR_REPOS, RepoCategory } from "../repos/config.js";
+import {
+  REPOS_DIR,
+  getRepoPath,
+  isRepoCloned,
+  getSearchableRepoPaths,
+  getDefaultVersion,
+} from "./git.js";
+import { checkCompat } from "./compat.js";
+import { getWorkspaces } from "./workspaces.js";
+import { listNargoDependencies } from "./nargo.js";
+import { NoirSymbol, parseNoirSymbols } from "./noir-parser.js";
+import {
+  NOIR_REPOS,
+  DEFAULT_NOIR_VERSION,
+  RepoCategory,
+  getCategoryNames,
+} from "../repos/config.js";
 
 export interface SearchResult {
   file: string;
   line?: number;
   content: string;
   repo: string;
+  /** Lines around the match, untrimmed, starting at `startLine` */
+  context?: { startLine: number; lines: string[] };
+  /** Enclosing Noir item (e.g. "fn BigNum::new") or docs heading */
+  scope?: string;
 }
 
 export interface FileInfo {
@@ -29,82 +49,211 @@ export interface LibraryInfo {
   category: RepoCategory;
   url: string;
   cloned: boolean;
+  /** Where the library comes from (default: a configured repo) */
+  source?: "repo" | "nargo-cache";
+  /** Tag of a cached nargo dependency */
+  tag?: string;
+  /** compiler_version requirement from the library's Nargo.toml */
+  compilerVersion?: string;
+  /** Whether the checked-out library accepts the selected Noir version */
+  compatible?: boolean;
 }
 
+/**
+ * How a query is matched: as a regex, as the text it is, or as the text
+ * with word boundaries on both ends
+ */
+export type SearchMode = "regex" | "literal" | "word";
+
+/** A searchable directory outside REPOS_DIR (workspace or nargo cache entry) */
+export interface LocalSource {
+  name: string;
+  path: string;
+  /** Tag of a nargo dependency; its files never change */
+  tag?: string;
+}
+
+/** Longest a ripgrep search may run before its results so far are returned */
+const RG_TIMEOUT_MS = 30000;
+
 /**
  * Search code using ripgrep (falls back to manual search if rg not available)
  */
-export function searchCode(
+export async function searchCode(
   query: string,
   options: {
     filePattern?: string;
     repo?: string;
     maxResults?: number;
+    mode?: SearchMode;
     caseSensitive?: boolean;
+    /** Version of versioned repos (noir) to search instead of the default */
+    version?: string;
+    /** Lines to include before and after each match */
+    contextBefore?: number;
+    contextAfter?: number;
+    /** Report the enclosing Noir item or docs heading of each match */
+    scope?: boolean;
   } = {}
-): SearchResult[] {
+): Promise<SearchResult[]> {
   const {
     filePattern = "*.nr",
     repo,
     maxResults = 50,
+    mode = "regex",
     caseSensitive = false,
+    version,
+    contextBefore = 0,
+    contextAfter = 0,
+    scope = false,
   } = options;
 
-  const searchPath = repo ? getRepoPath(repo) : REPOS_DIR;
+  // Listed once per search: mapping each match back to its source needs them
+  const sources = getLocalSources();
+  const searchPaths = (
+    repo
+      ? [resolveSourcePath(repo, version, sources)]
+      : [...getSearchableRepoPaths(version), ...sources.map((s) => s.path)]
+  ).filter((p) => existsSync(p));
 
-  if (!existsSync(searchPath)) {
+  if (searchPaths.length === 0) {
     return [];
   }
 
-  try {
-    const rgFlags = [
-      caseSensitive ? "" : "-i",
-      "-n",
-      "--no-heading",
-      "-g",
-      filePattern,
-      "-m",
-      String(maxResults * 2),
-    ]
-      .filter(Boolean)
-      .join(" ");
-
-    const result = execSync(
-      `rg ${rgFlags} "${escapeShell(query)}" "${searchPath}"`,
-      {
-        encoding: "utf-8",
-        maxBuffer: 10 * 1024 * 1024,
-        timeout: 30000,
+  const args = [
+    "--json",
+    ...(caseSensitive ? [] : ["-i"]),
+    ...(mode === "regex" ? [] : ["-F"]),
+    ...(mode === "word" ? ["-w"] : []),
+    "--no-require-git",
+    "-g",
+    filePattern,
+    "-g",
+    "!target/",
+    "-m",
+    String(maxResults),
+    "-e",
+    query,
+    "--",
+    ...searchPaths,
+  ];
+
+  let results = await runRipgrep(query, args, maxResults, sources);
+  if (results === null) {
+    results = [];
+    for (const searchPath of searchPaths) {
+      results.push(
+        ...manualSearch(
+          query,
+          searchPath,
+          filePattern,
+          maxResults - results.length,
+          caseSensitive,
+          mode,
+          sources
+        )
+      );
+      if (results.length >= maxResults) break;
+    }
+  }
+  return addContext(results, { contextBefore, contextAfter, scope }, sources);
+}
+
+/**
+ * Run ripgrep and collect matches from its JSON output as they arrive,
+ * stopping it once maxResults distinct lines are found. Resolves null if rg
+ * is not installed; rejects if rg fails, e.g. on a regex it can't compile.
+ */
+function runRipgrep(
+  query: string,
+  args: string[],
+  maxResults: number,
+  sources: LocalSource[]
+): Promise<SearchResult[] | null> {
+  return new Promise((resolve, reject) => {
+    const rg = spawn("rg", args, { stdio: ["ignore", "pipe", "pipe"] });
+    const results: SearchResult[] = [];
+    const seen = new Set<string>();
+    let stderr = "";
+    let stopped = false;
+
+    const stop = () => {
+      if (!stopped) {
+        stopped = true;
+        rg.kill();
       }
-    );
+    };
+    const timer = setTimeout(stop, RG_TIMEOUT_MS);
 
-    return parseRgOutput(result, maxResults);
-  } catch {
-    return manualSearch(
-      query,
-      searchPath,
-      filePattern,
-      maxResults,
-      caseSensitive
-    );
-  }
+    rg.stderr.on("data", (chunk) => {
+      stderr += chunk;
+    });
+    createInterface({ input: rg.stdout }).on("line", (line) => {
+      if (stopped) return;
+      const result = parseRgJsonLine(line, sources);
+      if (!result || seen.has(`${result.file}:${result.line}`)) return;
+      seen.add(`${result.file}:${result.line}`);
+      results.push(result);
+      if (results.length >= maxResults) stop();
+    });
+
+    rg.on("error", (error) => {
+      clearTimeout(timer);
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        resolve(null);
+      } else {
+        reject(error);
+      }
+    });
+    rg.on("close", (code) => {
+      clearTimeout(timer);
+      // 0: matches, 1: no matches, 2: errors (possibly alongside matches)
+      if (stopped || code === 0 || code === 1) {
+        resolve(results);
+        return;
+      }
+      const reason = stderr.match(/^error: (.*)$/m)?.[1];
+      // rg compiles Rust regex syntax, so only it can tell if a query is invalid
+      if (/regex parse error|not allowed in a regex/.test(stderr)) {
+        reject(invalidRegexError(query, reason ?? "regex parse error"));
+      } else if (results.length > 0) {
+        // Some files could not be read
+        resolve(results);
+      } else {
+        reject(new Error(`ripgrep failed: ${stderr.trim().split("\n")[0] || `exit code ${code}`}`));
+      }
+    });
+  });
 }
 
 /**
  * Search Noir documentation files
  */
-export function searchDocs(
+export async function searchDocs(
   query: string,
   options: {
     section?: string;
     maxResults?: number;
+    version?: string;
+    mode?: SearchMode;
+    caseSensitive?: boolean;
+    contextBefore?: number;
+    contextAfter?: number;
   } = {}
-): SearchResult[] {
-  const { section, maxResults = 30 } = options;
+): Promise<SearchResult[]> {
+  const {
+    section,
+    maxResults = 30,
+    version,
+    mode,
+    caseSensitive,
+    contextBefore,
+    contextAfter,
+  } = options;
 
   let repo: string | undefined;
   if (section) {
-    const docsPath = join(REPOS_DIR, "noir", "docs", section);
+    const docsPath = join(getRepoPath("noir", version), "docs", section);
     if (existsSync(docsPath)) {
       repo = `noir/docs/${section}`;
     }
@@ -114,21 +263,33 @@ export function searchDocs(
     filePattern: "*.{md,mdx}",
     repo: repo || "noir",
     maxResults,
+    version,
+    mode,
+    caseSensitive,
+    contextBefore,
+    contextAfter,
+    scope: true,
   });
 }
 
 /**
  * Search the Noir standard library (.nr files in noir_stdlib)
  */
-export function searchStdlib(
+export async function searchStdlib(
   query: string,
   options: {
     maxResults?: number;
+    version?: string;
+    mode?: SearchMode;
+    caseSensitive?: boolean;
+    contextBefore?: number;
+    contextAfter?: number;
   } = {}
-): SearchResult[] {
-  const { maxResults = 30 } = options;
+): Promise<SearchResult[]> {
+  const { maxResults = 30, version, mode, caseSensitive, contextBefore, contextAfter } =
+    options;
 
-  const stdlibPath = join(getRepoPath("noir"), "noir_stdlib");
+  const stdlibPath = join(getRepoPath("noir", version), "noir_stdlib");
   if (!existsSync(stdlibPath)) {
     return [];
   }
@@ -140,6 +301,12 @@ export function searchStdlib(
     filePattern: "*.nr",
     repo: searchPath,
     maxResults,
+    version,
+    mode,
+    caseSensitive,
+    contextBefore,
+    contextAfter,
+    scope: true,
   });
 }
 
@@ -163,6 +330,11 @@ export function listExamples(category?: string): FileInfo[] {
     examples.push(...circuits);
   }
 
+  // Search in local workspaces
+  for (const workspace of getWorkspaces()) {
+    examples.push(...findCircuits(workspace.path, workspace.name));
+  }
+
   if (category) {
     const lowerCategory = category.toLowerCase();
     return examples.filter(
@@ -176,31 +348,70 @@ export function listExamples(category?: string): FileInfo[] {
 }
 
 /**
- * List library repos with their metadata and clone status
+ * Get the Noir version libraries are checked against: the default synced
+ * version, falling back to DEFAULT_NOIR_VERSION
+ */
+export function getSelectedNoirVersion(): string {
+  return getDefaultVersion("noir") || DEFAULT_NOIR_VERSION;
+}
+
+/**
+ * List library repos with their metadata, clone status and compatibility
+ * with the selected Noir version
  */
-export function listLibraries(category?: RepoCategory): LibraryInfo[] {
+export function listLibraries(
+  category?: RepoCategory,
+  noirVersion: string = getSelectedNoirVersion()
+): LibraryInfo[] {
   const categoriesToShow: RepoCategory[] = category
     ? [category]
-    : ["libraries", "reference"];
+    : getCategoryNames().filter((c) => c !== "core");
 
-  return NOIR_REPOS.filter((r) => categoriesToShow.includes(r.category)).map(
-    (r) => ({
+  const libraries: LibraryInfo[] = NOIR_REPOS.filter((r) =>
+    categoriesToShow.includes(r.category)
+  ).map((r) => {
+    const cloned = isRepoCloned(r.name);
+    return {
       name: r.name,
       description: r.description,
       category: r.category,
       url: r.url,
-      cloned: isRepoCloned(r.name),
-    })
-  );
+      cloned,
+      source: "repo",
+      ...(cloned && checkCompat(getRepoPath(r.name), noirVersion)),
+    };
+  });
+
+  if (categoriesToShow.includes("libraries")) {
+    for (const dep of listNargoDependencies()) {
+      libraries.push({
+        name: dep.name,
+        description: `Cached nargo dependency ${dep.org}/${dep.repo} @ ${dep.tag}`,
+        category: "libraries",
+        url: dep.url,
+        cloned: true,
+        source: "nargo-cache",
+        tag: dep.tag,
+        ...checkCompat(dep.path, noirVersion),
+      });
+    }
+  }
+
+  return libraries;
 }
 
 /**
- * Read a specific file
+ * Read a specific file. `version` selects the version of a versioned repo
+ * (e.g. "noir/...") when the path does not name one explicitly.
  */
-export function readFile(filePath: string): string | null {
+export function readFile(
+  filePath: string,
+  version?: string,
+  sources?: LocalSource[]
+): string | null {
   const fullPath = filePath.startsWith("/")
     ? filePath
-    : join(REPOS_DIR, filePath);
+    : resolveSourcePath(filePath, version, sources);
 
   if (!existsSync(fullPath)) {
     return null;
@@ -236,36 +447,207 @@ export function findExample(name: string): FileInfo | null {
 // --- Helper functions ---
 
 /**
- * Escape a string for safe use inside double quotes in a shell command.
- * Preserves regex syntax (|, *, +, etc.) while preventing shell injection.
+ * Searchable directories outside REPOS_DIR: local workspaces and
+ * dependencies cached by nargo
  */
-export function escapeShell(str: string): string {
-  return str.replace(/["$`\\!]/g, "\\$&");
+export function getLocalSources(): LocalSource[] {
+  return [...getWorkspaces(), ...listNargoDependencies()];
 }
 
-export function parseRgOutput(output: string, maxResults: number): SearchResult[] {
-  const results: SearchResult[] = [];
-  const lines = output.split("\n").filter(Boolean);
-
-  for (const line of lines) {
-    if (results.length >= maxResults) break;
-
-    const match = line.match(/^(.+?):(\d+):(.*)$/);
-    if (match) {
-      const [, filePath, lineNum, content] = match;
-      const relativePath = relative(REPOS_DIR, filePath);
-      const repoPart = relativePath.split("/")[0];
-
-      results.push({
-        file: relativePath,
-        line: parseInt(lineNum, 10),
-        content: content.trim(),
-        repo: repoPart,
-      });
+/**
+ * Resolve a source-relative path (e.g. "noir/noir_stdlib" or
+ * "my-workspace/src/main.nr") to an absolute path. The first segment selects
+ * a local source if one has that name, otherwise a repo under REPOS_DIR
+ * (versioned repos resolve to `version` or their default version).
+ */
+export function resolveSourcePath(
+  sourcePath: string,
+  version?: string,
+  sources: LocalSource[] = getLocalSources()
+): string {
+  const [first, ...rest] = sourcePath.split("/");
+  const source = sources.find((s) => s.name === first);
+  if (source) {
+    return join(source.path, ...rest);
+  }
+  return join(getRepoPath(first, version), ...rest);
+}
+
+/**
+ * Convert an absolute file path to a source-relative path and the name of
+ * the repo or local source it belongs to.
+ */
+export function toSourcePath(
+  filePath: string,
+  sources: LocalSource[] = getLocalSources()
+): { file: string; repo: string } {
+  for (const source of sources) {
+    const rel = relative(source.path, filePath);
+    if (rel && !rel.startsWith("..") && !isAbsolute(rel)) {
+      return {
+        file: [source.name, ...rel.split(sep)].join("/"),
+        repo: source.name,
+      };
     }
   }
 
-  return results;
+  const relativePath = relative(REPOS_DIR, filePath);
+  return { file: relativePath, repo: relativePath.split("/")[0] };
+}
+
+/** Text of a ripgrep JSON field, which holds base64 bytes if not valid UTF-8 */
+function rgText(field: { text?: string; bytes?: string }): string {
+  return field.text ?? Buffer.from(field.bytes ?? "", "base64").toString("utf-8");
+}
+
+/**
+ * Parse one line of `rg --json` output; only "match" messages yield a result
+ */
+export function parseRgJsonLine(
+  line: string,
+  sources: LocalSource[] = getLocalSources()
+): SearchResult | null {
+  let message;
+  try {
+    message = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  if (message?.type !== "match") return null;
+
+  const { path, lines, line_number } = message.data;
+  const { file, repo } = toSourcePath(rgText(path), sources);
+  return {
+    file,
+    line: line_number,
+    content: rgText(lines).trim(),
+    repo,
+  };
+}
+
+/**
+ * Name the innermost Noir item whose declaration spans a line
+ */
+function enclosingItem(symbols: NoirSymbol[], line: number): string | undefined {
+  let innermost: NoirSymbol | undefined;
+  for (const symbol of symbols) {
+    if (symbol.line <= line && line <= symbol.endLine) {
+      if (!innermost || symbol.line >= innermost.line) innermost = symbol;
+    }
+  }
+  if (!innermost) return undefined;
+  const { kind, name, container } = innermost;
+  return kind === "impl" || !container ? `${kind} ${name}` : `${kind} ${container}::${name}`;
+}
+
+/**
+ * Path of the markdown headings a line is under, e.g. "Hash methods > poseidon2"
+ */
+function enclosingHeading(lines: string[], line: number): string | undefined {
+  const headings: { level: number; text: string }[] = [];
+  let inFence = false;
+  for (let i = 0; i < line - 1 && i < lines.length; i++) {
+    if (/^\s*(```|~~~)/.test(lines[i])) inFence = !inFence;
+    const heading = !inFence && lines[i].match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      const level = heading[1].length;
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      headings.push({ level, text: heading[2] });
+    }
+  }
+  return headings.length > 0 ? headings.map((h) => h.text).join(" > ") : undefined;
+}
+
+/**
+ * Add the lines around each match and its enclosing item or heading.
+ * Every file is read (and parsed) once.
+ */
+function addContext(
+  results: SearchResult[],
+  options: { contextBefore: number; contextAfter: number; scope: boolean },
+  sources: LocalSource[]
+): SearchResult[] {
+  const before = Math.max(0, Math.floor(options.contextBefore));
+  const after = Math.max(0, Math.floor(options.contextAfter));
+  if (before === 0 && after === 0 && !options.scope) {
+    return results;
+  }
+
+  const files = new Map<string, { lines: string[]; symbols?: NoirSymbol[] } | null>();
+  return results.map((result) => {
+    if (result.line === undefined) return result;
+
+    if (!files.has(result.file)) {
+      const content = readFile(result.file, undefined, sources);
+      files.set(
+        result.file,
+        content === null
+          ? null
+          : {
+              lines: content.split("\n"),
+              ...(options.scope &&
+                extname(result.file) === ".nr" && { symbols: parseNoirSymbols(content) }),
+            }
+      );
+    }
+    const file = files.get(result.file);
+    if (!file) return result;
+
+    const line = result.line;
+    const startLine = Math.max(1, line - before);
+    let scope: string | undefined;
+    if (file.symbols) {
+      scope = enclosingItem(file.symbols, line);
+    } else if (options.scope && /\.mdx?$/.test(result.file)) {
+      scope = enclosingHeading(file.lines, line);
+    }
+    return {
+      ...result,
+      ...((before > 0 || after > 0) && {
+        context: {
+          startLine,
+          lines: file.lines.slice(startLine - 1, Math.min(file.lines.length, line + after)),
+        },
+      }),
+      ...(scope && { scope }),
+    };
+  });
+}
+
+function invalidRegexError(query: string, reason: string): Error {
+  return new Error(
+    `Invalid regex '${query}': ${reason}. Use mode 'literal' to search for the text as written.`
+  );
+}
+
+/**
+ * Build the regex a query matches in the given mode, matching what ripgrep
+ * does with -F and -w. Throws for an invalid regex in regex mode.
+ */
+export function buildSearchRegex(
+  query: string,
+  mode: SearchMode,
+  caseSensitive: boolean
+): RegExp {
+  const flags = caseSensitive ? "g" : "gi";
+  if (mode === "regex") {
+    try {
+      return new RegExp(query, flags);
+    } catch (error) {
+      throw invalidRegexError(
+        query,
+        (error as Error).message.replace(/^Invalid regular expression: \/.*\/\w*: /, "")
+      );
+    }
+  }
+
+  const escaped = query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(
+    mode === "word" ? `(?<![A-Za-z0-9_])${escaped}(?![A-Za-z0-9_])` : escaped,
+    flags
+  );
 }
 
 export function manualSearch(
@@ -273,25 +655,22 @@ export function manualSearch(
   searchPath: string,
   filePattern: string,
   maxResults: number,
-  caseSensitive: boolean
+  caseSensitive: boolean,
+  mode: SearchMode = "regex",
+  sources: LocalSource[] = getLocalSources()
 ): SearchResult[] {
   const results: SearchResult[] = [];
   const pattern = filePattern.replace("*.", "**/*.");
+  const searchRegex = buildSearchRegex(query, mode, caseSensitive);
 
   try {
     const files = globbySync(pattern, {
       cwd: searchPath,
       absolute: true,
-      ignore: ["**/node_modules/**", "**/.git/**"],
+      gitignore: true,
+      ignore: ["**/node_modules/**", "**/.git/**", "**/target/**"],
     });
 
-    let searchRegex: RegExp;
-    try {
-      searchRegex = new RegExp(query, caseSensitive ? "g" : "gi");
-    } catch {
-      searchRegex = new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), caseSensitive ? "g" : "gi");
-    }
-
     for (const file of files) {
       if (results.length >= maxResults) break;
 
@@ -303,14 +682,10 @@ export function manualSearch(
           if (results.length >= maxResults) break;
 
           if (searchRegex.test(lines[i])) {
-            const relativePath = relative(REPOS_DIR, file);
-            const repoPart = relativePath.split("/")[0];
-
             results.push({
-              file: relativePath,
+              ...toSourcePath(file, sources),
               line: i + 1,
               content: lines[i].trim(),
-              repo: repoPart,
             });
           }
 
@@ -334,11 +709,13 @@ export function findCircuits(basePath: string, repoName: string): FileInfo[] {
     const files = globbySync("**/src/main.nr", {
       cwd: basePath,
       absolute: true,
-      ignore: ["**/node_modules/**", "**/.git/**"],
+      gitignore: true,
+      ignore: ["**/node_modules/**", "**/.git/**", "**/target/**"],
     });
 
+    const sources = getLocalSources();
     for (const file of files) {
-      const relativePath = relative(REPOS_DIR, file);
+      const relativePath = toSourcePath(file, sources).file;
       const parts = relativePath.split("/");
       const srcIndex = parts.indexOf("src");
       const name =
@@ -0,0 +1,219 @@
+/**
+ * Offline snapshots - pack the repos directory into a single archive that
+ * can be restored on machines without network access
+ */
+
+import { execFileSync } from "child_process";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { basename, dirname, join, resolve } from "path";
+import { simpleGit } from "simple-git";
+import { NOIR_REPOS, DEFAULT_NOIR_VERSION } from "../repos/config.js";
+import { REPOS_DIR, ensureReposDir, isTempClone } from "./git.js";
+import {
+  Lockfile,
+  buildLockfile,
+  readLockfile,
+  writeLockfile,
+} from "./lockfile.js";
+
+const SNAPSHOT_VERSION = 1;
+
+/** Manifest file at the root of a snapshot archive */
+const MANIFEST_FILE = "snapshot.json";
+
+/** Lockfile describing the snapshot's clones, next to the manifest */
+const SNAPSHOT_LOCKFILE = "repos.lock.json";
+
+export interface SnapshotManifest {
+  snapshotVersion: number;
+  createdAt: string;
+  /** Default Noir version of the exported clones */
+  noirVersion?: string;
+  /** Top-level entries of the repos directory */
+  entries: string[];
+}
+
+function tar(args: string[]): void {
+  try {
+    execFileSync("tar", args, { stdio: ["ignore", "ignore", "pipe"] });
+  } catch (error) {
+    const stderr = (error as { stderr?: Buffer }).stderr?.toString().trim();
+    throw new Error(
+      `tar ${args[0]} failed: ${stderr || (error instanceof Error ? error.message : String(error))}`
+    );
+  }
+}
+
+/**
+ * Pack REPOS_DIR together with a manifest and lockfile into a .tar.gz archive
+ */
+export async function createSnapshot(archivePath: string): Promise<{
+  manifest: SnapshotManifest;
+  lock: Lockfile;
+}> {
+  // Clones an interrupted sync left half-finished are not worth restoring
+  const entries = existsSync(REPOS_DIR)
+    ? readdirSync(REPOS_DIR)
+        .filter((entry) => !isTempClone(entry))
+        .sort()
+    : [];
+  const lock = await buildLockfile(NOIR_REPOS);
+  if (lock.repos.length === 0) {
+    throw new Error(
+      `No cloned repositories in ${REPOS_DIR}. Run noir_sync_repos before exporting.`
+    );
+  }
+
+  const manifest: SnapshotManifest = {
+    snapshotVersion: SNAPSHOT_VERSION,
+    createdAt: new Date().toISOString(),
+    noirVersion: lock.defaultVersions.noir,
+    entries,
+  };
+
+  const metaDir = mkdtempSync(join(dirname(REPOS_DIR), ".snapshot-"));
+  try {
+    writeFileSync(join(metaDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+    writeLockfile(lock, join(metaDir, SNAPSHOT_LOCKFILE));
+
+    const output = resolve(archivePath);
+    mkdirSync(dirname(output), { recursive: true });
+    tar([
+      "-czf",
+      output,
+      "-C",
+      metaDir,
+      MANIFEST_FILE,
+      SNAPSHOT_LOCKFILE,
+      "-C",
+      dirname(REPOS_DIR),
+      ...entries.map((entry) => join(basename(REPOS_DIR), entry)),
+    ]);
+  } finally {
+    rmSync(metaDir, { recursive: true, force: true });
+  }
+
+  return { manifest, lock };
+}
+
+/**
+ * A single item of REPOS_DIR: a clone (`name` or `name@version`) or a
+ * dotfile such as `.default-versions.json`. Rules out "", "." and "..",
+ * which would resolve to REPOS_DIR or its parent on import.
+ */
+const MANIFEST_ENTRY = /^(?:[A-Za-z0-9_][\w.-]*(?:@[\w.+-]+)?|\.[\w-][\w.-]*)$/;
+
+function readManifest(path: string): SnapshotManifest {
+  if (!existsSync(path)) {
+    throw new Error(`Not a snapshot archive: ${MANIFEST_FILE} is missing`);
+  }
+
+  let manifest: Partial<SnapshotManifest>;
+  try {
+    manifest = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid snapshot manifest: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (manifest.snapshotVersion !== SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported snapshot version ${manifest.snapshotVersion} (expected ${SNAPSHOT_VERSION})`
+    );
+  }
+  if (
+    !Array.isArray(manifest.entries) ||
+    manifest.entries.some((e) => typeof e !== "string" || !MANIFEST_ENTRY.test(e))
+  ) {
+    throw new Error("Invalid snapshot manifest: 'entries' must list repo directory names");
+  }
+
+  return manifest as SnapshotManifest;
+}
+
+/**
+ * Check that every clone in the lockfile is in the archive at its locked commit
+ */
+async function verifyClones(reposDir: string, lock: Lockfile): Promise<void> {
+  for (const repo of lock.repos) {
+    const dirName = repo.version ? `${repo.name}@${repo.version}` : repo.name;
+    const repoPath = join(reposDir, dirName);
+    if (!existsSync(join(repoPath, ".git"))) {
+      throw new Error(`Snapshot is missing ${dirName} listed in its lockfile`);
+    }
+
+    const head = (await simpleGit(repoPath).revparse(["HEAD"])).trim();
+    if (head !== repo.commit) {
+      throw new Error(
+        `Snapshot ${dirName} is at ${head.substring(0, 7)}, but its lockfile says ${repo.commit.substring(0, 7)}`
+      );
+    }
+  }
+}
+
+/**
+ * Restore a snapshot archive into REPOS_DIR. Clones in the archive replace
+ * local clones of the same name; other local clones are kept.
+ * Refuses snapshots of a different Noir version than expected unless forced.
+ */
+export async function restoreSnapshot(
+  archivePath: string,
+  options: { force?: boolean; expectedNoirVersion?: string } = {}
+): Promise<{ manifest: SnapshotManifest; lock: Lockfile }> {
+  const { force = false, expectedNoirVersion = DEFAULT_NOIR_VERSION } = options;
+  const input = resolve(archivePath);
+  if (!existsSync(input)) {
+    throw new Error(`Snapshot archive not found: ${input}`);
+  }
+
+  ensureReposDir();
+  // Extract next to REPOS_DIR so clones can be moved in with a rename
+  const extractDir = mkdtempSync(join(dirname(REPOS_DIR), ".snapshot-"));
+
+  try {
+    tar(["-xzf", input, "-C", extractDir]);
+
+    const manifest = readManifest(join(extractDir, MANIFEST_FILE));
+    const lock = readLockfile(join(extractDir, SNAPSHOT_LOCKFILE));
+    if (!lock) {
+      throw new Error(`Not a snapshot archive: ${SNAPSHOT_LOCKFILE} is missing`);
+    }
+
+    if (
+      !force &&
+      manifest.noirVersion &&
+      manifest.noirVersion !== expectedNoirVersion
+    ) {
+      throw new Error(
+        `Snapshot contains Noir ${manifest.noirVersion}, but this server expects ${expectedNoirVersion}. ` +
+          "Pass force to import it anyway."
+      );
+    }
+
+    const extractedRepos = join(extractDir, basename(REPOS_DIR));
+    await verifyClones(extractedRepos, lock);
+
+    for (const entry of manifest.entries) {
+      const source = join(extractedRepos, entry);
+      if (!existsSync(source)) continue;
+      const target = join(REPOS_DIR, entry);
+      rmSync(target, { recursive: true, force: true });
+      renameSync(source, target);
+    }
+
+    writeLockfile(await buildLockfile(NOIR_REPOS));
+    return { manifest, lock };
+  } finally {
+    rmSync(extractDir, { recursive: true, force: true });
+  }
+}
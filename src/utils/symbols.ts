@@ -0,0 +1,251 @@
+/**
+ * Symbol index - Noir declarations of every cloned repo, cached per commit
+ */
+
+import { readFileSync, statSync, writeFileSync } from "fs";
+import { join, relative, sep } from "path";
+import { globbySync } from "globby";
+import {
+  REPOS_DIR,
+  getRepoCommit,
+  getRepoPath,
+  getSearchableRepoPaths,
+  readSyncManifest,
+} from "./git.js";
+import { LocalSource, getLocalSources, resolveSourcePath } from "./search.js";
+import { NoirSymbol, NoirSymbolKind, parseNoirSymbols } from "./noir-parser.js";
+
+/** Bumped whenever the parser output changes, invalidating stored indexes */
+const SYMBOL_INDEX_VERSION = 2;
+
+/** File in a clone's .git directory holding its symbol index */
+const SYMBOL_INDEX_FILE = "noir-mcp-symbols.json";
+
+export interface IndexedSymbol extends NoirSymbol {
+  /** Source-relative path, e.g. `noir@v1.0.0-beta.19/noir_stdlib/src/hash/mod.nr` */
+  file: string;
+  /** Repo or local source the symbol comes from */
+  repo: string;
+}
+
+export interface SymbolMatch extends IndexedSymbol {
+  match: "exact" | "prefix" | "fuzzy";
+}
+
+interface SymbolIndex {
+  version: number;
+  /** Commit and sparse paths the index was built from */
+  key: string;
+  symbols: { file: string; symbols: NoirSymbol[] }[];
+}
+
+/** Indexes already loaded, by clone directory */
+const loaded = new Map<string, SymbolIndex>();
+
+/** Indexes of nargo dependencies, which never change for a tag */
+const nargoIndexes = new Map<string, SymbolIndex["symbols"]>();
+
+/** Parsed workspace files by absolute path, reused until they are modified */
+const workspaceFiles = new Map<string, { mtimeMs: number; symbols: NoirSymbol[] }>();
+
+function parseFile(path: string): NoirSymbol[] {
+  return parseNoirSymbols(readFileSync(path, "utf-8"));
+}
+
+function parseWorkspaceFile(path: string): NoirSymbol[] {
+  const { mtimeMs } = statSync(path);
+  const cached = workspaceFiles.get(path);
+  if (cached?.mtimeMs === mtimeMs) return cached.symbols;
+
+  const symbols = parseFile(path);
+  workspaceFiles.set(path, { mtimeMs, symbols });
+  return symbols;
+}
+
+/**
+ * Parse every Noir file under a directory. Paths are relative to it.
+ */
+function indexDirectory(
+  path: string,
+  parse: (file: string) => NoirSymbol[] = parseFile
+): SymbolIndex["symbols"] {
+  const files = globbySync("**/*.nr", {
+    cwd: path,
+    gitignore: true,
+    ignore: ["**/node_modules/**", "**/.git/**", "**/target/**"],
+  });
+
+  const indexed: SymbolIndex["symbols"] = [];
+  for (const file of files.sort()) {
+    try {
+      const symbols = parse(join(path, file));
+      if (symbols.length > 0) indexed.push({ file, symbols });
+    } catch {
+      // Skip files that can't be read
+    }
+  }
+  return indexed;
+}
+
+function withSource(
+  index: SymbolIndex["symbols"],
+  prefix: string,
+  repo: string
+): IndexedSymbol[] {
+  return index.flatMap(({ file, symbols }) =>
+    symbols.map((symbol) => ({ ...symbol, file: `${prefix}/${file}`, repo }))
+  );
+}
+
+/**
+ * Get the symbols of a clone in REPOS_DIR (e.g. `noir@v1.0.0-beta.19`),
+ * building its index if the checked-out commit has not been indexed yet
+ */
+export async function getRepoSymbols(dirName: string): Promise<IndexedSymbol[]> {
+  const commit = await getRepoCommit(dirName, true);
+  if (!commit) return [];
+
+  const sparse = readSyncManifest(dirName)?.sparse;
+  const key = sparse ? `${commit} ${sparse.join(",")}` : commit;
+  const indexPath = join(getRepoPath(dirName), ".git", SYMBOL_INDEX_FILE);
+
+  let index = loaded.get(dirName);
+  if (!index || index.key !== key) {
+    try {
+      index = JSON.parse(readFileSync(indexPath, "utf-8")) as SymbolIndex;
+    } catch {
+      index = undefined;
+    }
+  }
+  if (!index || index.version !== SYMBOL_INDEX_VERSION || index.key !== key) {
+    index = {
+      version: SYMBOL_INDEX_VERSION,
+      key,
+      symbols: indexDirectory(getRepoPath(dirName)),
+    };
+    try {
+      writeFileSync(indexPath, JSON.stringify(index));
+    } catch {
+      // Rebuilt on the next lookup
+    }
+  }
+  loaded.set(dirName, index);
+
+  return withSource(index.symbols, dirName, dirName);
+}
+
+/**
+ * Get the symbols of a directory outside REPOS_DIR. A nargo dependency is
+ * parsed once per tag; workspace files are re-parsed when modified.
+ */
+function getLocalSymbols(source: LocalSource): IndexedSymbol[] {
+  let index: SymbolIndex["symbols"];
+  if (source.tag) {
+    const key = `${source.path} ${source.tag}`;
+    index = nargoIndexes.get(key) ?? indexDirectory(source.path);
+    nargoIndexes.set(key, index);
+  } else {
+    index = indexDirectory(source.path, parseWorkspaceFile);
+  }
+  return withSource(index, source.name, source.name);
+}
+
+/**
+ * Score how well a symbol name matches the query (null if it does not)
+ */
+function scoreName(
+  name: string,
+  query: string
+): { match: SymbolMatch["match"]; score: number } | null {
+  if (name === query) return { match: "exact", score: 100 };
+  const lowerName = name.toLowerCase();
+  const lowerQuery = query.toLowerCase();
+  if (lowerName === lowerQuery) return { match: "exact", score: 90 };
+  if (lowerName.startsWith(lowerQuery)) {
+    return { match: "prefix", score: 70 - Math.min(10, name.length - query.length) };
+  }
+  if (lowerName.includes(lowerQuery)) return { match: "fuzzy", score: 50 };
+
+  // Characters of the query in order, e.g. "p2hash" for "poseidon2_hash"
+  let position = 0;
+  for (const char of lowerQuery) {
+    position = lowerName.indexOf(char, position) + 1;
+    if (position === 0) return null;
+  }
+  return { match: "fuzzy", score: 30 };
+}
+
+/**
+ * Whether a symbol lies in the module or type named by a qualifier, e.g.
+ * "BigNum" for its methods or "poseidon2" for `hash/poseidon2.nr`
+ */
+function matchesQualifier(symbol: IndexedSymbol, qualifier: string): boolean {
+  const last = qualifier.split("::").pop()!.toLowerCase();
+  if (symbol.container?.toLowerCase() === last) return true;
+  return symbol.file
+    .replace(/\.nr$/, "")
+    .toLowerCase()
+    .split("/")
+    .includes(last);
+}
+
+/**
+ * Find symbol definitions by name, best matches first. The query may be
+ * qualified with a type or module, e.g. `BigNum::new` or `poseidon2::hash`.
+ */
+export async function findSymbols(
+  query: string,
+  options: {
+    kind?: NoirSymbolKind;
+    /** Repo or local source to search (default: all) */
+    repo?: string;
+    /** Version of versioned repos (noir) to search instead of the default */
+    version?: string;
+    maxResults?: number;
+  } = {}
+): Promise<SymbolMatch[]> {
+  const { kind, repo, version, maxResults = 20 } = options;
+  const parts = query.trim().split("::");
+  const name = parts.pop()!;
+  const qualifier = parts.join("::");
+
+  const symbols: IndexedSymbol[] = [];
+  const localSources = getLocalSources();
+  const repoPaths = repo
+    ? [resolveSourcePath(repo, version, localSources)]
+    : [...getSearchableRepoPaths(version), ...localSources.map((s) => s.path)];
+  for (const path of repoPaths) {
+    const source = localSources.find((s) => s.path === path);
+    symbols.push(
+      ...(source
+        ? getLocalSymbols(source)
+        : await getRepoSymbols(relative(REPOS_DIR, path).split(sep)[0]))
+    );
+  }
+
+  const matches: (SymbolMatch & { score: number })[] = [];
+  for (const symbol of symbols) {
+    if (kind && symbol.kind !== kind) continue;
+    if (qualifier && !matchesQualifier(symbol, qualifier)) continue;
+    const scored = name ? scoreName(symbol.name, name) : { match: "fuzzy" as const, score: 0 };
+    if (!scored) continue;
+
+    // Prefer public definitions over private ones and impl blocks
+    const score =
+      scored.score +
+      (symbol.visibility === "pub" ? 5 : 0) -
+      (symbol.kind === "impl" ? 3 : 0);
+    matches.push({ ...symbol, match: scored.match, score });
+  }
+
+  return matches
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.file.split("/").length - b.file.split("/").length ||
+        a.file.localeCompare(b.file) ||
+        a.line - b.line
+    )
+    .slice(0, maxResults)
+    .map(({ score: _score, ...match }) => match);
+}
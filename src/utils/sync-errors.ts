@@ -0,0 +1,51 @@
+/**
+ * Sync failure classification - turns raw git and file system errors into
+ * categories that can be acted on
+ */
+
+export type SyncFailureKind =
+  | "network"
+  | "ref-not-found"
+  | "auth"
+  | "disk-full"
+  | "git-missing"
+  | "lock-held"
+  | "timeout"
+  | "unknown";
+
+export interface SyncFailure {
+  kind: SyncFailureKind;
+  /** Original error message */
+  message: string;
+}
+
+/** Checked in order: the first matching category wins */
+const PATTERNS: [SyncFailureKind, RegExp][] = [
+  ["git-missing", /spawn git ENOENT|git: (command )?not found|git is not installed/i],
+  ["disk-full", /ENOSPC|No space left on device|Disk quota exceeded|EDQUOT/i],
+  [
+    "lock-held",
+    /is busy: |Unable to create '[^']*\.lock'|index\.lock': File exists|another git process/i,
+  ],
+  [
+    "auth",
+    /Authentication failed|could not read Username|terminal prompts disabled|Permission denied \(publickey|Repository not found|returned error: 40[13]/i,
+  ],
+  [
+    "ref-not-found",
+    /Remote branch .* not found|couldn't find remote ref|did not match any file\(s\) known to git|unknown revision|not a tree|invalid reference|not our ref|no branch is configured|No commit starting with/i,
+  ],
+  [
+    "network",
+    /Could not resolve host|unable to access|Failed to connect|Connection (refused|timed out|reset)|Network is unreachable|Operation timed out|early EOF|remote end hung up|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|EAI_AGAIN/i,
+  ],
+];
+
+/**
+ * Classify an error thrown while syncing a repo
+ */
+export function classifySyncError(error: unknown): SyncFailure {
+  const message = error instanceof Error ? error.message : String(error);
+  const match = PATTERNS.find(([, pattern]) => pattern.test(message));
+  return { kind: match ? match[0] : "unknown", message };
+}
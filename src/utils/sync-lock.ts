@@ -0,0 +1,209 @@
+/**
+ * Cross-process sync lock - every MCP client spawns its own server, and
+ * servers sharing a repos directory must not change it at the same time
+ */
+
+import {
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  utimesSync,
+  writeFileSync,
+} from "fs";
+import { dirname, join } from "path";
+import { hostname } from "os";
+import { REPOS_DIR } from "./git.js";
+
+/**
+ * Lock held while a process changes REPOS_DIR (not to be confused with the
+ * lockfile recording synced commits)
+ */
+export const SYNC_LOCK_PATH = join(dirname(REPOS_DIR), "sync.lock");
+
+/** A lock that has not been refreshed for this long was abandoned */
+export const SYNC_LOCK_STALE_MS = 2 * 60 * 1000;
+
+/** How often the holder refreshes the lock */
+const HEARTBEAT_MS = 30 * 1000;
+
+/** Held by the one process replacing a stale lock */
+const TAKEOVER_PATH = `${SYNC_LOCK_PATH}.takeover`;
+
+/** Replacing a lock takes milliseconds; a guard this old was left by a crash */
+const TAKEOVER_STALE_MS = 10 * 1000;
+
+export interface SyncLockInfo {
+  /** What the holder is doing, e.g. "sync" */
+  operation: string;
+  pid: number;
+  hostname: string;
+  startedAt: string;
+}
+
+function readLock(): { info: SyncLockInfo; updatedAt: number } | null {
+  let updatedAt: number;
+  try {
+    updatedAt = statSync(SYNC_LOCK_PATH).mtimeMs;
+  } catch {
+    return null;
+  }
+  try {
+    const info = JSON.parse(readFileSync(SYNC_LOCK_PATH, "utf-8")) as SyncLockInfo;
+    return { info, updatedAt };
+  } catch {
+    // Being written right now, or cut short; only its age tells if it is stale
+    const startedAt = new Date(updatedAt).toISOString();
+    return { info: { operation: "unknown", pid: 0, hostname: "", startedAt }, updatedAt };
+  }
+}
+
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // The process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * A lock is stale when its holder on this machine has exited, or when it
+ * has not been refreshed (e.g. the holder runs on another machine sharing
+ * the directory and crashed)
+ */
+function isStale(lock: { info: SyncLockInfo; updatedAt: number }): boolean {
+  if (lock.info.hostname === hostname() && !isProcessRunning(lock.info.pid)) {
+    return true;
+  }
+  return Date.now() - lock.updatedAt > SYNC_LOCK_STALE_MS;
+}
+
+/**
+ * Describe who holds a lock
+ */
+export function describeSyncLock(info: SyncLockInfo): string {
+  return `${info.operation} by process ${info.pid} on ${info.hostname} since ${info.startedAt}`;
+}
+
+/**
+ * Get the lock currently held on REPOS_DIR (null if free or stale)
+ */
+export function getSyncLock(): SyncLockInfo | null {
+  const lock = readLock();
+  return lock && !isStale(lock) ? lock.info : null;
+}
+
+function busy(info: SyncLockInfo): Error {
+  return new Error(`${REPOS_DIR} is busy: ${describeSyncLock(info)}`);
+}
+
+function isSameLock(a: SyncLockInfo | undefined, b: SyncLockInfo): boolean {
+  return a?.pid === b.pid && a.hostname === b.hostname && a.startedAt === b.startedAt;
+}
+
+/**
+ * Replace a stale lock with ours. Contenders take turns through a guard
+ * file and check the lock again once they have it, so only the first one
+ * replaces the stale lock; the others find it held.
+ */
+function takeOverLock(info: SyncLockInfo): void {
+  try {
+    if (Date.now() - statSync(TAKEOVER_PATH).mtimeMs > TAKEOVER_STALE_MS) {
+      rmSync(TAKEOVER_PATH, { force: true });
+    }
+  } catch {
+    // No takeover in progress
+  }
+
+  try {
+    writeFileSync(TAKEOVER_PATH, String(process.pid), { flag: "wx" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    throw new Error(`${REPOS_DIR} is busy: another process is taking over its lock`);
+  }
+
+  try {
+    const existing = readLock();
+    if (existing && !isStale(existing)) {
+      throw busy(existing.info);
+    }
+
+    const data = JSON.stringify(info, null, 2);
+    if (existing) {
+      // Written in full elsewhere first, so readers never see half a lock
+      const temp = `${SYNC_LOCK_PATH}.${process.pid}`;
+      writeFileSync(temp, data);
+      renameSync(temp, SYNC_LOCK_PATH);
+    } else {
+      writeFileSync(SYNC_LOCK_PATH, data, { flag: "wx" });
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    throw new Error(`Could not lock ${REPOS_DIR}`);
+  } finally {
+    rmSync(TAKEOVER_PATH, { force: true });
+  }
+
+  const current = readLock();
+  if (!isSameLock(current?.info, info)) {
+    throw current ? busy(current.info) : new Error(`Could not lock ${REPOS_DIR}`);
+  }
+}
+
+/**
+ * Take the lock on REPOS_DIR, replacing a stale one. Throws if another
+ * process (or another operation in this one) holds it. Returns a function
+ * that releases the lock.
+ */
+export function acquireSyncLock(operation: string): () => void {
+  mkdirSync(dirname(SYNC_LOCK_PATH), { recursive: true });
+  const info: SyncLockInfo = {
+    operation,
+    pid: process.pid,
+    hostname: hostname(),
+    startedAt: new Date().toISOString(),
+  };
+
+  try {
+    writeFileSync(SYNC_LOCK_PATH, JSON.stringify(info, null, 2), { flag: "wx" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    takeOverLock(info);
+  }
+
+  const heartbeat = setInterval(() => {
+    try {
+      const now = new Date();
+      utimesSync(SYNC_LOCK_PATH, now, now);
+    } catch {
+      // Refreshed again on the next beat
+    }
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+
+  return () => {
+    clearInterval(heartbeat);
+    // Only remove the lock if it is still ours
+    if (isSameLock(readLock()?.info, info)) {
+      rmSync(SYNC_LOCK_PATH, { force: true });
+    }
+  };
+}
+
+/**
+ * Run fn while holding the lock on REPOS_DIR
+ */
+export async function withSyncLock<T>(
+  operation: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const release = acquireSyncLock(operation);
+  try {
+    return await fn();
+  } finally {
+    release();
+  }
+}
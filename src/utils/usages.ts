@@ -0,0 +1,142 @@
+/**
+ * Usage search - places a Noir symbol is used, found with searchCode and
+ * checked against the parsed source so comments, strings and definitions
+ * don't count
+ */
+
+import { SearchResult, readFile, searchCode } from "./search.js";
+import { stripComments } from "./noir-parser.js";
+
+export interface Usage extends SearchResult {
+  line: number;
+  /** How the symbol is used on this line */
+  kind: "call" | "import" | "reference";
+}
+
+interface ParsedFile {
+  /** Lines with comments and string contents blanked */
+  lines: string[];
+  /** 1-based lines that belong to `use` statements */
+  importLines: Set<number>;
+  code: string;
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Text before a name that declares it rather than uses it */
+const DECLARING = /\b(?:fn|struct|trait|global|type|mod|let(?:\s+mut)?)\s+$/;
+
+function parseFile(source: string): ParsedFile {
+  const { code } = stripComments(source);
+  const importLines = new Set<number>();
+
+  const pattern = /\buse\b[^;]*;/g;
+  let line = 1;
+  let offset = 0;
+  let match;
+  while ((match = pattern.exec(code))) {
+    for (; offset < match.index; offset++) {
+      if (code[offset] === "\n") line++;
+    }
+    const lines = match[0].split("\n").length;
+    for (let i = 0; i < lines; i++) importLines.add(line + i);
+  }
+
+  return { lines: code.split("\n"), importLines, code };
+}
+
+/**
+ * Classify the use of `name` on a line, or return null if every occurrence
+ * is a definition or refers to another symbol of the same name. With a
+ * qualifier (the type or module of the symbol), occurrences under another
+ * path are skipped, and unqualified ones only count in files that mention it.
+ */
+function classifyLine(
+  file: ParsedFile,
+  lineNumber: number,
+  name: string,
+  qualifier: string | undefined
+): Usage["kind"] | null {
+  const line = file.lines[lineNumber - 1] ?? "";
+  const pattern = new RegExp(`\\b${name}\\b`, "g");
+  const mentionsQualifier =
+    qualifier !== undefined && new RegExp(`\\b${qualifier}\\b`).test(file.code);
+
+  let kind: Usage["kind"] | null = null;
+  let match;
+  while ((match = pattern.exec(line))) {
+    const before = line.slice(0, match.index);
+    if (DECLARING.test(before)) continue;
+
+    if (qualifier !== undefined) {
+      const path = before.match(/([A-Za-z_][A-Za-z0-9_]*)\s*::\s*$/)?.[1];
+      const qualified = path === qualifier || (path === "Self" && mentionsQualifier);
+      if (path ? !qualified : !mentionsQualifier) continue;
+    }
+
+    if (file.importLines.has(lineNumber)) return "import";
+    const after = line.slice(match.index + name.length);
+    if (/^\s*(?:::\s*<[^;]*?>\s*)?\(/.test(after)) return "call";
+    kind = "reference";
+  }
+  return kind;
+}
+
+/**
+ * Find where a symbol is used across the searchable repos, e.g. `poseidon2_hash`
+ * or `std::hash::poseidon2::Poseidon2::hash`. Definitions of the name and
+ * mentions in comments or strings are left out. Results are grouped by repo.
+ * `truncated` is set when only some text matches of the name were checked
+ * and fewer than maxResults of them were usages.
+ */
+export async function findUsages(
+  query: string,
+  options: {
+    /** Repo or local source to search (default: all) */
+    repo?: string;
+    /** Version of versioned repos (noir) to search instead of the default */
+    version?: string;
+    maxResults?: number;
+  } = {}
+): Promise<{ usages: Usage[]; truncated: boolean }> {
+  const { repo, version, maxResults = 30 } = options;
+  const parts = query.trim().replace(/^::/, "").split("::");
+  const name = parts.pop()!;
+  const qualifier = parts.pop();
+  if (!IDENTIFIER.test(name) || (qualifier !== undefined && !IDENTIFIER.test(qualifier))) {
+    throw new Error(`'${query}' is not a Noir name or path`);
+  }
+
+  // Most raw matches of common names are filtered out, so fetch plenty
+  const limit = Math.max(200, maxResults * 10);
+  const hits = await searchCode(`\\b${name}\\b`, {
+    filePattern: "*.nr",
+    repo,
+    version,
+    caseSensitive: true,
+    maxResults: limit,
+  });
+
+  const files = new Map<string, ParsedFile | null>();
+  const usages: Usage[] = [];
+  for (const hit of hits) {
+    if (usages.length >= maxResults) break;
+    if (hit.line === undefined) continue;
+
+    if (!files.has(hit.file)) {
+      const source = readFile(hit.file);
+      files.set(hit.file, source === null ? null : parseFile(source));
+    }
+    const file = files.get(hit.file);
+    if (!file) continue;
+
+    const kind = classifyLine(file, hit.line, name, qualifier);
+    if (kind) usages.push({ ...hit, line: hit.line, kind });
+  }
+
+  const repos = [...new Set(usages.map((u) => u.repo))];
+  return {
+    usages: usages.sort((a, b) => repos.indexOf(a.repo) - repos.indexOf(b.repo)),
+    truncated: hits.length >= limit && usages.length < maxResults,
+  };
+}
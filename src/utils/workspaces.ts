@@ -0,0 +1,105 @@
+/**
+ * Local Nargo workspaces searched alongside the cloned repositories.
+ *
+ * Workspaces are never cloned or updated - they are read-only search roots
+ * pointing at the user's own project directories.
+ */
+
+import { existsSync, statSync } from "fs";
+import { basename, delimiter, resolve } from "path";
+import { getRepoNames } from "../repos/config.js";
+
+export interface Workspace {
+  /** Name used as the pseudo-repo in search results and file paths */
+  name: string;
+  /** Absolute path to the workspace root */
+  path: string;
+}
+
+const workspaces = new Map<string, Workspace>();
+
+/**
+ * Parse workspace roots from NOIR_MCP_WORKSPACES (separated like PATH)
+ */
+export function parseWorkspacesEnv(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(delimiter)
+    .map((p) => p.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Get all registered workspaces
+ */
+export function getWorkspaces(): Workspace[] {
+  return [...workspaces.values()];
+}
+
+/**
+ * Get a workspace by name
+ */
+export function getWorkspace(name: string): Workspace | undefined {
+  return workspaces.get(name);
+}
+
+/**
+ * Register a workspace root. The name defaults to the directory name and
+ * gets a numeric suffix if it clashes with a repo or another workspace.
+ */
+export function addWorkspace(path: string, name?: string): Workspace {
+  const fullPath = resolve(path);
+
+  if (!existsSync(fullPath) || !statSync(fullPath).isDirectory()) {
+    throw new Error(`Workspace path does not exist or is not a directory: ${fullPath}`);
+  }
+
+  const existing = getWorkspaces().find((w) => w.path === fullPath);
+  if (existing && (!name || existing.name === name)) {
+    return existing;
+  }
+
+  const isTaken = (candidate: string) =>
+    workspaces.has(candidate) || getRepoNames().includes(candidate);
+
+  let workspaceName: string;
+  if (name) {
+    if (name.includes("/") || name.startsWith(".")) {
+      throw new Error(`'${name}' is not a valid workspace name`);
+    }
+    if (isTaken(name)) {
+      throw new Error(
+        `Workspace name '${name}' is already used by a repo or workspace`
+      );
+    }
+    workspaceName = name;
+  } else {
+    const base = basename(fullPath);
+    workspaceName = base;
+    for (let i = 2; isTaken(workspaceName); i++) {
+      workspaceName = `${base}-${i}`;
+    }
+  }
+
+  const workspace = { name: workspaceName, path: fullPath };
+  workspaces.set(workspaceName, workspace);
+  return workspace;
+}
+
+/**
+ * Remove all registered workspaces (used by tests)
+ */
+export function clearWorkspaces(): void {
+  workspaces.clear();
+}
+
+// Register workspaces from the environment on startup
+for (const path of parseWorkspacesEnv(process.env.NOIR_MCP_WORKSPACES)) {
+  try {
+    addWorkspace(path);
+  } catch (error) {
+    console.error(
+      `Skipping workspace: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
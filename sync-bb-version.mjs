@@ -2,12 +2,14 @@
 
 /**
  * Syncs DEFAULT_BB_VERSION in src/repos/config.ts to match DEFAULT_NOIR_VERSION
- * using the bb-versions.json mapping from aztec-packages.
+ * using the bb-versions.json mapping from aztec-packages, and refreshes the
+ * bundled copy of the mapping in src/repos/bb-versions.ts.
  */
 
 import { readFileSync, writeFileSync } from "fs";
 
 const CONFIG_PATH = "src/repos/config.ts";
+const BUNDLED_PATH = "src/repos/bb-versions.ts";
 const BB_VERSIONS_URL =
   "https://raw.githubusercontent.com/AztecProtocol/aztec-packages/refs/heads/next/barretenberg/bbup/bb-versions.json";
 
@@ -36,6 +38,26 @@ if (!res.ok) {
 }
 const bbVersions = await res.json();
 
+// 3b. Refresh the bundled mapping used for non-default Noir versions
+const bundled = readFileSync(BUNDLED_PATH, "utf-8");
+const bundledPattern =
+  /(export const BUNDLED_BB_VERSIONS: Record<string, string> = )\{[\s\S]*?\n\};/;
+if (!bundledPattern.test(bundled)) {
+  console.error(`Could not find BUNDLED_BB_VERSIONS in ${BUNDLED_PATH}`);
+  process.exit(1);
+}
+const entries = Object.entries(bbVersions)
+  .filter(([, bb]) => typeof bb === "string")
+  .map(([noir, bb]) => `  ${JSON.stringify(noir)}: ${JSON.stringify(bb)},`);
+const updatedBundled = bundled.replace(
+  bundledPattern,
+  (_, prefix) => `${prefix}{\n${entries.join("\n")}\n};`
+);
+if (updatedBundled !== bundled) {
+  writeFileSync(BUNDLED_PATH, updatedBundled);
+  console.log(`Updated ${BUNDLED_PATH} with ${entries.length} mappings`);
+}
+
 // 4. Look up the corresponding bb version
 const bbVersion = bbVersions[noirKey];
 if (!bbVersion) {
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../src/tools/index.js", () => ({
+  exportSnapshot: vi.fn(async ({ path }: { path: string }) => ({
+    success: true,
+    archive: path,
+    repos: [],
+    message: `Exported 0 repositories to ${path}`,
+  })),
+  importSnapshot: vi.fn(async ({ path }: { path: string }) => ({
+    success: false,
+    archive: path,
+    repos: [],
+    message: "Snapshot contains Noir v0.36.0",
+  })),
+}));
+
+const { exportSnapshot, importSnapshot } = await import("../src/tools/index.js");
+const { runCli } = await import("../src/cli.js");
+
+describe("runCli()", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("returns null when no command is given", async () => {
+    expect(await runCli([])).toBeNull();
+    expect(await runCli(["--stdio"])).toBeNull();
+  });
+
+  it("exports a snapshot", async () => {
+    expect(await runCli(["export", "out.tar.gz"])).toBe(0);
+    expect(exportSnapshot).toHaveBeenCalledWith({ path: "out.tar.gz" });
+  });
+
+  it("passes --force to import and fails on errors", async () => {
+    expect(await runCli(["import", "--force", "in.tar.gz"])).toBe(1);
+    expect(importSnapshot).toHaveBeenCalledWith({ path: "in.tar.gz", force: true });
+  });
+
+  it("prints usage without an archive path", async () => {
+    expect(await runCli(["import"])).toBe(2);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining("Usage:"));
+  });
+});
@@ -1,12 +1,22 @@
 import { describe, it, expect } from "vitest";
 import {
   formatSyncResult,
+  formatSyncPlan,
   formatStatus,
   formatSearchResults,
+  formatSymbolResults,
+  formatUsageResults,
   formatExamplesList,
   formatExampleContent,
   formatFileContent,
   formatLibrariesList,
+  formatWorkspaceResult,
+  formatCompatResult,
+  formatSnapshotResult,
+  formatSyncJob,
+  formatSyncStatus,
+  formatRemoveResult,
+  formatCompactResult,
 } from "../src/formatting.js";
 
 describe("formatSyncResult()", () => {
@@ -16,8 +26,8 @@ describe("formatSyncResult()", () => {
       version: "v1.0.0",
       message: "Successfully synced 2 repositories to /tmp/repos",
       repos: [
-        { name: "noir", status: "Cloned noir @ v1.0.0 (tag)" },
-        { name: "noir-examples", status: "Updated noir-examples" },
+        { name: "noir", status: "cloned", message: "Cloned noir @ v1.0.0 (tag)" },
+        { name: "noir-examples", status: "updated", message: "Updated noir-examples" },
       ],
     });
 
@@ -27,14 +37,44 @@ describe("formatSyncResult()", () => {
     expect(result).toContain("✓ noir-examples:");
   });
 
+  it("shows the old and new commit of updated repos", () => {
+    const result = formatSyncResult({
+      success: true,
+      version: "v1.0.0",
+      message: "Successfully synced 2 repositories to /tmp/repos",
+      repos: [
+        {
+          name: "noir-examples",
+          status: "updated",
+          message: "Updated noir-examples on master",
+          commit: { before: "abc1234", after: "def5678" },
+        },
+        {
+          name: "noir-bignum",
+          status: "unchanged",
+          message: "noir-bignum is up to date on main",
+          commit: { before: "1111111", after: "1111111" },
+        },
+      ],
+    });
+
+    expect(result).toContain("Updated noir-examples on master (abc1234 → def5678)");
+    expect(result).toContain("noir-bignum is up to date on main (1111111)");
+  });
+
   it("shows warning on errors", () => {
     const result = formatSyncResult({
       success: false,
       version: "v1.0.0",
       message: "Some repositories failed to sync",
       repos: [
-        { name: "noir", status: "Cloned noir @ v1.0.0 (tag)" },
-        { name: "noir-examples", status: "Error: network failure" },
+        { name: "noir", status: "cloned", message: "Cloned noir @ v1.0.0 (tag)" },
+        {
+          name: "noir-examples",
+          status: "failed",
+          message: "network failure",
+          failure: { kind: "unknown", message: "network failure" },
+        },
       ],
     });
 
@@ -43,6 +83,61 @@ describe("formatSyncResult()", () => {
     expect(result).toContain("✗ noir-examples:");
   });
 
+  it("marks skipped repos", () => {
+    const result = formatSyncResult({
+      success: true,
+      version: "v0.0.1",
+      message: "Successfully synced 1 repositories to /tmp/repos",
+      repos: [{ name: "bb.js", status: "skipped", message: "Skipped: No bb.js version is known" }],
+    });
+
+    expect(result).toContain("○ bb.js: Skipped");
+  });
+
+  it("prints one remediation hint per failure kind", () => {
+    const result = formatSyncResult({
+      success: false,
+      version: "v1.0.0",
+      message: "Some repositories failed to sync",
+      repos: [
+        {
+          name: "noir",
+          status: "failed",
+          message: "Could not resolve host: github.com",
+          failure: { kind: "network", message: "Could not resolve host: github.com" },
+        },
+        {
+          name: "noir-bignum",
+          status: "failed",
+          message: "Could not resolve host: github.com",
+          failure: { kind: "network", message: "Could not resolve host: github.com" },
+        },
+        {
+          name: "noir_json_parser",
+          status: "failed",
+          message: "couldn't find remote ref v9",
+          failure: { kind: "ref-not-found", message: "couldn't find remote ref v9" },
+        },
+      ],
+    });
+
+    expect(result).toContain("How to fix:");
+    expect(result).toContain("network (noir, noir-bignum): Check the network connection");
+    expect(result).toContain("ref-not-found (noir_json_parser): Check that the requested branch");
+  });
+
+  it("explains why a sync could not start", () => {
+    const result = formatSyncResult({
+      success: false,
+      version: "v1.0.0",
+      message: "/tmp/repos is busy: sync by process 42",
+      repos: [],
+      failure: { kind: "lock-held", message: "/tmp/repos is busy: sync by process 42" },
+    });
+
+    expect(result).toContain("Fix: Another noir-mcp server or git process");
+  });
+
   it("handles empty repos list", () => {
     const result = formatSyncResult({
       success: true,
@@ -56,7 +151,110 @@ describe("formatSyncResult()", () => {
   });
 });
 
+describe("formatSyncPlan()", () => {
+  it("lists the planned action and reason per repo", () => {
+    const result = formatSyncPlan({
+      success: true,
+      version: "v1.0.0",
+      message: "Dry run: 1 to clone, 0 to re-clone, 1 to update, 0 unchanged, 1 skipped",
+      repos: [],
+      plan: [
+        { name: "noir", action: "clone", reason: "not cloned, will check out v1.0.0" },
+        { name: "noir-examples", action: "update", reason: "fetch latest master" },
+        { name: "bb.js", action: "skip", reason: "no bb version for v1.0.0" },
+      ],
+    });
+    expect(result).toContain("Sync plan (dry run, nothing was changed)");
+    expect(result).toContain("+ noir: clone - not cloned, will check out v1.0.0");
+    expect(result).toContain("↑ noir-examples: update - fetch latest master");
+    expect(result).toContain("○ bb.js: skip - no bb version for v1.0.0");
+  });
+});
+
 describe("formatStatus()", () => {
+  it("lists the checked-out paths of sparse clones", () => {
+    const result = formatStatus({
+      reposDir: "/tmp/repos",
+      repos: [
+        {
+          name: "noir",
+          description: "Noir compiler",
+          category: "core",
+          cloned: true,
+          sparse: ["docs", "noir_stdlib", "compiler/noirc_frontend"],
+        },
+      ],
+    });
+
+    expect(result).toContain("Sparse: docs, noir_stdlib, compiler/noirc_frontend");
+  });
+
+  it("reports user config that was ignored on startup", () => {
+    const result = formatStatus({
+      reposDir: "/tmp/repos",
+      repos: [],
+      configErrors: ["Invalid repo config in /tmp/repos.json: bad JSON"],
+    });
+
+    expect(result).toContain("⚠ Config ignored: Invalid repo config in /tmp/repos.json: bad JSON");
+  });
+
+  it("shows disk usage per repo and in total", () => {
+    const result = formatStatus({
+      reposDir: "/tmp/repos",
+      diskUsage: 3 * 1024 * 1024,
+      repos: [
+        {
+          name: "bb.js",
+          description: "Barretenberg",
+          category: "core",
+          cloned: true,
+          diskUsage: 1536 * 1024,
+        },
+      ],
+    });
+
+    expect(result).toContain("Disk usage: 3.0 MB");
+    expect(result).toContain("Disk: 1.5 MB");
+  });
+
+  it("shows an operation holding the repos directory", () => {
+    const result = formatStatus({
+      reposDir: "/tmp/repos",
+      repos: [],
+      syncLock: {
+        operation: "sync",
+        pid: 42,
+        hostname: "laptop",
+        startedAt: "2026-01-01T00:00:00.000Z",
+      },
+    });
+
+    expect(result).toContain(
+      "⏳ In progress: sync by process 42 on laptop since 2026-01-01T00:00:00.000Z"
+    );
+  });
+
+  it("flags broken checkouts with the repair hint", () => {
+    const result = formatStatus({
+      reposDir: "/tmp/repos",
+      repos: [
+        {
+          name: "noir-examples",
+          description: "Examples",
+          category: "core",
+          cloned: false,
+          broken: "no commit is checked out",
+        },
+      ],
+    });
+
+    expect(result).toContain("✗ noir-examples");
+    expect(result).toContain(
+      "Broken: no commit is checked out (run noir_sync_repos with repair: true)"
+    );
+  });
+
   it("groups repos by category", () => {
     const result = formatStatus({
       reposDir: "/tmp/repos",
@@ -117,6 +315,120 @@ describe("formatStatus()", () => {
 
     expect(result).not.toContain("No repositories cloned");
   });
+
+  it("shows the checked-out ref and flags mismatches", () => {
+    const result = formatStatus({
+      reposDir: "/tmp/repos",
+      repos: [
+        {
+          name: "noir",
+          description: "Noir compiler",
+          category: "core",
+          cloned: true,
+          commit: "abc1234",
+          requestedRef: "v1.0.0",
+          ref: "v1.0.0",
+          url: "file:///srv/mirror/noir-lang/noir",
+        },
+        {
+          name: "noir-bignum",
+          description: "Big integers",
+          category: "libraries",
+          cloned: true,
+          commit: "def5678",
+          requestedRef: "v0.7.0",
+          ref: "main",
+        },
+      ],
+    });
+
+    expect(result).toContain("Ref: v1.0.0\n");
+    expect(result).toContain("Ref: main ⚠ requested v0.7.0");
+    expect(result).toContain("URL: file:///srv/mirror/noir-lang/noir");
+  });
+
+  it("lists installed versions and marks the default", () => {
+    const result = formatStatus({
+      reposDir: "/tmp/repos",
+      repos: [
+        {
+          name: "noir",
+          description: "Noir compiler",
+          category: "core",
+          cloned: true,
+          commit: "abc1234",
+          versions: ["v1.0.0-beta.19", "v1.0.0-beta.3"],
+          defaultVersion: "v1.0.0-beta.19",
+        },
+      ],
+    });
+
+    expect(result).toContain(
+      "Versions: v1.0.0-beta.19 (default), v1.0.0-beta.3"
+    );
+  });
+
+  it("lists workspaces", () => {
+    const result = formatStatus({
+      reposDir: "/tmp/repos",
+      repos: [],
+      workspaces: [{ name: "my-app", path: "/home/me/my-app" }],
+    });
+
+    expect(result).toContain("Workspaces:");
+    expect(result).toContain("✓ my-app: /home/me/my-app");
+    expect(result).not.toContain("No repositories cloned");
+  });
+
+  it("lists drift from the lockfile", () => {
+    const result = formatStatus({
+      reposDir: "/tmp/repos",
+      repos: [],
+      lockfile: {
+        path: "/tmp/repos.lock.json",
+        drift: [
+          { name: "noir-bignum", issue: "commit", expected: "b".repeat(40), actual: "a".repeat(40) },
+          { name: "noir", version: "v1.0.0", issue: "missing", expected: "c".repeat(40) },
+          { name: "noir_sort", issue: "unlocked", actual: "d".repeat(40) },
+        ],
+      },
+    });
+
+    expect(result).toContain("Lockfile: /tmp/repos.lock.json");
+    expect(result).toContain("noir-bignum: at aaaaaaa, locked at bbbbbbb");
+    expect(result).toContain("noir@v1.0.0: not cloned (locked at ccccccc)");
+    expect(result).toContain("noir_sort: cloned but not in lockfile");
+  });
+
+  it("confirms clones match the lockfile", () => {
+    const result = formatStatus({
+      reposDir: "/tmp/repos",
+      repos: [],
+      lockfile: { path: "/tmp/repos.lock.json", drift: [] },
+    });
+
+    expect(result).toContain("✓ Clones match the lockfile");
+  });
+
+  it("shows the Noir version and library compatibility", () => {
+    const result = formatStatus({
+      reposDir: "/tmp/repos",
+      noirVersion: "v1.0.0-beta.18",
+      repos: [
+        {
+          name: "noir-bignum",
+          description: "Bignum",
+          category: "libraries",
+          cloned: true,
+          compilerVersion: ">=1.0.0",
+          compatible: false,
+        },
+      ],
+    });
+
+    expect(result).toContain("Noir version: v1.0.0-beta.18");
+    expect(result).toContain("Compat: compiler_version >=1.0.0 ✗ incompatible");
+  });
 });
 
 describe("formatSearchResults()", () => {
@@ -134,6 +446,43 @@ describe("formatSearchResults()", () => {
     expect(result).toContain("fn main() {}");
   });
 
+  it("merges matches with overlapping context into one snippet", () => {
+    const result = formatSearchResults({
+      success: true,
+      message: "Found 3 matches",
+      results: [
+        {
+          file: "noir/src/lib.nr",
+          line: 9,
+          content: "let a = hash(x);",
+          repo: "noir",
+          scope: "fn digest",
+          context: { startLine: 8, lines: ["fn digest() {", "    let a = hash(x);", "    let b = hash(a);"] },
+        },
+        {
+          file: "noir/src/lib.nr",
+          line: 10,
+          content: "let b = hash(a);",
+          repo: "noir",
+          scope: "fn digest",
+          context: { startLine: 9, lines: ["    let a = hash(x);", "    let b = hash(a);", "    b"] },
+        },
+        {
+          file: "noir/src/lib.nr",
+          line: 30,
+          content: "hash(y)",
+          repo: "noir",
+          context: { startLine: 29, lines: ["", "    hash(y)", "}"] },
+        },
+      ],
+    });
+
+    expect(result).toContain(
+      "**noir/src/lib.nr:9, 10** (fn digest)\n```\n 8- fn digest() {\n 9:     let a = hash(x);\n10:     let b = hash(a);\n11-     b\n```"
+    );
+    expect(result).toContain("**noir/src/lib.nr:30**\n```\n29-\n30:     hash(y)\n31- }\n```");
+  });
+
   it("handles empty results", () => {
     const result = formatSearchResults({
       success: true,
@@ -154,6 +503,61 @@ describe("formatSearchResults()", () => {
 
     expect(result).toContain("No repositories are cloned.");
   });
+
+  it("shows a warning before the results", () => {
+    const result = formatSearchResults({
+      success: true,
+      message: "Found 0 matches",
+      results: [],
+      warning: "Repositories are being changed; results may be incomplete.",
+    });
+    expect(result).toContain("⚠ Repositories are being changed; results may be incomplete.");
+  });
+});
+
+describe("formatSymbolResults()", () => {
+  it("shows each definition with its location, doc comment and signature", () => {
+    const result = formatSymbolResults({
+      success: true,
+      message: "Found 1 definitions matching 'BigNum::new'",
+      symbols: [
+        {
+          name: "new",
+          kind: "fn",
+          line: 12,
+          visibility: "pub",
+          signature: "pub fn new() -> Self",
+          doc: "Create a zero BigNum.",
+          container: "BigNum",
+          file: "noir-bignum/src/bignum.nr",
+          repo: "noir-bignum",
+          match: "exact",
+        },
+      ],
+    });
+
+    expect(result).toContain(
+      "**BigNum::new** (fn, exact match) - noir-bignum/src/bignum.nr:12"
+    );
+    expect(result).toContain("/// Create a zero BigNum.\npub fn new() -> Self");
+  });
+});
+
+describe("formatUsageResults()", () => {
+  it("groups usages by repo", () => {
+    const result = formatUsageResults({
+      success: true,
+      message: "Found 2 usages of 'hash' in 1 repos",
+      usages: [
+        { file: "noir-examples/a/src/main.nr", line: 3, content: "let h = hash(x);", repo: "noir-examples", kind: "call" },
+        { file: "noir-examples/b/src/main.nr", line: 1, content: "use std::hash;", repo: "noir-examples", kind: "import" },
+      ],
+    });
+
+    expect(result).toContain("**noir-examples** (2):");
+    expect(result).toContain("  - noir-examples/a/src/main.nr:3 [call]\n    `let h = hash(x);`");
+    expect(result).toContain("  - noir-examples/b/src/main.nr:1 [import]");
+  });
 });
 
 describe("formatExamplesList()", () => {
@@ -277,6 +681,48 @@ describe("formatLibrariesList()", () => {
     );
   });
 
+  it("labels cached nargo dependencies with their tag", () => {
+    const result = formatLibrariesList({
+      success: true,
+      libraries: [
+        {
+          name: "nargo:noir-bignum@v0.7.0",
+          description: "Cached nargo dependency noir-lang/noir-bignum @ v0.7.0",
+          category: "libraries",
+          url: "https://github.com/noir-lang/noir-bignum",
+          cloned: true,
+          source: "nargo-cache",
+          tag: "v0.7.0",
+        },
+      ],
+      message: "Found 1 library/reference repos",
+    });
+
+    expect(result).toContain("**nargo:noir-bignum@v0.7.0** [✓ nargo cache @ v0.7.0]");
+  });
+
+  it("flags compatibility with the Noir version", () => {
+    const result = formatLibrariesList({
+      success: true,
+      noirVersion: "v1.0.0-beta.18",
+      libraries: [
+        {
+          name: "noir-bignum",
+          description: "Big integer arithmetic",
+          category: "libraries",
+          url: "https://github.com/noir-lang/noir-bignum",
+          cloned: true,
+          compilerVersion: ">=1.0.0-beta.3",
+          compatible: true,
+        },
+      ],
+      message: "Found 1 library/reference repos",
+    });
+
+    expect(result).toContain("Compatibility checked against Noir v1.0.0-beta.18");
+    expect(result).toContain("compiler_version >=1.0.0-beta.3 ✓ compatible");
+  });
+
   it("handles empty libraries", () => {
     const result = formatLibrariesList({
       success: true,
@@ -288,3 +734,191 @@ describe("formatLibrariesList()", () => {
     expect(result).not.toContain("**libraries:**");
   });
 });
+
+describe("formatWorkspaceResult()", () => {
+  it("lists registered workspaces on success", () => {
+    const result = formatWorkspaceResult({
+      success: true,
+      workspaces: [{ name: "my-app", path: "/home/me/my-app" }],
+      message: "Added workspace 'my-app' (/home/me/my-app)",
+    });
+
+    expect(result).toContain("✓ Added workspace 'my-app'");
+    expect(result).toContain("my-app: /home/me/my-app");
+  });
+
+  it("shows the error on failure", () => {
+    const result = formatWorkspaceResult({
+      success: false,
+      workspaces: [],
+      message: "Workspace path does not exist",
+    });
+
+    expect(result).toContain("✗ Workspace path does not exist");
+    expect(result).not.toContain("Workspaces:");
+  });
+});
+
+describe("formatCompatResult()", () => {
+  it("lists compatible and incompatible tags", () => {
+    const result = formatCompatResult({
+      success: true,
+      version: "v1.0.0-beta.5",
+      message: "Checked 2 libraries against Noir v1.0.0-beta.5",
+      libraries: [
+        {
+          name: "noir-bignum",
+          compilerVersion: ">=1.0.0-beta.3",
+          compatible: true,
+          compatibleTags: [{ tag: "v0.7.0", compilerVersion: ">=1.0.0-beta.3" }],
+          incompatibleTags: [{ tag: "v0.5.0", compilerVersion: "<1.0.0" }],
+          unknownTags: ["v0.1.0"],
+        },
+        {
+          name: "noir_sort",
+          compatibleTags: [],
+          incompatibleTags: [],
+          unknownTags: [],
+        },
+      ],
+    });
+
+    expect(result).toContain("✓ Checked 2 libraries");
+    expect(result).toContain("✓ v0.7.0 (>=1.0.0-beta.3)");
+    expect(result).toContain("Incompatible tags: v0.5.0");
+    expect(result).toContain("Tags without compiler_version: v0.1.0");
+    expect(result).toContain("Checked out: no compiler_version");
+    expect(result).toContain("git fetch --tags");
+  });
+});
+
+describe("formatSnapshotResult()", () => {
+  it("lists the repos in the archive", () => {
+    const result = formatSnapshotResult({
+      success: true,
+      archive: "out.tar.gz",
+      noirVersion: "v1.0.0",
+      repos: [
+        { name: "noir", version: "v1.0.0", commit: "a".repeat(40) },
+        { name: "noir-examples", commit: "b".repeat(40) },
+      ],
+      message: "Exported 2 repositories to out.tar.gz",
+    });
+
+    expect(result).toContain("✓ Exported 2 repositories");
+    expect(result).toContain("Noir version: v1.0.0");
+    expect(result).toContain("✓ noir@v1.0.0 (aaaaaaa)");
+    expect(result).toContain("✓ noir-examples (bbbbbbb)");
+  });
+
+  it("shows the error on failure", () => {
+    const result = formatSnapshotResult({
+      success: false,
+      archive: "in.tar.gz",
+      repos: [],
+      message: "Snapshot archive not found: in.tar.gz",
+    });
+
+    expect(result).toBe("✗ Snapshot archive not found: in.tar.gz");
+  });
+});
+
+describe("formatSyncJob()", () => {
+  it("shows progress of a running job", () => {
+    const result = formatSyncJob({
+      id: "sync-1",
+      status: "running",
+      startedAt: "2026-01-01T00:00:00.000Z",
+      progress: { repo: "bb.js", completed: 1, total: 3, phase: "receiving", percent: 45 },
+    });
+
+    expect(result).toContain("Started sync job sync-1");
+    expect(result).toContain("Progress: bb.js (2/3): receiving 45%");
+    expect(result).toContain('noir_sync_status with jobId "sync-1"');
+  });
+
+  it("points at an already running job", () => {
+    const result = formatSyncJob(
+      { id: "sync-1", status: "running", startedAt: "2026-01-01T00:00:00.000Z" },
+      false
+    );
+
+    expect(result).toContain("A sync is already running: job sync-1");
+  });
+
+  it("shows the sync result of a completed job", () => {
+    const result = formatSyncJob({
+      id: "sync-1",
+      status: "completed",
+      startedAt: "2026-01-01T00:00:00.000Z",
+      result: {
+        success: true,
+        version: "v1.0.0",
+        message: "Successfully synced 1 repositories to /tmp/repos",
+        repos: [{ name: "noir", status: "cloned", message: "Cloned noir" }],
+      },
+    });
+
+    expect(result).toContain("Sync job sync-1 completed");
+    expect(result).toContain("✓ noir: Cloned noir");
+  });
+});
+
+describe("formatSyncStatus()", () => {
+  it("summarises several jobs", () => {
+    const result = formatSyncStatus({
+      success: true,
+      message: "2 sync jobs",
+      jobs: [
+        { id: "sync-2", status: "failed", startedAt: "t2", error: "disk full" },
+        {
+          id: "sync-1",
+          status: "completed",
+          startedAt: "t1",
+          result: { success: true, version: "v1", message: "Synced", repos: [] },
+        },
+      ],
+    });
+
+    expect(result).toContain("sync-2: failed (started t2) - disk full");
+    expect(result).toContain("sync-1: completed (started t1) - Synced");
+  });
+
+  it("shows the error for unknown jobs", () => {
+    expect(
+      formatSyncStatus({ success: false, jobs: [], message: "Unknown sync job: x" })
+    ).toBe("✗ Unknown sync job: x");
+  });
+});
+
+describe("formatRemoveResult()", () => {
+  it("lists removed directories and freed space", () => {
+    const result = formatRemoveResult({
+      success: true,
+      removed: [{ name: "bb.js", dirs: ["bb.js"], size: 2048 }],
+      freed: 2048,
+      message: "Removed 1 repositories",
+    });
+
+    expect(result).toContain("✓ Removed 1 repositories");
+    expect(result).toContain("  - bb.js (2.0 KB)");
+    expect(result).toContain("Freed 2.0 KB");
+  });
+});
+
+describe("formatCompactResult()", () => {
+  it("shows sizes before and after, and failures", () => {
+    const result = formatCompactResult({
+      success: false,
+      repos: [
+        { dir: "noir-examples", sizeBefore: 2048, sizeAfter: 1024 },
+        { dir: "bb.js", sizeBefore: 512, sizeAfter: 512, error: "gc failed" },
+      ],
+      message: "1 of 2 clones could not be compacted",
+    });
+
+    expect(result).toContain("⚠ 1 of 2 clones could not be compacted");
+    expect(result).toContain("✓ noir-examples: 2.0 KB → 1.0 KB");
+    expect(result).toContain("✗ bb.js: gc failed");
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  BUNDLED_BB_VERSIONS,
+  loadBbVersions,
+  resolveBbVersion,
+  noBbVersionMessage,
+} from "../../src/repos/bb-versions.js";
+
+describe("repos/bb-versions", () => {
+  let dir: string | undefined;
+
+  const writeMapping = (content: string) => {
+    dir = mkdtempSync(join(tmpdir(), "noir-mcp-bb-"));
+    const path = join(dir, "bb-versions.json");
+    writeFileSync(path, content);
+    return path;
+  };
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  describe("loadBbVersions()", () => {
+    it("uses the bundled copy without a checkout", () => {
+      expect(loadBbVersions()).toBe(BUNDLED_BB_VERSIONS);
+      expect(loadBbVersions("/nonexistent/bb-versions.json")).toBe(BUNDLED_BB_VERSIONS);
+    });
+
+    it("merges the checkout over the bundled copy", () => {
+      const path = writeMapping(JSON.stringify({ "1.0.0-beta.3": "0.82.2" }));
+
+      const mapping = loadBbVersions(path);
+      expect(mapping["1.0.0-beta.3"]).toBe("0.82.2");
+      for (const [noir, bb] of Object.entries(BUNDLED_BB_VERSIONS)) {
+        expect(mapping[noir]).toBe(bb);
+      }
+    });
+
+    it("falls back to the bundled copy on invalid JSON", () => {
+      expect(loadBbVersions(writeMapping("{ nope"))).toBe(BUNDLED_BB_VERSIONS);
+    });
+  });
+
+  describe("resolveBbVersion()", () => {
+    it("maps Noir tags to bb tags", () => {
+      const mapping = { "1.0.0-beta.3": "0.82.2" };
+      expect(resolveBbVersion("v1.0.0-beta.3", mapping)).toBe("v0.82.2");
+      expect(resolveBbVersion("1.0.0-beta.3", mapping)).toBe("v0.82.2");
+    });
+
+    it("returns undefined for unknown versions", () => {
+      expect(resolveBbVersion("v0.0.1", {})).toBeUndefined();
+    });
+  });
+
+  it("explains how to pick a bb.js version", () => {
+    expect(noBbVersionMessage("v0.0.1")).toContain('refs: { "bb.js": "<tag>" }');
+  });
+});
@@ -1,14 +1,25 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
 import {
   getNoirRepos,
   getReposByCategory,
   getCategoryNames,
   getRepoConfig,
   getRepoNames,
+  loadUserRepos,
+  mergeRepos,
+  isCommitRef,
+  validateRepoConfig,
+  loadUrlRewrites,
+  parseUrlRewritesEnv,
+  rewriteUrl,
   NOIR_REPOS,
   DEFAULT_NOIR_VERSION,
   DEFAULT_BB_VERSION,
 } from "../../src/repos/config.js";
+import { BUNDLED_BB_VERSIONS } from "../../src/repos/bb-versions.js";
 
 describe("repos/config", () => {
   describe("BASE_REPOS via NOIR_REPOS", () => {
@@ -67,8 +78,44 @@ describe("repos/config", () => {
       const noir = repos.find((r) => r.name === "noir");
       expect(noir?.tag).toBe(customVersion);
 
-      const bb = repos.find((r) => r.name === "bb.js");
-      expect(bb?.tag).toBe(DEFAULT_BB_VERSION);
+      const others = repos.filter((r) => r.name !== "noir" && r.name !== "bb.js");
+      for (const repo of others) {
+        expect(repo.tag).toBeUndefined();
+      }
+    });
+
+    it("picks the bb.js tag matching the requested Noir version", () => {
+      const [noirVersion, bbVersion] = Object.entries(BUNDLED_BB_VERSIONS)[0];
+      const bb = getNoirRepos(`v${noirVersion}`).find((r) => r.name === "bb.js");
+      expect(bb?.tag).toBe(`v${bbVersion}`);
+    });
+
+    it("leaves bb.js untagged when no mapping exists", () => {
+      const bb = getNoirRepos("v0.0.1-unknown").find((r) => r.name === "bb.js");
+      expect(bb?.tag).toBeUndefined();
+    });
+
+    it("pins repos to tags from the refs map", () => {
+      const repos = getNoirRepos(undefined, { "noir-bignum": "v0.7.0" });
+      const bignum = repos.find((r) => r.name === "noir-bignum");
+      expect(bignum?.tag).toBe("v0.7.0");
+      expect(bignum?.commit).toBeUndefined();
+      expect(bignum?.branch).toBe("main");
+
+      const noir = repos.find((r) => r.name === "noir");
+      expect(noir?.tag).toBe(DEFAULT_NOIR_VERSION);
+    });
+
+    it("pins repos to commits when the ref is a hash", () => {
+      const repos = getNoirRepos(undefined, { noir_sort: "abc1234def" });
+      const sort = repos.find((r) => r.name === "noir_sort");
+      expect(sort?.commit).toBe("abc1234def");
+      expect(sort?.tag).toBeUndefined();
+    });
+
+    it("lets refs override the noir version", () => {
+      const repos = getNoirRepos("v1.0.0", { noir: "v0.36.0" });
+      expect(repos.find((r) => r.name === "noir")?.tag).toBe("v0.36.0");
     });
 
     it("preserves other repo fields", () => {
@@ -81,6 +128,19 @@ describe("repos/config", () => {
     });
   });
 
+  describe("isCommitRef()", () => {
+    it("detects commit hashes", () => {
+      expect(isCommitRef("abc1234")).toBe(true);
+      expect(isCommitRef("0123456789abcdef0123456789abcdef01234567")).toBe(true);
+    });
+
+    it("treats everything else as a tag", () => {
+      expect(isCommitRef("v0.7.0")).toBe(false);
+      expect(isCommitRef("abc12")).toBe(false);
+      expect(isCommitRef("deadbeefx")).toBe(false);
+    });
+  });
+
   describe("getReposByCategory()", () => {
     it("filters core repos", () => {
       const core = getReposByCategory("core");
@@ -134,4 +194,245 @@ describe("repos/config", () => {
       expect(names).toContain("noir-bignum");
     });
   });
+
+  describe("validateRepoConfig()", () => {
+    it("accepts a complete entry", () => {
+      const repo = validateRepoConfig(
+        {
+          name: "my-lib",
+          url: "https://example.com/my-lib",
+          description: "Mine",
+          category: "internal",
+          sparse: ["src"],
+        },
+        "test.json"
+      );
+      expect(repo.name).toBe("my-lib");
+    });
+
+    it("requires url, description and category for new repos", () => {
+      expect(() =>
+        validateRepoConfig({ name: "my-lib", url: "https://x" }, "test.json")
+      ).toThrow("missing required field 'description'");
+    });
+
+    it("only requires a name for overrides", () => {
+      expect(
+        validateRepoConfig({ name: "noir-bignum", branch: "dev" }, "test.json", true)
+      ).toEqual({ name: "noir-bignum", branch: "dev" });
+    });
+
+    it("rejects invalid field types", () => {
+      expect(() =>
+        validateRepoConfig({ name: "noir", sparse: "docs" }, "test.json", true)
+      ).toThrow("'noir.sparse' must be an array of strings");
+      expect(() =>
+        validateRepoConfig({ name: "../escape" }, "test.json", true)
+      ).toThrow("not a valid directory name");
+    });
+
+    it("rejects names containing '@', which marks versioned directories", () => {
+      expect(() =>
+        validateRepoConfig({ name: "noir@v1.0.0" }, "test.json", true)
+      ).toThrow("'noir@v1.0.0' must not contain '@'");
+    });
+  });
+
+  describe("loadUserRepos()", () => {
+    let dir: string | undefined;
+
+    const writeConfig = (content: string) => {
+      dir = mkdtempSync(join(tmpdir(), "noir-mcp-config-"));
+      const path = join(dir, "repos.json");
+      writeFileSync(path, content);
+      return path;
+    };
+
+    afterEach(() => {
+      if (dir) rmSync(dir, { recursive: true, force: true });
+      dir = undefined;
+    });
+
+    it("returns an empty list when the file does not exist", () => {
+      expect(loadUserRepos("/nonexistent/repos.json")).toEqual([]);
+    });
+
+    it("loads valid entries", () => {
+      const path = writeConfig(
+        JSON.stringify({
+          repos: [
+            { name: "noir-bignum", branch: "dev" },
+            {
+              name: "my-lib",
+              url: "https://example.com/my-lib",
+              description: "Mine",
+              category: "internal",
+            },
+          ],
+        })
+      );
+
+      const repos = loadUserRepos(path);
+      expect(repos.map((r) => r.name)).toEqual(["noir-bignum", "my-lib"]);
+    });
+
+    it("throws on malformed JSON", () => {
+      const path = writeConfig("{ not json");
+      expect(() => loadUserRepos(path)).toThrow("Invalid repo config");
+    });
+
+    it("allows a config with only URL rewrites", () => {
+      const path = writeConfig(JSON.stringify({ urlRewrites: {} }));
+      expect(loadUserRepos(path)).toEqual([]);
+    });
+
+    it("throws when the repos array is missing", () => {
+      const path = writeConfig(JSON.stringify([{ name: "x" }]));
+      expect(() => loadUserRepos(path)).toThrow("expected a 'repos' array");
+    });
+
+    it("throws on duplicate entries", () => {
+      const path = writeConfig(
+        JSON.stringify({
+          repos: [{ name: "noir-bignum" }, { name: "noir-bignum" }],
+        })
+      );
+      expect(() => loadUserRepos(path)).toThrow("duplicate entry");
+    });
+  });
+
+  describe("invalid user config on startup", () => {
+    let dir: string | undefined;
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      vi.resetModules();
+      if (dir) rmSync(dir, { recursive: true, force: true });
+      dir = undefined;
+    });
+
+    it("keeps the built-in repos and records the error", async () => {
+      dir = mkdtempSync(join(tmpdir(), "noir-mcp-config-"));
+      const path = join(dir, "repos.json");
+      writeFileSync(path, JSON.stringify({ repos: [{ name: "noir@v1.0.0" }] }));
+      vi.stubEnv("NOIR_MCP_REPOS_CONFIG", path);
+      vi.resetModules();
+
+      const config = await import("../../src/repos/config.js");
+      expect(config.NOIR_REPOS.map((r) => r.name)).toEqual(NOIR_REPOS.map((r) => r.name));
+      expect(config.CONFIG_ERRORS).toHaveLength(1);
+      expect(config.CONFIG_ERRORS[0]).toContain("must not contain '@'");
+    });
+
+    it("ignores invalid URL rewrites and reports each problem once", async () => {
+      dir = mkdtempSync(join(tmpdir(), "noir-mcp-config-"));
+      const path = join(dir, "repos.json");
+      writeFileSync(path, "{ not json");
+      vi.stubEnv("NOIR_MCP_REPOS_CONFIG", path);
+      vi.stubEnv("NOIR_MCP_URL_REWRITES", "no-separator");
+      vi.resetModules();
+
+      const config = await import("../../src/repos/config.js");
+      expect(config.URL_REWRITES).toEqual([]);
+      expect(config.NOIR_REPOS.map((r) => r.name)).toEqual(NOIR_REPOS.map((r) => r.name));
+      expect(config.CONFIG_ERRORS).toHaveLength(2);
+      expect(config.CONFIG_ERRORS[0]).toContain(`Invalid repo config in ${path}`);
+    });
+  });
+
+  describe("mergeRepos()", () => {
+    const base = [
+      {
+        name: "noir",
+        url: "https://github.com/noir-lang/noir",
+        description: "Noir",
+        category: "core",
+      },
+    ];
+
+    it("overrides built-in fields by name", () => {
+      const merged = mergeRepos(base, [
+        { name: "noir", url: "https://mirror.example.com/noir" },
+      ]);
+      expect(merged).toHaveLength(1);
+      expect(merged[0].url).toBe("https://mirror.example.com/noir");
+      expect(merged[0].description).toBe("Noir");
+    });
+
+    it("appends new repos with new categories", () => {
+      const merged = mergeRepos(base, [
+        {
+          name: "my-lib",
+          url: "https://example.com/my-lib",
+          description: "Mine",
+          category: "internal",
+        },
+      ]);
+      expect(merged.map((r) => r.name)).toEqual(["noir", "my-lib"]);
+      expect(merged[1].category).toBe("internal");
+    });
+
+    it("does not mutate the base list", () => {
+      mergeRepos(base, [{ name: "noir", description: "Changed" }]);
+      expect(base[0].description).toBe("Noir");
+    });
+  });
+
+  describe("URL rewrites", () => {
+    const rules = [
+      { from: "https://github.com/", to: "https://git.internal/mirror/" },
+      { from: "https://github.com/noir-lang/", to: "/srv/noir/" },
+    ];
+
+    it("rewrites the longest matching prefix", () => {
+      expect(rewriteUrl("https://github.com/noir-lang/noir", rules)).toBe(
+        "file:///srv/noir/noir"
+      );
+      expect(rewriteUrl("https://github.com/other/lib", rules)).toBe(
+        "https://git.internal/mirror/other/lib"
+      );
+      expect(rewriteUrl("https://gitlab.com/x/y", rules)).toBe(
+        "https://gitlab.com/x/y"
+      );
+    });
+
+    it("turns plain local paths into file:// URLs", () => {
+      expect(rewriteUrl("/srv/repos/lib.git", [])).toBe("file:///srv/repos/lib.git");
+      expect(rewriteUrl("file:///srv/repos/lib.git", [])).toBe(
+        "file:///srv/repos/lib.git"
+      );
+    });
+
+    it("parses rules from the environment", () => {
+      expect(
+        parseUrlRewritesEnv("https://github.com/=file:///mirror/; https://a/=https://b/")
+      ).toEqual([
+        { from: "https://github.com/", to: "file:///mirror/" },
+        { from: "https://a/", to: "https://b/" },
+      ]);
+      expect(parseUrlRewritesEnv(undefined)).toEqual([]);
+      expect(() => parseUrlRewritesEnv("no-separator")).toThrow("expected 'from=to'");
+    });
+
+    it("loads rules from the config file", () => {
+      const dir = mkdtempSync(join(tmpdir(), "noir-mcp-config-"));
+      const path = join(dir, "repos.json");
+      try {
+        writeFileSync(
+          path,
+          JSON.stringify({ urlRewrites: { "https://github.com/": "/srv/mirror/" } })
+        );
+        expect(loadUrlRewrites(path)).toEqual([
+          { from: "https://github.com/", to: "/srv/mirror/" },
+        ]);
+
+        writeFileSync(path, JSON.stringify({ urlRewrites: ["x"] }));
+        expect(() => loadUrlRewrites(path)).toThrow("'urlRewrites' must map");
+
+        expect(loadUrlRewrites(join(dir, "missing.json"))).toEqual([]);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
 });
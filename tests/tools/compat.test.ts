@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../src/utils/git.js", () => ({
+  getRepoPath: vi.fn((name: string) => `/mock/repos/${name}`),
+  isRepoCloned: vi.fn(() => true),
+  listRepoTags: vi.fn(async () => []),
+  readFileAtRef: vi.fn(async () => null),
+}));
+
+vi.mock("../../src/utils/compat.js", async (importOriginal) => ({
+  ...((await importOriginal()) as Record<string, unknown>),
+  checkCompat: vi.fn(() => ({})),
+}));
+
+vi.mock("../../src/utils/search.js", () => ({
+  getSelectedNoirVersion: vi.fn(() => "v1.0.0-beta.18"),
+}));
+
+vi.mock("../../src/repos/config.js", () => ({
+  NOIR_REPOS: [
+    { name: "noir", category: "core", versioned: true },
+    { name: "noir-bignum", category: "libraries" },
+    { name: "noir_sort", category: "libraries" },
+  ],
+}));
+
+const { isRepoCloned, listRepoTags, readFileAtRef } = await import(
+  "../../src/utils/git.js"
+);
+const { checkCompat } = await import("../../src/utils/compat.js");
+const { checkNoirCompat } = await import("../../src/tools/compat.js");
+
+const mockedIsRepoCloned = vi.mocked(isRepoCloned);
+const mockedListRepoTags = vi.mocked(listRepoTags);
+const mockedReadFileAtRef = vi.mocked(readFileAtRef);
+const mockedCheckCompat = vi.mocked(checkCompat);
+
+const tomls: Record<string, string> = {
+  "v0.5.0:Nargo.toml": '[package]\ncompiler_version = ">=0.36.0, <0.37.0"\n',
+  "v0.6.0:Nargo.toml": '[workspace]\nmembers = ["lib"]\n',
+  "v0.6.0:lib/Nargo.toml": '[package]\ncompiler_version = ">=1.0.0-beta.3"\n',
+  "v0.7.0:Nargo.toml": '[package]\ncompiler_version = ">=1.0.0-beta.3"\n',
+  "v0.1.0:Nargo.toml": '[package]\nname = "old"\n',
+};
+
+describe("tools/compat", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedIsRepoCloned.mockReturnValue(true);
+    mockedListRepoTags.mockResolvedValue([]);
+    mockedCheckCompat.mockReturnValue({});
+    mockedReadFileAtRef.mockImplementation(
+      async (_repo, ref, path) => tomls[`${ref}:${path}`] ?? null
+    );
+  });
+
+  describe("checkNoirCompat()", () => {
+    it("sorts local tags by compatibility, newest first", async () => {
+      mockedListRepoTags.mockImplementation(async (name) =>
+        name === "noir-bignum" ? ["v0.1.0", "v0.5.0", "v0.6.0", "v0.7.0"] : []
+      );
+      mockedCheckCompat.mockReturnValue({
+        compilerVersion: ">=1.0.0-beta.3",
+        compatible: true,
+      });
+
+      const result = await checkNoirCompat({
+        version: "v1.0.0-beta.5",
+        repos: ["noir-bignum"],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.libraries).toEqual([
+        {
+          name: "noir-bignum",
+          compilerVersion: ">=1.0.0-beta.3",
+          compatible: true,
+          compatibleTags: [
+            { tag: "v0.7.0", compilerVersion: ">=1.0.0-beta.3" },
+            { tag: "v0.6.0", compilerVersion: ">=1.0.0-beta.3" },
+          ],
+          incompatibleTags: [{ tag: "v0.5.0", compilerVersion: ">=0.36.0, <0.37.0" }],
+          unknownTags: ["v0.1.0"],
+        },
+      ]);
+      expect(mockedCheckCompat).toHaveBeenCalledWith(
+        "/mock/repos/noir-bignum",
+        "v1.0.0-beta.5"
+      );
+    });
+
+    it("defaults to the selected Noir version and skips noir itself", async () => {
+      mockedCheckCompat.mockReturnValue({ compilerVersion: ">=1.0.0" });
+
+      const result = await checkNoirCompat({});
+
+      expect(result.version).toBe("v1.0.0-beta.18");
+      expect(result.libraries.map((l) => l.name)).toEqual(["noir-bignum", "noir_sort"]);
+    });
+
+    it("fails when no cloned library has a Nargo.toml", async () => {
+      mockedIsRepoCloned.mockReturnValue(false);
+
+      const result = await checkNoirCompat({ version: "v1.0.0" });
+      expect(result.success).toBe(false);
+      expect(result.message).toContain("noir_sync_repos");
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../src/utils/git.js", () => ({
+  REPOS_DIR: "/mock/repos",
+  getRepoDirs: vi.fn((name: string) =>
+    ({
+      noir: ["noir@v1.0.0-beta.18", "noir@v1.0.0-beta.19"],
+      "noir-bignum": ["noir-bignum"],
+    })[name] ?? []
+  ),
+  isRepoCloned: vi.fn(() => true),
+  removeRepo: vi.fn(),
+  compactRepo: vi.fn(async () => {}),
+}));
+
+vi.mock("../../src/utils/sync-lock.js", () => ({
+  acquireSyncLock: vi.fn(() => () => {}),
+  withSyncLock: vi.fn((_operation: string, fn: () => Promise<unknown>) => fn()),
+  getSyncLock: vi.fn(() => null),
+  describeSyncLock: vi.fn(() => "sync by process 42 on host since 2026-01-01T00:00:00.000Z"),
+}));
+
+vi.mock("../../src/utils/disk.js", () => ({
+  getDiskUsage: vi.fn(async () => 1024),
+}));
+
+vi.mock("../../src/utils/lockfile.js", () => ({
+  buildLockfile: vi.fn(async () => ({ lockfileVersion: 1, defaultVersions: {}, repos: [] })),
+  writeLockfile: vi.fn(),
+}));
+
+vi.mock("../../src/tools/sync-jobs.js", () => ({
+  listSyncJobs: vi.fn(() => []),
+}));
+
+vi.mock("../../src/repos/config.js", () => ({
+  NOIR_REPOS: [
+    { name: "noir", category: "core", versioned: true },
+    { name: "noir-examples", category: "core" },
+    { name: "noir-bignum", category: "libraries" },
+  ],
+}));
+
+const { removeRepo, compactRepo } = await import("../../src/utils/git.js");
+const { getDiskUsage } = await import("../../src/utils/disk.js");
+const { writeLockfile } = await import("../../src/utils/lockfile.js");
+const { listSyncJobs } = await import("../../src/tools/sync-jobs.js");
+const { acquireSyncLock } = await import("../../src/utils/sync-lock.js");
+const { removeNoirRepos, compactNoirRepos } = await import(
+  "../../src/tools/maintenance.js"
+);
+
+describe("tools/maintenance", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("removeNoirRepos()", () => {
+    it("removes repos by name and reports freed space", async () => {
+      const result = await removeNoirRepos({ repos: ["noir"] });
+
+      expect(result.success).toBe(true);
+      expect(removeRepo).toHaveBeenCalledWith("noir", undefined);
+      expect(result.removed).toEqual([
+        { name: "noir", dirs: ["noir@v1.0.0-beta.18", "noir@v1.0.0-beta.19"], size: 2048 },
+      ]);
+      expect(result.freed).toBe(2048);
+      expect(writeLockfile).toHaveBeenCalled();
+    });
+
+    it("updates the lockfile before releasing the lock", async () => {
+      const release = vi.fn();
+      vi.mocked(acquireSyncLock).mockReturnValueOnce(release);
+
+      await removeNoirRepos({ repos: ["noir"] });
+      expect(vi.mocked(writeLockfile).mock.invocationCallOrder[0]).toBeLessThan(
+        release.mock.invocationCallOrder[0]
+      );
+    });
+
+    it("removes a single version", async () => {
+      const result = await removeNoirRepos({ repos: ["noir"], version: "v1.0.0-beta.18" });
+
+      expect(removeRepo).toHaveBeenCalledWith("noir", "v1.0.0-beta.18");
+      expect(result.removed[0].dirs).toEqual(["noir@v1.0.0-beta.18"]);
+    });
+
+    it("removes repos by category, skipping ones that are not cloned", async () => {
+      const result = await removeNoirRepos({ categories: ["core"] });
+
+      expect(result.removed.map((r) => r.name)).toEqual(["noir"]);
+      expect(removeRepo).toHaveBeenCalledTimes(1);
+    });
+
+    it("requires repos or categories", async () => {
+      const result = await removeNoirRepos({});
+
+      expect(result.success).toBe(false);
+      expect(removeRepo).not.toHaveBeenCalled();
+    });
+
+    it("rejects unknown repos", async () => {
+      const result = await removeNoirRepos({ repos: ["not-a-repo"] });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe("Unknown repositories: not-a-repo");
+    });
+
+    it("refuses to remove while a sync is running", async () => {
+      vi.mocked(listSyncJobs).mockReturnValueOnce([
+        { id: "sync-1", status: "running", startedAt: "" },
+      ]);
+
+      const result = await removeNoirRepos({ repos: ["noir"] });
+      expect(result.success).toBe(false);
+      expect(removeRepo).not.toHaveBeenCalled();
+    });
+
+    it("refuses to remove while another process holds the repos directory", async () => {
+      vi.mocked(acquireSyncLock).mockImplementationOnce(() => {
+        throw new Error("/mock/repos is busy: sync by process 42");
+      });
+
+      const result = await removeNoirRepos({ repos: ["noir"] });
+      expect(result).toMatchObject({
+        success: false,
+        message: "/mock/repos is busy: sync by process 42",
+      });
+      expect(removeRepo).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("compactNoirRepos()", () => {
+    it("compacts every clone and reports sizes", async () => {
+      vi.mocked(getDiskUsage)
+        .mockResolvedValueOnce(4096)
+        .mockResolvedValueOnce(1024);
+
+      const result = await compactNoirRepos({ repos: ["noir-bignum"] });
+
+      expect(result.success).toBe(true);
+      expect(compactRepo).toHaveBeenCalledWith("noir-bignum");
+      expect(result.repos).toEqual([{ dir: "noir-bignum", sizeBefore: 4096, sizeAfter: 1024 }]);
+    });
+
+    it("compacts all clones by default", async () => {
+      const result = await compactNoirRepos({});
+
+      expect(result.repos.map((r) => r.dir)).toEqual([
+        "noir@v1.0.0-beta.18",
+        "noir@v1.0.0-beta.19",
+        "noir-bignum",
+      ]);
+    });
+
+    it("reports clones that fail to compact", async () => {
+      vi.mocked(compactRepo).mockRejectedValueOnce(new Error("gc failed"));
+
+      const result = await compactNoirRepos({ repos: ["noir-bignum"] });
+      expect(result.success).toBe(false);
+      expect(result.repos[0].error).toBe("gc failed");
+    });
+  });
+});
@@ -2,13 +2,15 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 
 // Mock the utility modules
 vi.mock("../../src/utils/search.js", () => ({
-  searchCode: vi.fn(() => []),
-  searchDocs: vi.fn(() => []),
-  searchStdlib: vi.fn(() => []),
+  searchCode: vi.fn(async () => []),
+  searchDocs: vi.fn(async () => []),
+  searchStdlib: vi.fn(async () => []),
   listExamples: vi.fn(() => []),
   listLibraries: vi.fn(() => []),
   findExample: vi.fn(() => null),
   readFile: vi.fn(() => null),
+  getLocalSources: vi.fn(() => []),
+  getSelectedNoirVersion: vi.fn(() => "v1.0.0-beta.18"),
 }));
 
 vi.mock("../../src/utils/git.js", () => ({
@@ -17,8 +19,24 @@ vi.mock("../../src/utils/git.js", () => ({
   getRepoPath: vi.fn((name: string) => `/mock/repos/${name}`),
 }));
 
+vi.mock("../../src/utils/sync-lock.js", () => ({
+  acquireSyncLock: vi.fn(() => () => {}),
+  withSyncLock: vi.fn((_operation: string, fn: () => Promise<unknown>) => fn()),
+  getSyncLock: vi.fn(() => null),
+  describeSyncLock: vi.fn(() => "sync by process 42 on host since 2026-01-01T00:00:00.000Z"),
+}));
+
+vi.mock("../../src/utils/symbols.js", () => ({
+  findSymbols: vi.fn(async () => []),
+}));
+
+vi.mock("../../src/utils/usages.js", () => ({
+  findUsages: vi.fn(async () => ({ usages: [], truncated: false })),
+}));
+
 vi.mock("../../src/repos/config.js", () => ({
   getRepoNames: vi.fn(() => ["noir", "noir-examples", "noir-bignum"]),
+  getCategoryNames: vi.fn(() => ["core", "libraries", "reference"]),
   NOIR_REPOS: [
     { name: "noir", category: "core" },
     { name: "noir-examples", category: "core" },
@@ -27,11 +45,16 @@ vi.mock("../../src/repos/config.js", () => ({
 }));
 
 const { isRepoCloned } = await import("../../src/utils/git.js");
+const { getSyncLock } = await import("../../src/utils/sync-lock.js");
 const { getRepoNames } = await import("../../src/repos/config.js");
+const { findSymbols } = await import("../../src/utils/symbols.js");
+const { findUsages } = await import("../../src/utils/usages.js");
 const searchUtils = await import("../../src/utils/search.js");
 
 const {
   searchNoirCode,
+  findNoirSymbol,
+  findNoirUsages,
   searchNoirDocs,
   searchNoirStdlib,
   listNoirExamples,
@@ -49,89 +72,262 @@ const mockedListExamples = vi.mocked(searchUtils.listExamples);
 const mockedFindExample = vi.mocked(searchUtils.findExample);
 const mockedReadFile = vi.mocked(searchUtils.readFile);
 const mockedListLibraries = vi.mocked(searchUtils.listLibraries);
+const mockedGetLocalSources = vi.mocked(searchUtils.getLocalSources);
 
 describe("tools/search", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockedGetRepoNames.mockReturnValue(["noir", "noir-examples", "noir-bignum"]);
+    mockedGetLocalSources.mockReturnValue([]);
   });
 
   describe("searchNoirCode()", () => {
-    it("returns failure when specified repo is not cloned", () => {
+    it("warns that results may be incomplete during a sync", async () => {
+      mockedIsRepoCloned.mockReturnValue(true);
+      vi.mocked(getSyncLock).mockReturnValueOnce({
+        operation: "sync",
+        pid: 42,
+        hostname: "host",
+        startedAt: "2026-01-01T00:00:00.000Z",
+      });
+
+      const result = await searchNoirCode({ query: "fn main" });
+      expect(result.success).toBe(true);
+      expect(result.warning).toContain("results may be incomplete");
+    });
+
+    it("does not warn when no sync is running", async () => {
+      mockedIsRepoCloned.mockReturnValue(true);
+
+      expect(searchNoirCode({ query: "fn main" }).warning).toBeUndefined();
+    });
+
+    it("returns failure when specified repo is not cloned", async () => {
       mockedIsRepoCloned.mockReturnValue(false);
 
-      const result = searchNoirCode({ query: "fn main", repo: "noir-bignum" });
+      const result = await searchNoirCode({ query: "fn main", repo: "noir-bignum" });
       expect(result.success).toBe(false);
       expect(result.message).toContain("not cloned");
     });
 
-    it("returns failure when no repos are cloned at all", () => {
+    it("returns failure when no repos are cloned at all", async () => {
       mockedIsRepoCloned.mockReturnValue(false);
 
-      const result = searchNoirCode({ query: "fn main" });
+      const result = await searchNoirCode({ query: "fn main" });
       expect(result.success).toBe(false);
       expect(result.message).toContain("No repositories are cloned");
     });
 
-    it("delegates to searchCode and returns results", () => {
+    it("searches a workspace when no repos are cloned", async () => {
+      const workspace = { name: "my-app", path: "/home/me/my-app" };
+      mockedIsRepoCloned.mockReturnValue(false);
+      mockedGetLocalSources.mockReturnValue([workspace]);
+      mockedSearchCode.mockResolvedValue([]);
+
+      const result = await searchNoirCode({ query: "fn main", repo: "my-app" });
+      expect(result.success).toBe(true);
+      expect(mockedSearchCode).toHaveBeenCalledWith("fn main", {
+        filePattern: "*.nr",
+        repo: "my-app",
+        maxResults: 30,
+        scope: true,
+      });
+    });
+
+    it("returns failure when the requested version is not installed", async () => {
+      mockedIsRepoCloned.mockImplementation(
+        (_name: string, version?: string) => !version
+      );
+
+      const result = await searchNoirCode({ query: "fn main", version: "v0.36.0" });
+      expect(result.success).toBe(false);
+      expect(result.message).toContain("Noir v0.36.0 is not installed");
+      expect(mockedSearchCode).not.toHaveBeenCalled();
+    });
+
+    it("passes the version to searchCode", async () => {
+      mockedIsRepoCloned.mockReturnValue(true);
+      mockedSearchCode.mockResolvedValue([]);
+
+      searchNoirCode({ query: "fn main", version: "v1.0.0-beta.3" });
+      expect(mockedSearchCode).toHaveBeenCalledWith("fn main", {
+        filePattern: "*.nr",
+        maxResults: 30,
+        version: "v1.0.0-beta.3",
+        scope: true,
+      });
+    });
+
+    it("returns failure for an invalid regex", async () => {
+      mockedIsRepoCloned.mockReturnValue(true);
+      mockedSearchCode.mockRejectedValueOnce(
+        new Error("Invalid regex 'Field(': Unterminated group")
+      );
+
+      const result = await searchNoirCode({ query: "Field(" });
+      expect(result.success).toBe(false);
+      expect(result.message).toBe("Invalid regex 'Field(': Unterminated group");
+    });
+
+    it("delegates to searchCode and returns results", async () => {
       mockedIsRepoCloned.mockReturnValue(true);
-      mockedSearchCode.mockReturnValue([
+      mockedSearchCode.mockResolvedValue([
         { file: "noir/src/main.nr", line: 1, content: "fn main() {}", repo: "noir" },
       ]);
 
-      const result = searchNoirCode({ query: "fn main" });
+      const result = await searchNoirCode({ query: "fn main" });
       expect(result.success).toBe(true);
       expect(result.results).toHaveLength(1);
       expect(result.message).toContain("Found 1 matches");
     });
 
-    it("returns success with empty results message", () => {
+    it("returns success with empty results message", async () => {
       mockedIsRepoCloned.mockReturnValue(true);
-      mockedSearchCode.mockReturnValue([]);
+      mockedSearchCode.mockResolvedValue([]);
 
-      const result = searchNoirCode({ query: "nonexistent" });
+      const result = await searchNoirCode({ query: "nonexistent" });
       expect(result.success).toBe(true);
       expect(result.message).toContain("No matches found");
     });
   });
 
+  describe("findNoirSymbol()", () => {
+    it("returns failure when no repos are cloned", async () => {
+      mockedIsRepoCloned.mockReturnValue(false);
+
+      const result = await findNoirSymbol({ query: "poseidon2" });
+      expect(result.success).toBe(false);
+      expect(result.message).toContain("No repositories are cloned");
+      expect(findSymbols).not.toHaveBeenCalled();
+    });
+
+    it("returns failure when the requested repo is not cloned", async () => {
+      mockedIsRepoCloned.mockReturnValue(false);
+
+      const result = await findNoirSymbol({ query: "BigNum", repo: "noir-bignum" });
+      expect(result.message).toBe(
+        "Repository 'noir-bignum' is not cloned. Run noir_sync_repos first."
+      );
+    });
+
+    it("passes the query and filters to the symbol index", async () => {
+      mockedIsRepoCloned.mockReturnValue(true);
+      vi.mocked(findSymbols).mockResolvedValueOnce([
+        {
+          name: "poseidon2",
+          kind: "fn",
+          line: 3,
+          signature: "pub fn poseidon2()",
+          file: "noir/noir_stdlib/src/hash.nr",
+          repo: "noir",
+          match: "exact",
+        },
+      ]);
+
+      const result = await findNoirSymbol({ query: "poseidon2", kind: "fn", repo: "noir" });
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("Found 1 definitions matching 'poseidon2'");
+      expect(findSymbols).toHaveBeenCalledWith("poseidon2", {
+        kind: "fn",
+        repo: "noir",
+        maxResults: 20,
+        version: undefined,
+      });
+    });
+  });
+
+  describe("findNoirUsages()", () => {
+    it("reports usages and the number of repos they are in", async () => {
+      mockedIsRepoCloned.mockReturnValue(true);
+      vi.mocked(findUsages).mockResolvedValueOnce({
+        usages: [
+          { file: "noir-examples/a/src/main.nr", line: 3, content: "hash(x)", repo: "noir-examples", kind: "call" },
+          { file: "noir-bignum/src/lib.nr", line: 9, content: "hash(y)", repo: "noir-bignum", kind: "call" },
+        ],
+        truncated: false,
+      });
+
+      const result = await findNoirUsages({ query: "hash" });
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("Found 2 usages of 'hash' in 2 repos");
+      expect(findUsages).toHaveBeenCalledWith("hash", {
+        repo: undefined,
+        maxResults: 30,
+        version: undefined,
+      });
+    });
+
+    it("says when not every match of the name could be checked", async () => {
+      mockedIsRepoCloned.mockReturnValue(true);
+      vi.mocked(findUsages).mockResolvedValueOnce({ usages: [], truncated: true });
+
+      const result = await findNoirUsages({ query: "hash" });
+      expect(result.message).toBe(
+        "No usages found for 'hash' (the name has too many matches to check them all; narrow the search with repo)"
+      );
+    });
+
+    it("returns failure for queries that are not Noir paths", async () => {
+      mockedIsRepoCloned.mockReturnValue(true);
+      vi.mocked(findUsages).mockRejectedValueOnce(
+        new Error("'a b' is not a Noir name or path")
+      );
+
+      const result = await findNoirUsages({ query: "a b" });
+      expect(result.success).toBe(false);
+      expect(result.message).toBe("'a b' is not a Noir name or path");
+    });
+  });
+
   describe("searchNoirDocs()", () => {
-    it("returns failure when noir repo is not cloned", () => {
+    it("returns failure when noir repo is not cloned", async () => {
       mockedIsRepoCloned.mockReturnValue(false);
 
-      const result = searchNoirDocs({ query: "getting started" });
+      const result = await searchNoirDocs({ query: "getting started" });
       expect(result.success).toBe(false);
       expect(result.message).toContain("noir repo is not cloned");
     });
 
-    it("delegates to searchDocs on success", () => {
+    it("delegates to searchDocs on success", async () => {
       mockedIsRepoCloned.mockReturnValue(true);
-      mockedSearchDocs.mockReturnValue([
+      mockedSearchDocs.mockResolvedValue([
         { file: "noir/docs/intro.md", line: 5, content: "Getting started", repo: "noir" },
       ]);
 
-      const result = searchNoirDocs({ query: "getting started" });
+      const result = await searchNoirDocs({ query: "getting started" });
       expect(result.success).toBe(true);
       expect(result.results).toHaveLength(1);
     });
   });
 
   describe("searchNoirStdlib()", () => {
-    it("returns failure when noir repo is not cloned", () => {
+    it("returns failure when noir repo is not cloned", async () => {
       mockedIsRepoCloned.mockReturnValue(false);
 
-      const result = searchNoirStdlib({ query: "hash" });
+      const result = await searchNoirStdlib({ query: "hash" });
       expect(result.success).toBe(false);
       expect(result.message).toContain("noir repo is not cloned");
     });
 
-    it("delegates to searchStdlib on success", () => {
+    it("checks and passes the requested version", async () => {
       mockedIsRepoCloned.mockReturnValue(true);
-      mockedSearchStdlib.mockReturnValue([
+      mockedSearchStdlib.mockResolvedValue([]);
+
+      searchNoirStdlib({ query: "hash", version: "v1.0.0-beta.3" });
+      expect(mockedIsRepoCloned).toHaveBeenCalledWith("noir", "v1.0.0-beta.3");
+      expect(mockedSearchStdlib).toHaveBeenCalledWith("hash", {
+        maxResults: 30,
+        version: "v1.0.0-beta.3",
+      });
+    });
+
+    it("delegates to searchStdlib on success", async () => {
+      mockedIsRepoCloned.mockReturnValue(true);
+      mockedSearchStdlib.mockResolvedValue([
         { file: "noir/noir_stdlib/src/hash/mod.nr", line: 3, content: "fn hash()", repo: "noir" },
       ]);
 
-      const result = searchNoirStdlib({ query: "hash" });
+      const result = await searchNoirStdlib({ query: "hash" });
       expect(result.success).toBe(true);
       expect(result.results).toHaveLength(1);
     });
@@ -214,6 +410,14 @@ describe("tools/search", () => {
       expect(result.message).toContain("File not found");
     });
 
+    it("returns failure when the requested version is not installed", () => {
+      mockedIsRepoCloned.mockReturnValue(false);
+
+      const result = readRepoFile({ path: "noir/README.md", version: "v0.36.0" });
+      expect(result.success).toBe(false);
+      expect(result.message).toContain("not installed");
+    });
+
     it("returns content on success", () => {
       mockedReadFile.mockReturnValue("some content");
 
@@ -227,22 +431,23 @@ describe("tools/search", () => {
     it("ignores invalid category", () => {
       mockedListLibraries.mockReturnValue([]);
 
-      listNoirLibraries({ category: "invalid" });
-      expect(mockedListLibraries).toHaveBeenCalledWith(undefined);
+      const result = listNoirLibraries({ category: "invalid" });
+      expect(mockedListLibraries).toHaveBeenCalledWith(undefined, "v1.0.0-beta.18");
+      expect(result.noirVersion).toBe("v1.0.0-beta.18");
     });
 
     it("passes valid category", () => {
       mockedListLibraries.mockReturnValue([]);
 
       listNoirLibraries({ category: "libraries" });
-      expect(mockedListLibraries).toHaveBeenCalledWith("libraries");
+      expect(mockedListLibraries).toHaveBeenCalledWith("libraries", "v1.0.0-beta.18");
     });
 
     it("passes reference category", () => {
       mockedListLibraries.mockReturnValue([]);
 
       listNoirLibraries({ category: "reference" });
-      expect(mockedListLibraries).toHaveBeenCalledWith("reference");
+      expect(mockedListLibraries).toHaveBeenCalledWith("reference", "v1.0.0-beta.18");
     });
   });
 });
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { SyncProgress, SyncResult } from "../../src/tools/sync.js";
+
+vi.mock("../../src/tools/sync.js", () => ({
+  syncRepos: vi.fn(),
+}));
+
+const { syncRepos } = await import("../../src/tools/sync.js");
+const { startSyncJob, getSyncJob, getSyncStatus, clearSyncJobs } = await import(
+  "../../src/tools/sync-jobs.js"
+);
+
+const mockedSyncRepos = vi.mocked(syncRepos);
+
+const result: SyncResult = {
+  success: true,
+  message: "Successfully synced 1 repositories to /mock/repos",
+  version: "v1.0.0",
+  repos: [{ name: "noir", status: "cloned", message: "Cloned" }],
+};
+
+describe("tools/sync-jobs", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearSyncJobs();
+  });
+
+  describe("startSyncJob()", () => {
+    it("runs the sync in the background and stores its result", async () => {
+      let finish!: (value: SyncResult) => void;
+      mockedSyncRepos.mockReturnValue(new Promise((resolve) => (finish = resolve)));
+
+      const { job, started, done } = startSyncJob({ repos: ["noir"] });
+      expect(started).toBe(true);
+      expect(job).toMatchObject({ id: "sync-1", status: "running" });
+      expect(mockedSyncRepos).toHaveBeenCalledWith(
+        expect.objectContaining({ repos: ["noir"] })
+      );
+
+      finish(result);
+      await done;
+      expect(getSyncJob("sync-1")).toMatchObject({ status: "completed", result });
+      expect(getSyncJob("sync-1")?.finishedAt).toBeDefined();
+    });
+
+    it("forwards progress and keeps the latest event", async () => {
+      const event: SyncProgress = {
+        repo: "noir",
+        completed: 0,
+        total: 1,
+        phase: "receiving",
+        percent: 40,
+      };
+      mockedSyncRepos.mockImplementation(async (options) => {
+        options.onProgress?.(event);
+        return result;
+      });
+      const onProgress = vi.fn();
+
+      const { job, done } = startSyncJob({}, onProgress);
+      await done;
+      expect(onProgress).toHaveBeenCalledWith(event);
+      expect(job.progress).toEqual(event);
+    });
+
+    it("returns the running job instead of starting another", async () => {
+      mockedSyncRepos.mockReturnValue(new Promise(() => {}));
+
+      const first = startSyncJob({});
+      const second = startSyncJob({ repos: ["noir-bignum"] });
+      expect(second.started).toBe(false);
+      expect(second.job.id).toBe(first.job.id);
+      expect(mockedSyncRepos).toHaveBeenCalledTimes(1);
+    });
+
+    it("marks the job failed when the sync throws", async () => {
+      mockedSyncRepos.mockRejectedValue(new Error("disk full"));
+
+      const { done } = startSyncJob({});
+      const job = await done;
+      expect(job).toMatchObject({ status: "failed", error: "disk full" });
+    });
+  });
+
+  describe("getSyncStatus()", () => {
+    it("reports unknown jobs", () => {
+      const status = getSyncStatus({ jobId: "sync-42" });
+      expect(status.success).toBe(false);
+      expect(status.message).toContain("sync-42");
+    });
+
+    it("lists jobs most recent first", async () => {
+      mockedSyncRepos.mockResolvedValue(result);
+      await startSyncJob({}).done;
+      await startSyncJob({}).done;
+
+      const status = getSyncStatus({});
+      expect(status.jobs.map((j) => j.id)).toEqual(["sync-2", "sync-1"]);
+    });
+  });
+});
@@ -1,20 +1,65 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { SyncProgress } from "../../src/tools/sync.js";
 
 // Mock git utilities
 vi.mock("../../src/utils/git.js", () => ({
   cloneRepo: vi.fn(),
   getReposStatus: vi.fn(),
+  getDefaultVersion: vi.fn(() => "v1.0.0-beta.18"),
+  setDefaultVersion: vi.fn(),
+  listInstalledVersions: vi.fn(() => ["v1.0.0-beta.18"]),
+  getRepoDirName: vi.fn((config: { name: string }) => config.name),
+  getRepoCommit: vi.fn(async () => null),
+  getCheckoutProblem: vi.fn(async () => null),
+  removeStaleClones: vi.fn(() => []),
+  validateSparsePaths: vi.fn(),
+  planRepoSync: vi.fn(async () => ({ action: "update", reason: "fetch latest master" })),
+  getRepoDirs: vi.fn((name: string) =>
+    name === "noir" ? ["noir@v1.0.0-beta.17", "noir@v1.0.0-beta.18"] : []
+  ),
+  listReposDir: vi.fn(() => [
+    "noir@v1.0.0-beta.17",
+    "noir@v1.0.0-beta.18",
+    ".default-versions.json",
+  ]),
   REPOS_DIR: "/mock/repos",
 }));
 
+vi.mock("../../src/utils/sync-lock.js", () => ({
+  acquireSyncLock: vi.fn(() => () => {}),
+  withSyncLock: vi.fn((_operation: string, fn: () => Promise<unknown>) => fn()),
+  getSyncLock: vi.fn(() => null),
+  describeSyncLock: vi.fn(() => "sync by process 42 on host since 2026-01-01T00:00:00.000Z"),
+}));
+
+vi.mock("../../src/utils/disk.js", () => ({
+  getDiskUsage: vi.fn(async () => 1000),
+}));
+
+vi.mock("../../src/utils/lockfile.js", () => ({
+  LOCKFILE_PATH: "/mock/repos.lock.json",
+  readLockfile: vi.fn(() => null),
+  writeLockfile: vi.fn(),
+  buildLockfile: vi.fn(async () => ({
+    lockfileVersion: 1,
+    defaultVersions: {},
+    repos: [],
+  })),
+  getLockedConfigs: vi.fn(() => []),
+  getLockDrift: vi.fn(async () => []),
+}));
+
 // Mock config - provide realistic repo data
 vi.mock("../../src/repos/config.js", () => ({
+  CONFIG_ERRORS: [],
   NOIR_REPOS: [
     {
       name: "noir",
       url: "https://github.com/noir-lang/noir",
       branch: "master",
       tag: "v1.0.0-beta.18",
+      versioned: true,
+      sparse: ["docs", "noir_stdlib"],
       category: "core",
       description: "Noir compiler",
     },
@@ -46,6 +91,8 @@ vi.mock("../../src/repos/config.js", () => ({
       url: "https://github.com/noir-lang/noir",
       branch: "master",
       tag: "v1.0.0-beta.18",
+      versioned: true,
+      sparse: ["docs", "noir_stdlib"],
       category: "core",
       description: "Noir compiler",
     },
@@ -74,11 +121,39 @@ vi.mock("../../src/repos/config.js", () => ({
   DEFAULT_NOIR_VERSION: "v1.0.0-beta.18",
 }));
 
-const { cloneRepo, getReposStatus } = await import("../../src/utils/git.js");
+const {
+  cloneRepo,
+  getReposStatus,
+  setDefaultVersion,
+  getRepoCommit,
+  getCheckoutProblem,
+  removeStaleClones,
+  planRepoSync,
+} = await import("../../src/utils/git.js");
+const { getNoirRepos } = await import("../../src/repos/config.js");
+const { acquireSyncLock } = await import("../../src/utils/sync-lock.js");
+const { getDiskUsage } = await import("../../src/utils/disk.js");
+const { readLockfile, writeLockfile, getLockedConfigs, getLockDrift } =
+  await import("../../src/utils/lockfile.js");
 const { syncRepos, getStatus } = await import("../../src/tools/sync.js");
 
 const mockedCloneRepo = vi.mocked(cloneRepo);
 const mockedGetReposStatus = vi.mocked(getReposStatus);
+const mockedReadLockfile = vi.mocked(readLockfile);
+const mockedGetLockedConfigs = vi.mocked(getLockedConfigs);
+
+const lock = {
+  lockfileVersion: 1,
+  defaultVersions: { noir: "v1.0.0-beta.18" },
+  repos: [
+    {
+      name: "noir-bignum",
+      url: "https://github.com/noir-lang/noir-bignum",
+      ref: "main",
+      commit: "0123456789abcdef0123456789abcdef01234567",
+    },
+  ],
+};
 
 describe("tools/sync", () => {
   beforeEach(() => {
@@ -92,7 +167,9 @@ describe("tools/sync", () => {
       const result = await syncRepos({});
       expect(result.success).toBe(true);
       expect(result.repos).toHaveLength(2); // noir + noir-examples
-      expect(result.repos.every((r) => r.status === "Cloned")).toBe(true);
+      expect(result.repos.every((r) => r.status === "cloned" && r.message === "Cloned")).toBe(
+        true
+      );
     });
 
     it("filters by specific repo names", async () => {
@@ -124,8 +201,223 @@ describe("tools/sync", () => {
       await syncRepos({ force: true });
       expect(mockedCloneRepo).toHaveBeenCalledWith(
         expect.anything(),
+        true,
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
+    });
+
+    it("reports progress per repo and clone stage", async () => {
+      mockedCloneRepo.mockImplementation(async (config, _force, options) => {
+        options?.onProgress?.("receiving", 50);
+        return `Cloned ${config.name}`;
+      });
+      const events: SyncProgress[] = [];
+
+      await syncRepos({ concurrency: 1, onProgress: (p) => events.push(p) });
+      expect(events).toEqual([
+        { repo: "noir", completed: 0, total: 2, phase: "starting" },
+        { repo: "noir", completed: 0, total: 2, phase: "receiving", percent: 50 },
+        { repo: "noir", completed: 1, total: 2, phase: "done" },
+        { repo: "noir-examples", completed: 1, total: 2, phase: "starting" },
+        { repo: "noir-examples", completed: 1, total: 2, phase: "receiving", percent: 50 },
+        { repo: "noir-examples", completed: 2, total: 2, phase: "done" },
+      ]);
+    });
+
+    it("syncs repos concurrently up to the limit, keeping config order", async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const delays: Record<string, number> = {
+        noir: 30,
+        "noir-examples": 10,
+        "noir-bignum": 20,
+        "awesome-noir": 0,
+      };
+      mockedCloneRepo.mockImplementation(async (config) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, delays[config.name]));
+        inFlight--;
+        return `Cloned ${config.name}`;
+      });
+
+      const result = await syncRepos({
+        categories: ["core", "libraries", "reference"],
+        concurrency: 2,
+      });
+      expect(maxInFlight).toBe(2);
+      expect(result.repos.map((r) => r.name)).toEqual([
+        "noir",
+        "noir-examples",
+        "noir-bignum",
+        "awesome-noir",
+      ]);
+    });
+
+    it.each([0, -1, NaN, 1.5])("syncs every repo with concurrency %s", async (concurrency) => {
+      const result = await syncRepos({ concurrency });
+      expect(result.repos.map((r) => r.name)).toEqual(["noir", "noir-examples"]);
+      expect(mockedCloneRepo).toHaveBeenCalledTimes(2);
+    });
+
+    it("times out a repo without cancelling the others", async () => {
+      mockedCloneRepo.mockImplementation(async (config, _force, options) => {
+        if (config.name !== "noir") return `Cloned ${config.name}`;
+        return new Promise((_resolve, reject) => {
+          options?.signal?.addEventListener("abort", () =>
+            reject(new Error("Abort signal received"))
+          );
+        });
+      });
+
+      const result = await syncRepos({ timeoutMs: 20 });
+      expect(result.success).toBe(false);
+      expect(result.repos[0]).toMatchObject({
+        status: "failed",
+        message: "Timed out after 0.02s",
+        failure: { kind: "timeout", message: "Timed out after 0.02s" },
+      });
+      expect(result.repos[1].message).toBe("Cloned noir-examples");
+    });
+
+    it("reports the commit before and after each repo", async () => {
+      mockedCloneRepo.mockResolvedValue("Updated noir-examples on master");
+      vi.mocked(getRepoCommit)
+        .mockResolvedValueOnce("abc1234")
+        .mockResolvedValueOnce("def5678");
+
+      const result = await syncRepos({ repos: ["noir-examples"] });
+      expect(result.repos[0].commit).toEqual({ before: "abc1234", after: "def5678" });
+      expect(result.repos[0].status).toBe("updated");
+    });
+
+    it("reports repos whose commit did not change as unchanged", async () => {
+      mockedCloneRepo.mockResolvedValue("noir-examples is up to date on master");
+      vi.mocked(getRepoCommit).mockResolvedValueOnce("abc1234").mockResolvedValueOnce("abc1234");
+
+      const result = await syncRepos({ repos: ["noir-examples"] });
+      expect(result.repos[0].status).toBe("unchanged");
+    });
+
+    it("classifies clone failures", async () => {
+      mockedCloneRepo.mockRejectedValueOnce(
+        new Error("fatal: Remote branch v9 not found in upstream origin")
+      );
+
+      const result = await syncRepos({ repos: ["noir-examples"] });
+      expect(result.repos[0].failure?.kind).toBe("ref-not-found");
+    });
+
+    it("holds the repos directory lock while syncing", async () => {
+      const release = vi.fn();
+      vi.mocked(acquireSyncLock).mockReturnValueOnce(release);
+      mockedCloneRepo.mockImplementation(async () => {
+        expect(release).not.toHaveBeenCalled();
+        return "Cloned";
+      });
+
+      await syncRepos({});
+      expect(acquireSyncLock).toHaveBeenCalledWith("sync");
+      expect(release).toHaveBeenCalledTimes(1);
+    });
+
+    it("fails without syncing when another process holds the lock", async () => {
+      vi.mocked(acquireSyncLock).mockImplementationOnce(() => {
+        throw new Error("/mock/repos is busy: sync by process 42");
+      });
+
+      const result = await syncRepos({});
+      expect(result.success).toBe(false);
+      expect(result.message).toBe("/mock/repos is busy: sync by process 42");
+      expect(result.failure?.kind).toBe("lock-held");
+      expect(mockedCloneRepo).not.toHaveBeenCalled();
+    });
+
+    it("plans a dry run without syncing or writing the lockfile", async () => {
+      vi.mocked(planRepoSync)
+        .mockResolvedValueOnce({ action: "reclone", reason: "at v0.7.0, tag v0.8.0 requested" })
+        .mockResolvedValueOnce({ action: "update", reason: "fetch latest master" });
+
+      const result = await syncRepos({ dryRun: true });
+      expect(result.success).toBe(true);
+      expect(result.repos).toEqual([]);
+      expect(result.plan).toEqual([
+        { name: "noir", action: "reclone", reason: "at v0.7.0, tag v0.8.0 requested" },
+        { name: "noir-examples", action: "update", reason: "fetch latest master" },
+      ]);
+      expect(result.message).toBe(
+        "Dry run: 0 to clone, 1 to re-clone, 1 to update, 0 unchanged, 0 skipped"
+      );
+      expect(planRepoSync).toHaveBeenCalledWith(expect.anything(), false);
+      expect(acquireSyncLock).not.toHaveBeenCalled();
+      expect(mockedCloneRepo).not.toHaveBeenCalled();
+      expect(writeLockfile).not.toHaveBeenCalled();
+    });
+
+    it("plans a repair without removing leftover clones", async () => {
+      vi.mocked(getCheckoutProblem).mockImplementation(async (name) =>
+        name === "noir-bignum" ? "no commit is checked out" : null
+      );
+
+      const result = await syncRepos({ repair: true, dryRun: true });
+      expect(result.plan?.map((entry) => entry.name)).toEqual(["noir-bignum"]);
+      expect(planRepoSync).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "noir-bignum" }),
         true
       );
+      expect(removeStaleClones).not.toHaveBeenCalled();
+      vi.mocked(getCheckoutProblem).mockResolvedValue(null);
+    });
+
+    it("repairs only broken checkouts across all categories", async () => {
+      mockedCloneRepo.mockResolvedValue("Cloned");
+      vi.mocked(getCheckoutProblem).mockImplementation(async (name) =>
+        name === "noir-bignum" ? "no commit is checked out" : null
+      );
+
+      const result = await syncRepos({ repair: true });
+      expect(removeStaleClones).toHaveBeenCalled();
+      expect(result.repos.map((r) => r.name)).toEqual(["noir-bignum"]);
+      vi.mocked(getCheckoutProblem).mockResolvedValue(null);
+    });
+
+    it("reports when there is nothing to repair", async () => {
+      const result = await syncRepos({ repair: true });
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("No broken checkouts found");
+      expect(mockedCloneRepo).not.toHaveBeenCalled();
+    });
+
+    it("passes extra sparse paths to the repos they name", async () => {
+      mockedCloneRepo.mockResolvedValue("Cloned");
+
+      await syncRepos({ sparse: { noir: ["compiler"] } });
+      expect(mockedCloneRepo).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "noir", extraSparse: ["compiler"] }),
+        false,
+        expect.anything()
+      );
+      expect(mockedCloneRepo).toHaveBeenCalledWith(
+        expect.not.objectContaining({ extraSparse: expect.anything() }),
+        false,
+        expect.anything()
+      );
+    });
+
+    it("rejects extra sparse paths for unknown repos", async () => {
+      const result = await syncRepos({ sparse: { "not-a-repo": ["src"] } });
+      expect(result.success).toBe(false);
+      expect(result.message).toBe("Unknown repositories in sparse: not-a-repo");
+      expect(mockedCloneRepo).not.toHaveBeenCalled();
+    });
+
+    it("rejects extra sparse paths for full checkouts", async () => {
+      const result = await syncRepos({ sparse: { "noir-examples": ["src"] } });
+      expect(result.success).toBe(false);
+      expect(result.message).toBe(
+        "Not sparse checkouts, all paths are already present: noir-examples"
+      );
+      expect(mockedCloneRepo).not.toHaveBeenCalled();
     });
 
     it("handles cloneRepo errors gracefully", async () => {
@@ -136,9 +428,42 @@ describe("tools/sync", () => {
       const result = await syncRepos({});
       expect(result.success).toBe(false);
       expect(result.repos).toHaveLength(2);
-      expect(result.repos[0].status).toContain("Cloned");
-      expect(result.repos[1].status).toContain("Error");
-      expect(result.repos[1].status).toContain("network failure");
+      expect(result.repos[0].status).toBe("cloned");
+      expect(result.repos[1]).toMatchObject({
+        status: "failed",
+        message: "network failure",
+        failure: { kind: "unknown", message: "network failure" },
+      });
+    });
+
+    it("passes per-repo refs to getNoirRepos", async () => {
+      mockedCloneRepo.mockResolvedValue("Cloned");
+
+      await syncRepos({ repos: ["noir-bignum"], refs: { "noir-bignum": "v0.7.0" } });
+      expect(getNoirRepos).toHaveBeenCalledWith(undefined, {
+        "noir-bignum": "v0.7.0",
+      });
+    });
+
+    it("rejects refs for unknown repos", async () => {
+      const result = await syncRepos({ refs: { "not-a-repo": "v1.0.0" } });
+      expect(result.success).toBe(false);
+      expect(result.message).toContain("not-a-repo");
+      expect(mockedCloneRepo).not.toHaveBeenCalled();
+    });
+
+    it("makes the synced noir version the default", async () => {
+      mockedCloneRepo.mockResolvedValue("Cloned");
+
+      await syncRepos({});
+      expect(setDefaultVersion).toHaveBeenCalledWith("noir", "v1.0.0-beta.18");
+    });
+
+    it("does not change the default when the clone fails", async () => {
+      mockedCloneRepo.mockRejectedValue(new Error("bad tag"));
+
+      await syncRepos({ repos: ["noir"] });
+      expect(setDefaultVersion).not.toHaveBeenCalled();
     });
 
     it("includes version in result", async () => {
@@ -154,12 +479,83 @@ describe("tools/sync", () => {
       const result = await syncRepos({ version: "v0.50.0" });
       expect(result.version).toBe("v0.50.0");
     });
+
+    it("skips bb.js when no version maps to the requested Noir version", async () => {
+      vi.mocked(getNoirRepos).mockReturnValueOnce([
+        {
+          name: "bb.js",
+          url: "https://github.com/AztecProtocol/aztec-packages",
+          branch: "next",
+          category: "libraries",
+          description: "bb.js",
+        },
+      ]);
+
+      const result = await syncRepos({ version: "v0.0.1", repos: ["bb.js"] });
+      expect(result.success).toBe(true);
+      expect(result.repos[0].status).toBe("skipped");
+      expect(result.repos[0].message).toContain("Skipped: No bb.js version is known for Noir v0.0.1");
+      expect(mockedCloneRepo).not.toHaveBeenCalled();
+    });
+
+    it("writes the lockfile after syncing", async () => {
+      mockedCloneRepo.mockResolvedValue("Cloned");
+
+      const result = await syncRepos({});
+      expect(writeLockfile).toHaveBeenCalled();
+      expect(result.lockfile).toBe("/mock/repos.lock.json");
+    });
+
+    it("syncs the locked commits from a lockfile", async () => {
+      mockedCloneRepo.mockResolvedValue("Cloned");
+      mockedReadLockfile.mockReturnValueOnce(lock);
+      mockedGetLockedConfigs.mockReturnValueOnce([
+        {
+          name: "noir-bignum",
+          url: "https://github.com/noir-lang/noir-bignum",
+          commit: lock.repos[0].commit,
+          category: "libraries",
+          description: "Big integers",
+        },
+      ]);
+
+      const result = await syncRepos({ lockfile: "/shared/repos.lock.json" });
+      expect(readLockfile).toHaveBeenCalledWith("/shared/repos.lock.json");
+      expect(result.success).toBe(true);
+      expect(mockedCloneRepo).toHaveBeenCalledTimes(1);
+      expect(mockedCloneRepo.mock.calls[0][0].commit).toBe(lock.repos[0].commit);
+      expect(setDefaultVersion).toHaveBeenCalledWith("noir", "v1.0.0-beta.18");
+    });
+
+    it("fails when the lockfile does not exist", async () => {
+      const result = await syncRepos({ lockfile: "/missing.json" });
+      expect(result.success).toBe(false);
+      expect(result.message).toContain("Lockfile not found");
+      expect(mockedCloneRepo).not.toHaveBeenCalled();
+    });
+
+    it("rejects a lockfile combined with refs", async () => {
+      const result = await syncRepos({
+        lockfile: "/shared/repos.lock.json",
+        refs: { "noir-bignum": "v0.7.0" },
+      });
+      expect(result.success).toBe(false);
+      expect(readLockfile).not.toHaveBeenCalled();
+    });
   });
 
   describe("getStatus()", () => {
     it("returns all repos with clone status", async () => {
       const statusMap = new Map([
-        ["noir", { cloned: true, commit: "abc1234" }],
+        [
+          "noir",
+          {
+            cloned: true,
+            commit: "abc1234",
+            requestedRef: "v1.0.0-beta.18",
+            ref: "v1.0.0-beta.18",
+          },
+        ],
         ["noir-examples", { cloned: false }],
         ["noir-bignum", { cloned: false }],
         ["awesome-noir", { cloned: false }],
@@ -169,14 +565,56 @@ describe("tools/sync", () => {
       const result = await getStatus();
       expect(result.reposDir).toBe("/mock/repos");
       expect(result.repos).toHaveLength(4);
+      expect(result.workspaces).toEqual([]);
 
       const noir = result.repos.find((r) => r.name === "noir");
       expect(noir?.cloned).toBe(true);
       expect(noir?.commit).toBe("abc1234");
+      expect(noir?.requestedRef).toBe("v1.0.0-beta.18");
+      expect(noir?.ref).toBe("v1.0.0-beta.18");
+      expect(noir?.versions).toEqual(["v1.0.0-beta.18"]);
+      expect(noir?.defaultVersion).toBe("v1.0.0-beta.18");
 
       const examples = result.repos.find((r) => r.name === "noir-examples");
       expect(examples?.cloned).toBe(false);
+      expect(examples?.diskUsage).toBe(0);
       expect(examples?.commit).toBeUndefined();
+      expect(examples?.versions).toBeUndefined();
+      expect(result.lockfile).toBeUndefined();
+    });
+
+    it("reports disk usage per repo and in total", async () => {
+      mockedGetReposStatus.mockResolvedValue(new Map());
+
+      const result = await getStatus();
+      expect(result.repos.find((r) => r.name === "noir")?.diskUsage).toBe(2000);
+      expect(result.diskUsage).toBe(3000);
+      expect(getDiskUsage).toHaveBeenCalledTimes(3);
+      expect(getDiskUsage).not.toHaveBeenCalledWith("/mock/repos");
+    });
+
+    it("reports drift from the lockfile", async () => {
+      mockedGetReposStatus.mockResolvedValue(new Map());
+      mockedReadLockfile.mockReturnValueOnce(lock);
+      vi.mocked(getLockDrift).mockResolvedValueOnce([
+        { name: "noir-bignum", issue: "missing", expected: lock.repos[0].commit },
+      ]);
+
+      const result = await getStatus();
+      expect(result.lockfile).toEqual({
+        path: "/mock/repos.lock.json",
+        drift: [{ name: "noir-bignum", issue: "missing", expected: lock.repos[0].commit }],
+      });
+    });
+
+    it("reports an invalid lockfile", async () => {
+      mockedGetReposStatus.mockResolvedValue(new Map());
+      mockedReadLockfile.mockImplementationOnce(() => {
+        throw new Error("Invalid lockfile /mock/repos.lock.json: bad");
+      });
+
+      const result = await getStatus();
+      expect(result.lockfile?.error).toContain("Invalid lockfile");
     });
   });
 });
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+
+const {
+  parseNargoToml,
+  findCompilerVersion,
+  compareVersions,
+  satisfiesVersion,
+  checkCompat,
+} = await import("../../src/utils/compat.js");
+
+describe("utils/compat", () => {
+  describe("parseNargoToml()", () => {
+    it("reads compiler_version from [package]", () => {
+      const toml = [
+        "[package]",
+        'name = "bignum"',
+        'type = "lib"',
+        'compiler_version = ">=1.0.0" # minimum',
+        "",
+        "[dependencies]",
+        'compiler_version = "ignored"',
+      ].join("\n");
+
+      expect(parseNargoToml(toml)).toEqual({
+        compilerVersion: ">=1.0.0",
+        members: [],
+      });
+    });
+
+    it("reads multi-line workspace members", () => {
+      const toml = '[workspace]\nmembers = [\n  "lib",\n  "examples/a",\n]\n';
+
+      expect(parseNargoToml(toml).members).toEqual(["lib", "examples/a"]);
+    });
+  });
+
+  describe("findCompilerVersion()", () => {
+    it("falls back to workspace members", () => {
+      const files: Record<string, string> = {
+        "Nargo.toml": '[workspace]\nmembers = ["lib/"]\n',
+        "lib/Nargo.toml": '[package]\ncompiler_version = ">=0.36.0"\n',
+      };
+
+      expect(findCompilerVersion((p) => files[p] ?? null)).toBe(">=0.36.0");
+    });
+
+    it("returns undefined without a Nargo.toml", () => {
+      expect(findCompilerVersion(() => null)).toBeUndefined();
+    });
+  });
+
+  describe("compareVersions()", () => {
+    it("orders prereleases before releases", () => {
+      const sorted = ["v1.0.0", "v1.0.0-beta.10", "v0.36.0", "v1.0.0-beta.3"].sort(
+        compareVersions
+      );
+      expect(sorted).toEqual(["v0.36.0", "v1.0.0-beta.3", "v1.0.0-beta.10", "v1.0.0"]);
+    });
+  });
+
+  describe("satisfiesVersion()", () => {
+    it.each([
+      ["v1.0.0-beta.18", ">=1.0.0-beta.3", true],
+      ["v1.0.0-beta.2", ">=1.0.0-beta.3", false],
+      ["v1.0.0", ">=0.36.0, <1.0.0", false],
+      ["v0.36.0", ">=0.36.0, <1.0.0", true],
+      ["0.36.2", "0.36", true],
+      ["0.37.0", "^0.36.0", false],
+      ["1.4.0", "^1.0", true],
+      ["0.36.5", "~0.36.1", true],
+      ["0.37.0", "~0.36.1", false],
+      ["1.0.0", "=1.0.0", true],
+      ["1.0.1", "=1.0", true],
+      ["1.0.1", "=1.0.0", false],
+    ])("%s against %s is %s", (version, requirement, expected) => {
+      expect(satisfiesVersion(version, requirement)).toBe(expected);
+    });
+
+    it("returns undefined for unparseable requirements", () => {
+      expect(satisfiesVersion("1.0.0", "latest")).toBeUndefined();
+      expect(satisfiesVersion("nightly", ">=1.0.0")).toBeUndefined();
+    });
+  });
+
+  describe("checkCompat()", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "noir-mcp-compat-"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("checks the package's Nargo.toml", () => {
+      writeFileSync(
+        join(dir, "Nargo.toml"),
+        '[package]\nname = "lib"\ncompiler_version = ">=1.0.0"\n'
+      );
+
+      expect(checkCompat(dir, "v1.0.0-beta.18")).toEqual({
+        compilerVersion: ">=1.0.0",
+        compatible: false,
+      });
+      expect(checkCompat(dir, "v1.2.0").compatible).toBe(true);
+    });
+
+    it("reads workspace members", () => {
+      writeFileSync(join(dir, "Nargo.toml"), '[workspace]\nmembers = ["lib"]\n');
+      mkdirSync(join(dir, "lib"));
+      writeFileSync(
+        join(dir, "lib", "Nargo.toml"),
+        '[package]\ncompiler_version = ">=0.36.0"\n'
+      );
+
+      expect(checkCompat(dir, "v1.0.0-beta.18").compatible).toBe(true);
+    });
+
+    it("returns nothing when there is no compiler_version", () => {
+      expect(checkCompat(dir, "v1.0.0")).toEqual({});
+    });
+  });
+});
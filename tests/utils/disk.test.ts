@@ -0,0 +1,48 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, symlinkSync, chmodSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { getDiskUsage } from "../../src/utils/disk.js";
+
+describe("utils/disk", () => {
+  const dir = mkdtempSync(join(tmpdir(), "noir-mcp-disk-"));
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("getDiskUsage()", () => {
+    it("sums file sizes recursively", async () => {
+      mkdirSync(join(dir, "repo", "src"), { recursive: true });
+      writeFileSync(join(dir, "repo", "Nargo.toml"), "x".repeat(100));
+      writeFileSync(join(dir, "repo", "src", "main.nr"), "x".repeat(50));
+
+      expect(await getDiskUsage(join(dir, "repo"))).toBe(150);
+    });
+
+    it("does not follow symlinks", async () => {
+      mkdirSync(join(dir, "linked"));
+      symlinkSync(join(dir, "repo"), join(dir, "linked", "repo"));
+
+      expect(await getDiskUsage(join(dir, "linked"))).toBeLessThan(150);
+    });
+
+    it("returns 0 for missing paths", async () => {
+      expect(await getDiskUsage(join(dir, "missing"))).toBe(0);
+    });
+
+    // Root can list any directory
+    it.skipIf(process.getuid?.() === 0)("skips directories it cannot read", async () => {
+      mkdirSync(join(dir, "partial", "locked"), { recursive: true });
+      writeFileSync(join(dir, "partial", "Nargo.toml"), "x".repeat(20));
+      writeFileSync(join(dir, "partial", "locked", "main.nr"), "x".repeat(50));
+      chmodSync(join(dir, "partial", "locked"), 0o000);
+
+      try {
+        expect(await getDiskUsage(join(dir, "partial"))).toBe(20);
+      } finally {
+        chmodSync(join(dir, "partial", "locked"), 0o755);
+      }
+    });
+  });
+});
@@ -5,7 +5,14 @@ import { join } from "path";
 vi.mock("fs", () => ({
   existsSync: vi.fn(),
   mkdirSync: vi.fn(),
+  mkdtempSync: vi.fn((prefix: string) => `${prefix}abc123`),
+  renameSync: vi.fn(),
   rmSync: vi.fn(),
+  readFileSync: vi.fn(() => {
+    throw new Error("ENOENT");
+  }),
+  writeFileSync: vi.fn(),
+  readdirSync: vi.fn(() => []),
 }));
 
 // Mock simple-git
@@ -17,6 +24,9 @@ const mockGit = {
   checkout: vi.fn().mockResolvedValue(undefined),
   log: vi.fn().mockResolvedValue({ latest: { hash: "abc1234def5678" } }),
   raw: vi.fn().mockResolvedValue(""),
+  addConfig: vi.fn().mockResolvedValue(undefined),
+  show: vi.fn().mockResolvedValue(""),
+  revparse: vi.fn().mockResolvedValue("abc1234def5678"),
 };
 
 vi.mock("simple-git", () => ({
@@ -35,8 +45,18 @@ vi.mock("os", () => ({
 // Set env before importing module
 const TEST_REPOS_DIR = "/test/repos/dir";
 process.env.NOIR_MCP_REPOS_DIR = TEST_REPOS_DIR;
+process.env.NOIR_MCP_URL_REWRITES = "https://mirror.test/=/srv/mirror/";
 
-const { existsSync, mkdirSync, rmSync } = await import("fs");
+const {
+  existsSync,
+  mkdirSync,
+  renameSync,
+  rmSync,
+  readFileSync,
+  writeFileSync,
+  readdirSync,
+} = await import("fs");
+const { DEFAULT_NOIR_VERSION } = await import("../../src/repos/config.js");
 const {
   REPOS_DIR,
   getRepoPath,
@@ -46,15 +66,50 @@ const {
   updateRepo,
   getRepoCommit,
   getRepoTag,
+  getRecordedRef,
+  getRepoRef,
+  getConfigRef,
   needsReclone,
+  getRecloneReason,
+  planRepoSync,
   getReposStatus,
+  getRepoDirName,
+  getDefaultVersion,
+  setDefaultVersion,
+  listInstalledVersions,
+  getSearchableRepoPaths,
+  getRemoteUrl,
+  getSparsePaths,
+  listRepoTags,
+  readFileAtRef,
+  getCheckoutProblem,
+  removeStaleClones,
+  getSparseCheckout,
+  validateSparsePaths,
+  addSparsePaths,
+  getRepoDirs,
+  removeRepo,
+  compactRepo,
 } = await import("../../src/utils/git.js");
 
 const mockedExistsSync = vi.mocked(existsSync);
+const mockedReadFileSync = vi.mocked(readFileSync);
+const mockedReaddirSync = vi.mocked(readdirSync);
+
+/** Make readFileSync return a sync manifest for every clone */
+function mockManifest(manifest: Record<string, unknown>): void {
+  mockedReadFileSync.mockImplementation((path: unknown) => {
+    if (String(path).endsWith("noir-mcp.json")) return JSON.stringify(manifest);
+    throw new Error("ENOENT");
+  });
+}
 
 describe("utils/git", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockedReadFileSync.mockImplementation(() => {
+      throw new Error("ENOENT");
+    });
   });
 
   describe("REPOS_DIR", () => {
@@ -65,17 +120,140 @@ describe("utils/git", () => {
 
   describe("getRepoPath()", () => {
     it("joins REPOS_DIR with repo name", () => {
-      expect(getRepoPath("noir")).toBe(join(REPOS_DIR, "noir"));
+      expect(getRepoPath("noir-examples")).toBe(join(REPOS_DIR, "noir-examples"));
       expect(getRepoPath("noir-bignum")).toBe(join(REPOS_DIR, "noir-bignum"));
     });
+
+    it("resolves versioned repos to the default version", () => {
+      expect(getRepoPath("noir")).toBe(
+        join(REPOS_DIR, `noir@${DEFAULT_NOIR_VERSION}`)
+      );
+    });
+
+    it("resolves versioned repos to the requested version", () => {
+      expect(getRepoPath("noir", "v1.0.0-beta.3")).toBe(
+        join(REPOS_DIR, "noir@v1.0.0-beta.3")
+      );
+      expect(getRepoPath("noir-bignum", "v1.0.0-beta.3")).toBe(
+        join(REPOS_DIR, "noir-bignum")
+      );
+    });
+
+    it("passes explicit version directories through", () => {
+      expect(getRepoPath("noir@v1.0.0")).toBe(join(REPOS_DIR, "noir@v1.0.0"));
+    });
+  });
+
+  describe("getRepoDirName()", () => {
+    it("suffixes the tag for versioned repos", () => {
+      expect(
+        getRepoDirName({
+          name: "noir",
+          url: "https://github.com/noir-lang/noir",
+          tag: "v1.0.0",
+          versioned: true,
+          description: "Noir",
+          category: "core",
+        })
+      ).toBe("noir@v1.0.0");
+    });
+
+    it("gives a versioned repo pinned to a commit its own directory", () => {
+      expect(
+        getRepoDirName({
+          name: "noir",
+          url: "https://github.com/noir-lang/noir",
+          commit: "ABC1234DEF5678",
+          versioned: true,
+          description: "Noir",
+          category: "core",
+        })
+      ).toBe("noir@abc1234");
+    });
+
+    it("uses the plain name otherwise", () => {
+      expect(
+        getRepoDirName({
+          name: "noir-bignum",
+          url: "https://github.com/noir-lang/noir-bignum",
+          tag: "v0.7.0",
+          description: "Big integers",
+          category: "libraries",
+        })
+      ).toBe("noir-bignum");
+    });
+  });
+
+  describe("default versions", () => {
+    it("falls back to the configured tag", () => {
+      expect(getDefaultVersion("noir")).toBe(DEFAULT_NOIR_VERSION);
+    });
+
+    it("reads the recorded default version", () => {
+      mockedReadFileSync.mockReturnValueOnce(
+        JSON.stringify({ noir: "v1.0.0-beta.3" })
+      );
+      expect(getDefaultVersion("noir")).toBe("v1.0.0-beta.3");
+    });
+
+    it("records the default version", () => {
+      setDefaultVersion("noir", "v1.0.0-beta.3");
+      expect(writeFileSync).toHaveBeenCalledWith(
+        join(REPOS_DIR, ".default-versions.json"),
+        JSON.stringify({ noir: "v1.0.0-beta.3" }, null, 2)
+      );
+    });
+  });
+
+  describe("listInstalledVersions()", () => {
+    it("lists cloned version directories", () => {
+      mockedReaddirSync.mockReturnValueOnce([
+        "noir@v1.0.0-beta.3",
+        "noir@v1.0.0-beta.19",
+        "noir-examples",
+      ] as never);
+      mockedExistsSync.mockReturnValue(true);
+
+      expect(listInstalledVersions("noir")).toEqual([
+        "v1.0.0-beta.19",
+        "v1.0.0-beta.3",
+      ]);
+    });
+  });
+
+  describe("getSearchableRepoPaths()", () => {
+    const dirent = (name: string) => ({ name, isDirectory: () => true });
+
+    beforeEach(() => {
+      mockedReaddirSync.mockReturnValueOnce([
+        dirent("noir@v1.0.0-beta.3"),
+        dirent(`noir@${DEFAULT_NOIR_VERSION}`),
+        dirent("noir-examples"),
+        dirent(".tmp"),
+      ] as never);
+    });
+
+    it("includes only the default version of versioned repos", () => {
+      expect(getSearchableRepoPaths()).toEqual([
+        join(REPOS_DIR, `noir@${DEFAULT_NOIR_VERSION}`),
+        join(REPOS_DIR, "noir-examples"),
+      ]);
+    });
+
+    it("includes the requested version instead", () => {
+      expect(getSearchableRepoPaths("v1.0.0-beta.3")).toEqual([
+        join(REPOS_DIR, "noir@v1.0.0-beta.3"),
+        join(REPOS_DIR, "noir-examples"),
+      ]);
+    });
   });
 
   describe("isRepoCloned()", () => {
     it("returns true when .git dir exists", () => {
       mockedExistsSync.mockReturnValue(true);
-      expect(isRepoCloned("noir")).toBe(true);
+      expect(isRepoCloned("noir-examples")).toBe(true);
       expect(mockedExistsSync).toHaveBeenCalledWith(
-        join(REPOS_DIR, "noir", ".git")
+        join(REPOS_DIR, "noir-examples", ".git")
       );
     });
 
@@ -150,6 +328,66 @@ describe("utils/git", () => {
     });
   });
 
+  describe("listRepoTags()", () => {
+    it("lists local tags", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockResolvedValue("v0.6.0\nv0.7.0\n");
+
+      expect(await listRepoTags("noir-bignum")).toEqual(["v0.6.0", "v0.7.0"]);
+      expect(mockGit.raw).toHaveBeenCalledWith(["tag", "--list"]);
+    });
+
+    it("returns empty list when repo is not cloned", async () => {
+      mockedExistsSync.mockReturnValue(false);
+
+      expect(await listRepoTags("noir-bignum")).toEqual([]);
+    });
+  });
+
+  describe("getRemoteUrl()", () => {
+    it("returns the origin URL", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockResolvedValue("https://github.com/noir-lang/noir-bignum\n");
+
+      expect(await getRemoteUrl("noir-bignum")).toBe(
+        "https://github.com/noir-lang/noir-bignum"
+      );
+      expect(mockGit.raw).toHaveBeenCalledWith(["remote", "get-url", "origin"]);
+    });
+  });
+
+  describe("getSparsePaths()", () => {
+    it("lists sparse checkout paths", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockResolvedValue("docs\nnoir_stdlib\n");
+
+      expect(await getSparsePaths("noir-examples")).toEqual(["docs", "noir_stdlib"]);
+    });
+
+    it("returns null for full checkouts", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockRejectedValue(new Error("fatal: this worktree is not sparse"));
+
+      expect(await getSparsePaths("noir-examples")).toBeNull();
+    });
+  });
+
+  describe("readFileAtRef()", () => {
+    it("reads a file at a ref", async () => {
+      mockGit.show.mockResolvedValue("[package]\n");
+
+      const content = await readFileAtRef("noir-bignum", "v0.7.0", "Nargo.toml");
+      expect(content).toBe("[package]\n");
+      expect(mockGit.show).toHaveBeenCalledWith(["v0.7.0:Nargo.toml"]);
+    });
+
+    it("returns null when the file does not exist at the ref", async () => {
+      mockGit.show.mockRejectedValue(new Error("path does not exist"));
+
+      expect(await readFileAtRef("noir-bignum", "v0.7.0", "Nargo.toml")).toBeNull();
+    });
+  });
+
   describe("needsReclone()", () => {
     it("returns true when repo is not cloned", async () => {
       mockedExistsSync.mockReturnValue(false);
@@ -219,6 +457,53 @@ describe("utils/git", () => {
       expect(result).toBe(false);
     });
 
+    it("returns true when a branch config replaces a pinned clone", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockResolvedValue("v0.7.0\n");
+
+      const result = await needsReclone({
+        name: "noir-bignum",
+        url: "https://github.com/noir-lang/noir-bignum",
+        branch: "main",
+        description: "Big integers",
+        category: "libraries",
+      });
+      expect(result).toBe(true);
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        "config",
+        "--get",
+        "noir-mcp.ref",
+      ]);
+    });
+
+    it("returns false when the recorded ref matches the branch", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockResolvedValue("main\n");
+
+      const result = await needsReclone({
+        name: "noir-bignum",
+        url: "https://github.com/noir-lang/noir-bignum",
+        branch: "main",
+        description: "Big integers",
+        category: "libraries",
+      });
+      expect(result).toBe(false);
+    });
+
+    it("returns false when no ref was recorded", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockRejectedValue(new Error("key not found"));
+
+      const result = await needsReclone({
+        name: "noir-bignum",
+        url: "https://github.com/noir-lang/noir-bignum",
+        branch: "main",
+        description: "Big integers",
+        category: "libraries",
+      });
+      expect(result).toBe(false);
+    });
+
     it("returns false when no tag/commit in config and repo is cloned", async () => {
       mockedExistsSync.mockReturnValue(true);
 
@@ -232,6 +517,124 @@ describe("utils/git", () => {
     });
   });
 
+  describe("getRecloneReason()", () => {
+    const bignum = {
+      name: "noir-bignum",
+      url: "https://github.com/noir-lang/noir-bignum",
+      description: "Big integers",
+      category: "libraries" as const,
+    };
+
+    it("reports a missing clone", async () => {
+      mockedExistsSync.mockReturnValue(false);
+
+      expect(await getRecloneReason(bignum)).toBe("not cloned");
+    });
+
+    it("reports a changed URL", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockManifest({ url: "https://github.com/someone/noir-bignum", ref: "main" });
+
+      expect(await getRecloneReason({ ...bignum, branch: "main" })).toBe(
+        "URL changed from https://github.com/someone/noir-bignum to https://github.com/noir-lang/noir-bignum"
+      );
+    });
+
+    it("reports a tag mismatch", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockResolvedValue("v0.7.0\n");
+
+      expect(await getRecloneReason({ ...bignum, tag: "v0.8.0" })).toBe(
+        "at v0.7.0, tag v0.8.0 requested"
+      );
+    });
+
+    it("returns null when the clone matches", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockManifest({ url: bignum.url, ref: "main" });
+
+      expect(await getRecloneReason({ ...bignum, branch: "main" })).toBeNull();
+    });
+  });
+
+  describe("planRepoSync()", () => {
+    const bignum = {
+      name: "noir-bignum",
+      url: "https://github.com/noir-lang/noir-bignum",
+      description: "Big integers",
+      category: "libraries" as const,
+    };
+
+    it("plans a clone for missing repos", async () => {
+      mockedExistsSync.mockReturnValue(false);
+
+      expect(await planRepoSync({ ...bignum, tag: "v0.8.0" })).toEqual({
+        action: "clone",
+        reason: "not cloned, will check out v0.8.0",
+      });
+    });
+
+    it("plans a re-clone when forced", async () => {
+      mockedExistsSync.mockReturnValue(true);
+
+      expect(await planRepoSync({ ...bignum, branch: "main" }, true)).toEqual({
+        action: "reclone",
+        reason: "force requested",
+      });
+    });
+
+    it("plans a re-clone when the pinned tag changes", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockResolvedValue("v0.7.0\n");
+
+      expect(await planRepoSync({ ...bignum, tag: "v0.8.0" })).toEqual({
+        action: "reclone",
+        reason: "at v0.7.0, tag v0.8.0 requested",
+      });
+    });
+
+    it("keeps a clone already at its pinned tag", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockManifest({ url: bignum.url, ref: "v0.8.0" });
+      mockGit.raw.mockResolvedValue("v0.8.0\n");
+
+      expect(await planRepoSync({ ...bignum, tag: "v0.8.0" })).toEqual({
+        action: "keep",
+        reason: "already at v0.8.0",
+      });
+    });
+
+    it("keeps a clone whose commit carries the pinned tag among others", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockManifest({ url: bignum.url, ref: "v0.8.0" });
+      mockGit.raw.mockImplementation(async (args: string[]) => {
+        if (args[0] === "describe") return "v0.1.0\n";
+        if (args[0] === "tag") return "v0.1.0\nv0.8.0\n";
+        return "";
+      });
+
+      expect(await planRepoSync({ ...bignum, tag: "v0.8.0" })).toEqual({
+        action: "keep",
+        reason: "already at v0.8.0",
+      });
+      expect(mockGit.raw).toHaveBeenCalledWith(["tag", "--points-at", "HEAD"]);
+    });
+
+    it("plans an update for branches and notes sparse changes", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockManifest({ url: bignum.url, ref: "main", sparse: ["src"] });
+
+      expect(
+        await planRepoSync({ ...bignum, branch: "main", sparse: ["src", "docs"] })
+      ).toEqual({
+        action: "update",
+        reason: "fetch latest main; sparse paths changed to src, docs",
+      });
+      expect(mockGit.fetch).not.toHaveBeenCalled();
+      expect(mockGit.checkout).not.toHaveBeenCalled();
+    });
+  });
+
   describe("cloneRepo()", () => {
     it("clones with sparse checkout when configured", async () => {
       mockedExistsSync.mockReturnValue(false);
@@ -257,6 +660,42 @@ describe("utils/git", () => {
       expect(mockGit.clone).toHaveBeenCalled();
     });
 
+    it("fetches a full commit hash by name", async () => {
+      mockedExistsSync.mockReturnValue(false);
+      const commit = "0123456789abcdef0123456789abcdef01234567";
+
+      await cloneRepo({
+        name: "noir-bignum",
+        url: "https://github.com/noir-lang/noir-bignum",
+        commit,
+        description: "Big integers",
+        category: "libraries",
+      });
+
+      expect(mockGit.fetch).toHaveBeenCalledWith(["origin", commit]);
+      expect(mockGit.checkout).toHaveBeenCalledWith(commit);
+    });
+
+    it("resolves a short commit hash in the cloned history", async () => {
+      mockedExistsSync.mockReturnValue(false);
+      const commit = "0123456789abcdef0123456789abcdef01234567";
+      mockGit.raw.mockImplementation(async (args: string[]) =>
+        args[0] === "rev-parse" ? `${commit}\n` : ""
+      );
+
+      await cloneRepo({
+        name: "noir-bignum",
+        url: "https://github.com/noir-lang/noir-bignum",
+        commit: "0123456",
+        description: "Big integers",
+        category: "libraries",
+      });
+
+      expect(mockGit.raw).toHaveBeenCalledWith(["rev-parse", "--verify", "0123456^{commit}"]);
+      expect(mockGit.fetch).not.toHaveBeenCalled();
+      expect(mockGit.checkout).toHaveBeenCalledWith(commit);
+    });
+
     it("clones without sparse for small repos", async () => {
       mockedExistsSync.mockReturnValue(false);
 
@@ -272,6 +711,258 @@ describe("utils/git", () => {
       expect(mockGit.clone).toHaveBeenCalled();
     });
 
+    it("clones from the rewritten URL", async () => {
+      mockedExistsSync.mockReturnValue(false);
+
+      await cloneRepo({
+        name: "my-lib",
+        url: "https://mirror.test/org/my-lib",
+        branch: "main",
+        description: "Mine",
+        category: "libraries",
+      });
+
+      expect(mockGit.clone).toHaveBeenCalledWith(
+        "file:///srv/mirror/org/my-lib",
+        expect.stringContaining(`${TEST_REPOS_DIR}/repos/.my-lib.tmp-`),
+        expect.any(Array)
+      );
+    });
+
+    it("clones into a temporary directory and moves it into place", async () => {
+      mockedExistsSync.mockReturnValue(false);
+
+      await cloneRepo({
+        name: "noir-examples",
+        url: "https://github.com/noir-lang/noir-examples",
+        branch: "master",
+        description: "Examples",
+        category: "core",
+      });
+
+      const tempPath = join(REPOS_DIR, ".noir-examples.tmp-abc123");
+      expect(mockGit.clone).toHaveBeenCalledWith(
+        "https://github.com/noir-lang/noir-examples",
+        tempPath,
+        expect.any(Array)
+      );
+      expect(renameSync).toHaveBeenCalledWith(tempPath, join(REPOS_DIR, "noir-examples"));
+    });
+
+    it("keeps the previous checkout when cloning fails", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.clone.mockRejectedValueOnce(new Error("Abort signal received"));
+
+      await expect(
+        cloneRepo(
+          {
+            name: "noir-examples",
+            url: "https://github.com/noir-lang/noir-examples",
+            branch: "master",
+            description: "Examples",
+            category: "core",
+          },
+          true
+        )
+      ).rejects.toThrow("Abort signal received");
+      expect(renameSync).not.toHaveBeenCalled();
+      expect(rmSync).toHaveBeenCalledTimes(1);
+      expect(rmSync).toHaveBeenCalledWith(join(REPOS_DIR, ".noir-examples.tmp-abc123"), {
+        recursive: true,
+        force: true,
+      });
+    });
+
+    it("replaces the previous checkout only after the new clone succeeds", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      const tempPath = join(REPOS_DIR, ".noir-examples.tmp-abc123");
+      const repoPath = join(REPOS_DIR, "noir-examples");
+
+      await cloneRepo(
+        {
+          name: "noir-examples",
+          url: "https://github.com/noir-lang/noir-examples",
+          branch: "master",
+          description: "Examples",
+          category: "core",
+        },
+        true
+      );
+
+      expect(vi.mocked(renameSync).mock.calls).toEqual([
+        [repoPath, `${tempPath}.old`],
+        [tempPath, repoPath],
+      ]);
+      expect(rmSync).toHaveBeenCalledWith(`${tempPath}.old`, {
+        recursive: true,
+        force: true,
+      });
+    });
+
+    it("writes a sync manifest after cloning", async () => {
+      mockedExistsSync.mockReturnValue(false);
+
+      await cloneRepo({
+        name: "noir-bignum",
+        url: "https://github.com/noir-lang/noir-bignum",
+        tag: "v0.7.0",
+        description: "Big integers",
+        category: "libraries",
+      });
+
+      const [path, content] = vi.mocked(writeFileSync).mock.calls[0];
+      expect(path).toBe(join(REPOS_DIR, ".noir-bignum.tmp-abc123", ".git", "noir-mcp.json"));
+      expect(JSON.parse(String(content))).toMatchObject({
+        url: "https://github.com/noir-lang/noir-bignum",
+        ref: "v0.7.0",
+      });
+    });
+
+    it("leaves pinned clones alone when already at the requested ref", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockResolvedValue("v0.7.0\n");
+      mockManifest({ url: "https://github.com/noir-lang/noir-bignum", ref: "v0.7.0" });
+
+      const result = await cloneRepo({
+        name: "noir-bignum",
+        url: "https://github.com/noir-lang/noir-bignum",
+        tag: "v0.7.0",
+        description: "Big integers",
+        category: "libraries",
+      });
+
+      expect(result).toBe("noir-bignum already at v0.7.0");
+      expect(mockGit.clone).not.toHaveBeenCalled();
+      expect(mockGit.reset).not.toHaveBeenCalled();
+    });
+
+    it("changes sparse paths in place when only they changed", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockResolvedValue("v1.0.0\n");
+      mockManifest({
+        url: "https://github.com/noir-lang/noir",
+        ref: "v1.0.0",
+        sparse: ["docs"],
+      });
+
+      const result = await cloneRepo({
+        name: "my-noir",
+        url: "https://github.com/noir-lang/noir",
+        tag: "v1.0.0",
+        sparse: ["docs", "compiler"],
+        description: "Noir",
+        category: "core",
+      });
+
+      expect(result).toBe("my-noir already at v1.0.0 (sparse paths changed to docs, compiler)");
+      expect(mockGit.raw).toHaveBeenCalledWith(["sparse-checkout", "set", "docs", "compiler"]);
+      expect(mockGit.clone).not.toHaveBeenCalled();
+    });
+
+    it("keeps extra sparse paths recorded for the clone", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockResolvedValue("v1.0.0\n");
+      mockManifest({
+        url: "https://github.com/noir-lang/noir",
+        ref: "v1.0.0",
+        sparse: ["docs", "compiler"],
+        extraSparse: ["compiler"],
+      });
+
+      const result = await cloneRepo({
+        name: "my-noir",
+        url: "https://github.com/noir-lang/noir",
+        tag: "v1.0.0",
+        sparse: ["docs"],
+        description: "Noir",
+        category: "core",
+      });
+
+      expect(result).toBe("my-noir already at v1.0.0");
+      expect(mockGit.raw).not.toHaveBeenCalledWith(expect.arrayContaining(["sparse-checkout"]));
+    });
+
+    it("re-clones when the URL changed", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockResolvedValue("v0.7.0\n");
+      mockManifest({ url: "https://github.com/someone/noir-bignum", ref: "v0.7.0" });
+
+      const result = await cloneRepo({
+        name: "noir-bignum",
+        url: "https://github.com/noir-lang/noir-bignum",
+        tag: "v0.7.0",
+        description: "Big integers",
+        category: "libraries",
+      });
+
+      expect(result).toContain("Cloned noir-bignum");
+      expect(mockGit.clone).toHaveBeenCalled();
+    });
+
+    it("clones versioned repos into a version directory", async () => {
+      mockedExistsSync.mockReturnValue(false);
+
+      const result = await cloneRepo({
+        name: "noir",
+        url: "https://github.com/noir-lang/noir",
+        tag: "v1.0.0-beta.3",
+        versioned: true,
+        description: "Noir",
+        category: "core",
+      });
+
+      expect(result).toContain("Cloned noir @ v1.0.0-beta.3");
+      expect(mockGit.clone).toHaveBeenCalledWith(
+        "https://github.com/noir-lang/noir",
+        join(REPOS_DIR, ".noir@v1.0.0-beta.3.tmp-abc123"),
+        expect.any(Array)
+      );
+      expect(renameSync).toHaveBeenCalledWith(
+        join(REPOS_DIR, ".noir@v1.0.0-beta.3.tmp-abc123"),
+        join(REPOS_DIR, "noir@v1.0.0-beta.3")
+      );
+    });
+
+    it("removes a clone from before versioned directories", async () => {
+      mockedExistsSync.mockImplementation(
+        (path: unknown) => String(path) === join(REPOS_DIR, "noir")
+      );
+
+      await cloneRepo({
+        name: "noir",
+        url: "https://github.com/noir-lang/noir",
+        tag: "v1.0.0-beta.3",
+        versioned: true,
+        description: "Noir",
+        category: "core",
+      });
+
+      expect(rmSync).toHaveBeenCalledWith(join(REPOS_DIR, "noir"), {
+        recursive: true,
+        force: true,
+      });
+    });
+
+    it("keeps the clone from before versioned directories when cloning fails", async () => {
+      mockedExistsSync.mockImplementation(
+        (path: unknown) => String(path) === join(REPOS_DIR, "noir")
+      );
+      mockGit.clone.mockRejectedValueOnce(new Error("Abort signal received"));
+
+      await expect(
+        cloneRepo({
+          name: "noir",
+          url: "https://github.com/noir-lang/noir",
+          tag: "v1.0.0-beta.3",
+          versioned: true,
+          description: "Noir",
+          category: "core",
+        })
+      ).rejects.toThrow("Abort signal received");
+
+      expect(rmSync).not.toHaveBeenCalledWith(join(REPOS_DIR, "noir"), expect.anything());
+    });
+
     it("removes and re-clones when force=true and dir exists", async () => {
       // needsReclone returns true (not cloned) on first existsSync for .git
       // but dir exists for rmSync check
@@ -297,37 +988,360 @@ describe("utils/git", () => {
   });
 
   describe("updateRepo()", () => {
-    it("fetches and resets on success", async () => {
+    const examples = {
+      name: "noir-examples",
+      url: "https://github.com/noir-lang/noir-examples",
+      branch: "master",
+      description: "Examples",
+      category: "core" as const,
+    };
+
+    it("points origin at the current URL before fetching", async () => {
       mockedExistsSync.mockReturnValue(true);
-      mockGit.fetch.mockResolvedValue(undefined);
-      mockGit.reset.mockResolvedValue(undefined);
+      mockGit.raw.mockImplementation(async (args: string[]) =>
+        args[1] === "get-url" ? "https://old.example/noir-examples\n" : ""
+      );
 
-      const result = await updateRepo("noir");
-      expect(result).toBe("Updated noir");
+      await updateRepo(examples);
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        "remote",
+        "set-url",
+        "origin",
+        "https://github.com/noir-lang/noir-examples",
+      ]);
     });
 
-    it("falls back to pull when fetch+reset fails", async () => {
+    it("fetches the configured branch and moves to its tip", async () => {
       mockedExistsSync.mockReturnValue(true);
-      mockGit.fetch.mockRejectedValue(new Error("fetch fail"));
-      mockGit.pull.mockResolvedValue(undefined);
+      mockGit.log
+        .mockResolvedValueOnce({ latest: { hash: "abc1234def5678" } })
+        .mockResolvedValueOnce({ latest: { hash: "fff0000aaa1111" } });
 
-      const result = await updateRepo("noir");
-      expect(result).toBe("Updated noir");
+      const result = await updateRepo(examples);
+      expect(result).toBe("Updated noir-examples on master");
+      expect(mockGit.fetch).toHaveBeenCalledWith([
+        "--depth=1",
+        "origin",
+        "+refs/heads/master:refs/remotes/origin/master",
+      ]);
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        "checkout",
+        "--force",
+        "-B",
+        "master",
+        "origin/master",
+      ]);
     });
 
-    it("returns error message when both fail", async () => {
+    it("reports when the branch is already up to date", async () => {
       mockedExistsSync.mockReturnValue(true);
-      mockGit.fetch.mockRejectedValue(new Error("fetch fail"));
-      mockGit.pull.mockRejectedValue(new Error("pull fail"));
 
-      const result = await updateRepo("noir");
-      expect(result).toContain("Failed to update noir");
+      const result = await updateRepo(examples);
+      expect(result).toBe("noir-examples is up to date on master");
+    });
+
+    it("uses the checked-out branch when none is configured", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockImplementation(async (args: string[]) =>
+        args[0] === "rev-parse" ? "main\n" : ""
+      );
+
+      await updateRepo({ ...examples, branch: undefined });
+      expect(mockGit.fetch).toHaveBeenCalledWith([
+        "--depth=1",
+        "origin",
+        "+refs/heads/main:refs/remotes/origin/main",
+      ]);
+    });
+
+    it("leaves tag and commit pins alone", async () => {
+      mockedExistsSync.mockReturnValue(true);
+
+      const result = await updateRepo({
+        ...examples,
+        name: "noir",
+        tag: "v1.0.0-beta.3",
+      });
+      expect(result).toBe("noir already at v1.0.0-beta.3");
+      expect(mockGit.fetch).not.toHaveBeenCalled();
+    });
+
+    it("throws when the fetch fails", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.fetch.mockRejectedValueOnce(new Error("fetch fail"));
+
+      await expect(updateRepo(examples)).rejects.toThrow(
+        "Failed to update noir-examples on master: fetch fail"
+      );
     });
 
     it("throws when repo is not cloned", async () => {
       mockedExistsSync.mockReturnValue(false);
 
-      await expect(updateRepo("noir")).rejects.toThrow("not cloned");
+      await expect(updateRepo(examples)).rejects.toThrow("not cloned");
+    });
+  });
+
+  describe("getRepoDirs()", () => {
+    it("lists every directory of a repo", () => {
+      mockedReaddirSync.mockReturnValueOnce([
+        "noir@v1.0.0-beta.3",
+        "noir-examples",
+        ".noir@v1.0.0-beta.4.tmp-abc123",
+        "noir@v1.0.0-beta.2",
+      ] as never);
+
+      expect(getRepoDirs("noir")).toEqual(["noir@v1.0.0-beta.2", "noir@v1.0.0-beta.3"]);
+    });
+  });
+
+  describe("removeRepo()", () => {
+    it("removes the requested version only", () => {
+      mockedReaddirSync.mockReturnValue(["noir@v1.0.0-beta.2", "noir@v1.0.0-beta.3"] as never);
+
+      expect(removeRepo("noir", "v1.0.0-beta.2")).toEqual(["noir@v1.0.0-beta.2"]);
+      expect(rmSync).toHaveBeenCalledTimes(1);
+      expect(rmSync).toHaveBeenCalledWith(join(REPOS_DIR, "noir@v1.0.0-beta.2"), {
+        recursive: true,
+        force: true,
+      });
+      mockedReaddirSync.mockReturnValue([]);
+    });
+
+    it("forgets a default version that was removed", () => {
+      mockedReaddirSync.mockReturnValue(["noir@v1.0.0-beta.2"] as never);
+      mockedReadFileSync.mockReturnValue(JSON.stringify({ noir: "v1.0.0-beta.2" }));
+      mockedExistsSync.mockReturnValue(false);
+
+      removeRepo("noir");
+      expect(writeFileSync).toHaveBeenCalledWith(
+        join(REPOS_DIR, ".default-versions.json"),
+        "{}"
+      );
+      mockedReaddirSync.mockReturnValue([]);
+    });
+  });
+
+  describe("compactRepo()", () => {
+    it("expires the reflog and prunes unreachable objects", async () => {
+      mockedExistsSync.mockReturnValue(true);
+
+      await compactRepo("noir-examples");
+      expect(mockGit.raw).toHaveBeenCalledWith(["reflog", "expire", "--expire=now", "--all"]);
+      expect(mockGit.raw).toHaveBeenCalledWith(["gc", "--prune=now", "--quiet"]);
+    });
+  });
+
+  describe("getSparseCheckout()", () => {
+    const base = {
+      name: "noir",
+      url: "https://github.com/noir-lang/noir",
+      description: "Noir",
+      category: "core" as const,
+    };
+
+    it("adds extra paths to the configured ones", () => {
+      expect(
+        getSparseCheckout({ ...base, sparse: ["docs"], extraSparse: ["compiler", "docs"] })
+      ).toEqual(["docs", "compiler"]);
+    });
+
+    it("ignores extra paths for full checkouts", () => {
+      expect(getSparseCheckout({ ...base, extraSparse: ["compiler"] })).toBeUndefined();
+    });
+  });
+
+  describe("validateSparsePaths()", () => {
+    it("accepts relative paths", () => {
+      expect(() => validateSparsePaths(["compiler/noirc_frontend", "test_programs"])).not.toThrow();
+    });
+
+    it("rejects absolute, parent and empty paths", () => {
+      expect(() => validateSparsePaths(["/etc", "../x", " "])).toThrow(
+        'Invalid sparse paths: "/etc", "../x", " "'
+      );
+    });
+  });
+
+  describe("addSparsePaths()", () => {
+    it("adds missing paths and records them as extra", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockImplementation(async (args: string[]) =>
+        args[1] === "list" ? "docs\nnoir_stdlib\n" : ""
+      );
+      mockManifest({
+        url: "https://github.com/noir-lang/noir",
+        ref: "v1.0.0",
+        sparse: ["docs", "noir_stdlib"],
+      });
+
+      const result = await addSparsePaths("noir", ["docs", "compiler"], "v1.0.0");
+      expect(result).toEqual({ sparse: ["docs", "noir_stdlib", "compiler"], added: ["compiler"] });
+      expect(mockGit.raw).toHaveBeenCalledWith(["sparse-checkout", "add", "compiler"]);
+
+      const [path, content] = vi.mocked(writeFileSync).mock.calls[0];
+      expect(path).toBe(join(REPOS_DIR, "noir@v1.0.0", ".git", "noir-mcp.json"));
+      expect(JSON.parse(String(content))).toMatchObject({
+        ref: "v1.0.0",
+        sparse: ["docs", "noir_stdlib", "compiler"],
+        extraSparse: ["compiler"],
+      });
+    });
+
+    it("rejects full checkouts", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockRejectedValue(new Error("fatal: this worktree is not sparse"));
+
+      await expect(addSparsePaths("noir-examples", ["src"])).rejects.toThrow(
+        "noir-examples is a full checkout"
+      );
+    });
+
+    it("rejects repos that are not cloned", async () => {
+      mockedExistsSync.mockReturnValue(false);
+
+      await expect(addSparsePaths("noir-examples", ["src"])).rejects.toThrow(
+        "noir-examples is not cloned"
+      );
+    });
+  });
+
+  describe("getCheckoutProblem()", () => {
+    it("returns null for missing and healthy checkouts", async () => {
+      mockedExistsSync.mockReturnValue(false);
+      expect(await getCheckoutProblem("noir-examples")).toBeNull();
+
+      mockedExistsSync.mockReturnValue(true);
+      expect(await getCheckoutProblem("noir-examples")).toBeNull();
+    });
+
+    it("flags a directory without .git", async () => {
+      mockedExistsSync.mockImplementation((path: unknown) => !String(path).endsWith(".git"));
+      expect(await getCheckoutProblem("noir-examples")).toBe(
+        "directory is not a git checkout"
+      );
+    });
+
+    it("flags a clone without a checked-out commit", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.revparse.mockRejectedValueOnce(new Error("Needed a single revision"));
+      expect(await getCheckoutProblem("noir-examples")).toBe("no commit is checked out");
+    });
+
+    it("flags a clone whose files were never checked out", async () => {
+      mockedExistsSync.mockImplementation((path: unknown) => !String(path).endsWith("index"));
+      expect(await getCheckoutProblem("noir-examples")).toBe(
+        "files were never checked out"
+      );
+    });
+  });
+
+  describe("removeStaleClones()", () => {
+    it("removes temporary clone directories only", () => {
+      mockedReaddirSync.mockReturnValueOnce([
+        ".noir-examples.tmp-abc123",
+        ".default-versions.json",
+        "noir-examples",
+      ] as never);
+
+      expect(removeStaleClones()).toEqual([".noir-examples.tmp-abc123"]);
+      expect(rmSync).toHaveBeenCalledTimes(1);
+      expect(rmSync).toHaveBeenCalledWith(join(REPOS_DIR, ".noir-examples.tmp-abc123"), {
+        recursive: true,
+        force: true,
+      });
+    });
+  });
+
+  describe("getConfigRef()", () => {
+    const base = {
+      name: "noir",
+      url: "https://github.com/noir-lang/noir",
+      description: "Noir",
+      category: "core",
+    };
+
+    it("prefers commit over tag over branch", () => {
+      expect(getConfigRef({ ...base, branch: "master", tag: "v1", commit: "abc1234" })).toBe("abc1234");
+      expect(getConfigRef({ ...base, branch: "master", tag: "v1" })).toBe("v1");
+      expect(getConfigRef({ ...base, branch: "master" })).toBe("master");
+      expect(getConfigRef(base)).toBeUndefined();
+    });
+  });
+
+  describe("getRecordedRef()", () => {
+    it("reads the ref from the sync manifest", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockManifest({ url: "https://github.com/noir-lang/noir-bignum", ref: "v0.8.0" });
+
+      expect(await getRecordedRef("noir-bignum")).toBe("v0.8.0");
+      expect(mockGit.raw).not.toHaveBeenCalled();
+    });
+
+    it("reads the recorded ref from git config for older clones", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockResolvedValue("v0.7.0\n");
+
+      expect(await getRecordedRef("noir-bignum")).toBe("v0.7.0");
+    });
+
+    it("returns null when nothing was recorded", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockRejectedValue(new Error("exit code 1"));
+
+      expect(await getRecordedRef("noir-bignum")).toBeNull();
+    });
+  });
+
+  describe("getRepoRef()", () => {
+    it("returns the tag when HEAD is tagged", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockResolvedValue("v1.0.0\n");
+
+      expect(await getRepoRef("noir")).toBe("v1.0.0");
+    });
+
+    it("returns the branch name when HEAD is not tagged", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockImplementation(async (args: string[]) => {
+        if (args[0] === "describe") throw new Error("not a tag");
+        return "main\n";
+      });
+
+      expect(await getRepoRef("noir-bignum")).toBe("main");
+    });
+
+    it("reports the requested branch even when its tip is tagged", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockImplementation(async (args: string[]) => {
+        if (args[0] === "describe" || args[0] === "tag") return "v0.1.0\n";
+        return "main\n";
+      });
+
+      expect(await getRepoRef("noir-bignum", "main")).toBe("main");
+      expect(await getRepoRef("noir-bignum")).toBe("v0.1.0");
+    });
+
+    it("reports the requested tag among several at HEAD", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.raw.mockImplementation(async (args: string[]) => {
+        if (args[0] === "describe") return "v0.1.0\n";
+        if (args[0] === "tag") return "v0.1.0\nv1.0.0\n";
+        return "HEAD\n";
+      });
+
+      expect(await getRepoRef("noir", "v1.0.0")).toBe("v1.0.0");
+    });
+
+    it("falls back to the commit for detached checkouts", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.log.mockResolvedValue({ latest: { hash: "abc1234def5678" } });
+      mockGit.raw.mockImplementation(async (args: string[]) => {
+        if (args[0] === "describe") throw new Error("not a tag");
+        return "HEAD\n";
+      });
+
+      expect(await getRepoRef("noir-bignum")).toBe("abc1234");
     });
   });
 
@@ -335,11 +1349,17 @@ describe("utils/git", () => {
     it("returns map of clone status and commits", async () => {
       mockedExistsSync.mockReturnValue(true);
       mockGit.log.mockResolvedValue({ latest: { hash: "abc1234" } });
+      mockGit.raw.mockImplementation(async (args: string[]) => {
+        if (args[0] === "config") throw new Error("not recorded");
+        if (args[0] === "describe") return "v1.0.0\n";
+        return "";
+      });
 
       const configs = [
         {
           name: "noir",
           url: "https://github.com/noir-lang/noir",
+          tag: "v1.0.0",
           description: "Noir",
           category: "core" as const,
         },
@@ -349,6 +1369,68 @@ describe("utils/git", () => {
       expect(status.get("noir")).toEqual({
         cloned: true,
         commit: "abc1234",
+        requestedRef: "v1.0.0",
+        ref: "v1.0.0",
+      });
+    });
+
+    it("reports broken checkouts as not cloned", async () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.revparse.mockRejectedValueOnce(new Error("Needed a single revision"));
+
+      const status = await getReposStatus([
+        {
+          name: "noir-examples",
+          url: "https://github.com/noir-lang/noir-examples",
+          branch: "master",
+          description: "Examples",
+          category: "core" as const,
+        },
+      ]);
+      expect(status.get("noir-examples")).toEqual({
+        cloned: false,
+        requestedRef: "master",
+        broken: "no commit is checked out",
+      });
+    });
+
+    it("treats a checked-out commit pin as matching", async () => {
+      const commit = "0123456789abcdef0123456789abcdef01234567";
+      mockedExistsSync.mockReturnValue(true);
+      mockGit.log.mockResolvedValue({ latest: { hash: commit } });
+      mockGit.raw.mockImplementation(async (args: string[]) => {
+        if (args[0] === "config") return `${commit}\n`;
+        if (args[0] === "describe") throw new Error("not a tag");
+        return "HEAD\n";
+      });
+
+      const status = await getReposStatus([
+        {
+          name: "noir-bignum",
+          url: "https://github.com/noir-lang/noir-bignum",
+          commit,
+          description: "Big integers",
+          category: "libraries",
+        },
+      ]);
+      expect(status.get("noir-bignum")?.ref).toBe(commit);
+    });
+
+    it("reports the configured ref for repos that are not cloned", async () => {
+      mockedExistsSync.mockReturnValue(false);
+
+      const status = await getReposStatus([
+        {
+          name: "noir-bignum",
+          url: "https://github.com/noir-lang/noir-bignum",
+          branch: "main",
+          description: "Big integers",
+          category: "libraries",
+        },
+      ]);
+      expect(status.get("noir-bignum")).toEqual({
+        cloned: false,
+        requestedRef: "main",
       });
     });
   });
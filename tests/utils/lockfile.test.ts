@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+
+const COMMIT_A = "a".repeat(40);
+const COMMIT_B = "b".repeat(40);
+
+vi.mock("../../src/utils/git.js", () => ({
+  getRepoDirName: (config: { name: string; tag?: string; versioned?: boolean }) =>
+    config.versioned && config.tag ? `${config.name}@${config.tag}` : config.name,
+  getConfigRef: (config: { commit?: string; tag?: string; branch?: string }) =>
+    config.commit || config.tag || config.branch,
+  isRepoCloned: vi.fn(() => true),
+  getRepoCommit: vi.fn(async () => COMMIT_A),
+  getRecordedRef: vi.fn(async () => null),
+  getRemoteUrl: vi.fn(async () => null),
+  readSyncManifest: vi.fn(() => null),
+  getSparsePaths: vi.fn(async () => null),
+  getDefaultVersion: vi.fn(() => "v1.0.0-beta.18"),
+  listInstalledVersions: vi.fn(() => ["v1.0.0-beta.18"]),
+}));
+
+const { isRepoCloned, getRepoCommit, getRemoteUrl, readSyncManifest, getSparsePaths } =
+  await import(
+  "../../src/utils/git.js"
+);
+const {
+  readLockfile,
+  writeLockfile,
+  buildLockfile,
+  getLockedConfigs,
+  getLockDrift,
+} = await import("../../src/utils/lockfile.js");
+
+const mockedIsRepoCloned = vi.mocked(isRepoCloned);
+const mockedGetRepoCommit = vi.mocked(getRepoCommit);
+const mockedGetSparsePaths = vi.mocked(getSparsePaths);
+const mockedGetRemoteUrl = vi.mocked(getRemoteUrl);
+const mockedReadSyncManifest = vi.mocked(readSyncManifest);
+
+const noir = {
+  name: "noir",
+  url: "https://github.com/noir-lang/noir",
+  branch: "master",
+  tag: "v1.0.0-beta.18",
+  versioned: true,
+  sparse: ["docs", "noir_stdlib"],
+  description: "Noir",
+  category: "core",
+};
+const bignum = {
+  name: "noir-bignum",
+  url: "https://github.com/noir-lang/noir-bignum",
+  branch: "main",
+  description: "Bignum",
+  category: "libraries",
+};
+
+describe("utils/lockfile", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dir = mkdtempSync(join(tmpdir(), "noir-mcp-lock-"));
+    mockedIsRepoCloned.mockReturnValue(true);
+    mockedGetRepoCommit.mockResolvedValue(COMMIT_A);
+    mockedGetSparsePaths.mockResolvedValue(null);
+    mockedGetRemoteUrl.mockResolvedValue(null);
+    mockedReadSyncManifest.mockReturnValue(null);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("readLockfile()", () => {
+    it("returns null when the file does not exist", () => {
+      expect(readLockfile(join(dir, "missing.json"))).toBeNull();
+    });
+
+    it("round-trips a written lockfile", () => {
+      const path = join(dir, "nested", "repos.lock.json");
+      const lock = {
+        lockfileVersion: 1,
+        defaultVersions: { noir: "v1.0.0-beta.18" },
+        repos: [{ name: "noir-bignum", url: bignum.url, ref: "main", commit: COMMIT_A }],
+      };
+
+      writeLockfile(lock, path);
+      expect(readFileSync(path, "utf-8").endsWith("\n")).toBe(true);
+      expect(readLockfile(path)).toEqual(lock);
+    });
+
+    it("rejects unsupported versions and incomplete entries", () => {
+      const path = join(dir, "repos.lock.json");
+
+      writeFileSync(path, JSON.stringify({ lockfileVersion: 2, repos: [] }));
+      expect(() => readLockfile(path)).toThrow("unsupported lockfileVersion 2");
+
+      writeFileSync(
+        path,
+        JSON.stringify({ lockfileVersion: 1, repos: [{ name: "noir-bignum", url: "x", ref: "main" }] })
+      );
+      expect(() => readLockfile(path)).toThrow("missing 'commit'");
+
+      writeFileSync(path, "{ not json");
+      expect(() => readLockfile(path)).toThrow(`Invalid lockfile ${path}`);
+    });
+  });
+
+  describe("buildLockfile()", () => {
+    it("records every clone with its commit and sparse paths", async () => {
+      mockedGetSparsePaths.mockImplementation(async (name) =>
+        name === "noir@v1.0.0-beta.18" ? ["docs", "noir_stdlib"] : null
+      );
+
+      const lock = await buildLockfile([noir, bignum]);
+      expect(lock).toEqual({
+        lockfileVersion: 1,
+        defaultVersions: { noir: "v1.0.0-beta.18" },
+        repos: [
+          {
+            name: "noir",
+            version: "v1.0.0-beta.18",
+            url: noir.url,
+            ref: "v1.0.0-beta.18",
+            commit: COMMIT_A,
+            sparse: ["docs", "noir_stdlib"],
+          },
+          { name: "noir-bignum", url: bignum.url, ref: "main", commit: COMMIT_A },
+        ],
+      });
+    });
+
+    it("skips repos that are not cloned", async () => {
+      mockedIsRepoCloned.mockImplementation((name) => name !== "noir-bignum");
+
+      const lock = await buildLockfile([bignum]);
+      expect(lock.repos).toEqual([]);
+    });
+  });
+
+  describe("getLockedConfigs()", () => {
+    it("pins each repo to its locked commit", () => {
+      const [config] = getLockedConfigs({
+        lockfileVersion: 1,
+        defaultVersions: {},
+        repos: [
+          {
+            name: "noir-bignum",
+            url: "https://mirror.example/noir-bignum",
+            ref: "main",
+            commit: COMMIT_B,
+          },
+        ],
+      });
+
+      expect(config).toMatchObject({
+        name: "noir-bignum",
+        url: "https://mirror.example/noir-bignum",
+        commit: COMMIT_B,
+        category: "libraries",
+      });
+      expect(config.tag).toBeUndefined();
+    });
+
+    it("throws for repos that are not configured", () => {
+      expect(() =>
+        getLockedConfigs({
+          lockfileVersion: 1,
+          defaultVersions: {},
+          repos: [{ name: "nope", url: "x", ref: "main", commit: COMMIT_A }],
+        })
+      ).toThrow("Unknown repositories in lockfile: nope");
+    });
+  });
+
+  describe("getLockDrift()", () => {
+    it("reports missing, moved and unlocked clones", async () => {
+      mockedIsRepoCloned.mockImplementation((name) => name !== "noir@v1.0.0-beta.18");
+
+      const drift = await getLockDrift(
+        {
+          lockfileVersion: 1,
+          defaultVersions: {},
+          repos: [
+            {
+              name: "noir",
+              version: "v1.0.0-beta.18",
+              url: noir.url,
+              ref: "v1.0.0-beta.18",
+              commit: COMMIT_A,
+            },
+            { name: "noir-bignum", url: bignum.url, ref: "main", commit: COMMIT_B },
+          ],
+        },
+        [noir, bignum, { ...bignum, name: "noir_sort", url: "https://x/noir_sort" }]
+      );
+
+      expect(drift).toEqual([
+        { name: "noir", version: "v1.0.0-beta.18", issue: "missing", expected: COMMIT_A },
+        {
+          name: "noir-bignum",
+          version: undefined,
+          issue: "commit",
+          expected: COMMIT_B,
+          actual: COMMIT_A,
+        },
+        { name: "noir_sort", version: undefined, issue: "unlocked", actual: COMMIT_A },
+      ]);
+    });
+
+    it("locks the configured URL of clones made through a rewrite rule", async () => {
+      // Cloned from a mirror, which only exists where the rule does
+      mockedGetRemoteUrl.mockResolvedValue("https://mirror.example/noir-bignum");
+      mockedReadSyncManifest.mockReturnValue({ url: bignum.url, syncedAt: "" });
+      const path = join(dir, "repos.lock.json");
+      writeLockfile(await buildLockfile([bignum]), path);
+
+      const lock = readLockfile(path)!;
+      expect(lock.repos[0].url).toBe(bignum.url);
+      expect(getLockedConfigs(lock)[0].url).toBe(bignum.url);
+      expect(await getLockDrift(lock, [bignum])).toEqual([]);
+    });
+
+    it("reports a changed URL", async () => {
+      mockedReadSyncManifest.mockReturnValue({ url: "https://x/noir-bignum", syncedAt: "" });
+
+      const drift = await getLockDrift(
+        {
+          lockfileVersion: 1,
+          defaultVersions: {},
+          repos: [{ name: "noir-bignum", url: bignum.url, ref: "main", commit: COMMIT_A }],
+        },
+        [bignum]
+      );
+      expect(drift).toEqual([
+        {
+          name: "noir-bignum",
+          version: undefined,
+          issue: "url",
+          expected: bignum.url,
+          actual: "https://x/noir-bignum",
+        },
+      ]);
+    });
+
+    it("reports nothing when clones match", async () => {
+      const lock = await buildLockfile([bignum]);
+      expect(await getLockDrift(lock, [bignum])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+
+const { listNargoDependencies } = await import("../../src/utils/nargo.js");
+
+describe("utils/nargo", () => {
+  let nargoDir: string;
+
+  beforeEach(() => {
+    nargoDir = mkdtempSync(join(tmpdir(), "noir-mcp-nargo-"));
+  });
+
+  afterEach(() => {
+    rmSync(nargoDir, { recursive: true, force: true });
+  });
+
+  const addDep = (host: string, org: string, repo: string, tag: string) =>
+    mkdirSync(join(nargoDir, host, org, repo, tag), { recursive: true });
+
+  describe("listNargoDependencies()", () => {
+    it("returns empty list when the cache does not exist", () => {
+      expect(listNargoDependencies(join(nargoDir, "missing"))).toEqual([]);
+    });
+
+    it("lists cached dependencies with their tag", () => {
+      addDep("github.com", "noir-lang", "noir-bignum", "v0.7.0");
+
+      expect(listNargoDependencies(nargoDir)).toEqual([
+        {
+          name: "nargo:noir-bignum@v0.7.0",
+          host: "github.com",
+          org: "noir-lang",
+          repo: "noir-bignum",
+          tag: "v0.7.0",
+          path: join(nargoDir, "github.com/noir-lang/noir-bignum/v0.7.0"),
+          url: "https://github.com/noir-lang/noir-bignum",
+        },
+      ]);
+    });
+
+    it("lists every cached tag of a repo", () => {
+      addDep("github.com", "noir-lang", "noir-bignum", "v0.6.0");
+      addDep("github.com", "noir-lang", "noir-bignum", "v0.7.0");
+
+      const names = listNargoDependencies(nargoDir).map((d) => d.name);
+      expect(names).toEqual(["nargo:noir-bignum@v0.6.0", "nargo:noir-bignum@v0.7.0"]);
+    });
+
+    it("prefixes the org when repo names clash", () => {
+      addDep("github.com", "alice", "poseidon", "v1.0.0");
+      addDep("github.com", "bob", "poseidon", "v1.0.0");
+
+      const names = listNargoDependencies(nargoDir).map((d) => d.name);
+      expect(names).toEqual(["nargo:poseidon@v1.0.0", "nargo:bob.poseidon@v1.0.0"]);
+    });
+
+    it("ignores files and hidden directories", () => {
+      addDep("github.com", "noir-lang", "noir_sort", "v0.2.2");
+      mkdirSync(join(nargoDir, ".cache"));
+      writeFileSync(join(nargoDir, "github.com", "README"), "");
+
+      expect(listNargoDependencies(nargoDir)).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { parseNoirSymbols } from "../../src/utils/noir-parser.js";
+
+describe("utils/noir-parser", () => {
+  describe("parseNoirSymbols()", () => {
+    it("extracts functions with visibility, generics, doc comments and attributes", () => {
+      const symbols = parseNoirSymbols(
+        [
+          "use std::hash;",
+          "",
+          "/// Hash the input.",
+          "/// Uses poseidon2.",
+          "#[no_predicates]",
+          "pub fn poseidon2<let N: u32>(input: [Field; N]) -> Field {",
+          "    hash::poseidon2(input)",
+          "}",
+        ].join("\n")
+      );
+
+      expect(symbols).toEqual([
+        {
+          name: "poseidon2",
+          kind: "fn",
+          line: 6,
+          endLine: 8,
+          visibility: "pub",
+          generics: "<let N: u32>",
+          signature: "pub fn poseidon2<let N: u32>(input: [Field; N]) -> Field",
+          doc: "Hash the input.\nUses poseidon2.",
+          attributes: ["#[no_predicates]"],
+        },
+      ]);
+    });
+
+    it("extracts structs, globals, type aliases and modules", () => {
+      const symbols = parseNoirSymbols(
+        [
+          "/** A big number */",
+          "pub struct BigNum<let N: u32> { limbs: [u128; N] }",
+          "pub global LIMBS: u32 = 3;",
+          "global TABLE: [Foo; 1] = [Foo { a: 1 }];",
+          "pub(crate) type Small = BigNum<3>;",
+          "mod utils;",
+        ].join("\n")
+      );
+
+      expect(symbols.map((s) => [s.kind, s.name, s.signature])).toEqual([
+        ["struct", "BigNum", "pub struct BigNum<let N: u32>"],
+        ["global", "LIMBS", "pub global LIMBS: u32"],
+        ["global", "TABLE", "global TABLE: [Foo; 1]"],
+        ["type", "Small", "pub(crate) type Small = BigNum<3>"],
+        ["mod", "utils", "mod utils"],
+      ]);
+      expect(symbols[0].doc).toBe("A big number");
+      expect(symbols[3].visibility).toBe("pub(crate)");
+    });
+
+    it("records the type, trait or module items are nested in", () => {
+      const symbols = parseNoirSymbols(
+        [
+          "trait Hasher {",
+          "    fn finish(self) -> Field;",
+          "}",
+          "impl<T> Hasher for bignum::BigNum<T> where T: Eq {",
+          "    fn finish(self) -> Field { 0 }",
+          "}",
+          "mod inner {",
+          "    pub fn nested() {}",
+          "}",
+        ].join("\n")
+      );
+
+      expect(symbols.map((s) => [s.kind, s.name, s.container])).toEqual([
+        ["trait", "Hasher", undefined],
+        ["fn", "finish", "Hasher"],
+        ["impl", "BigNum", undefined],
+        ["fn", "finish", "BigNum"],
+        ["mod", "inner", undefined],
+        ["fn", "nested", "inner"],
+      ]);
+      expect(symbols[2].generics).toBe("<T>");
+      expect(symbols.map((s) => [s.line, s.endLine])).toEqual([
+        [1, 3],
+        [2, 2],
+        [4, 6],
+        [5, 5],
+        [7, 9],
+        [8, 8],
+      ]);
+    });
+
+    it("ignores declarations in function bodies, comments, strings and types", () => {
+      const symbols = parseNoirSymbols(
+        [
+          "unconstrained fn apply(f: fn(u8) -> u8, x: impl Eq) -> u8 {",
+          '    let s = "fn fake() {";',
+          "    // fn commented() {}",
+          "    /* struct Hidden { /* nested */ } */",
+          "    fn inner() {}",
+          "    f(1)",
+          "}",
+          "fn after() {}",
+        ].join("\n")
+      );
+
+      expect(symbols.map((s) => s.name)).toEqual(["apply", "after"]);
+      expect(symbols[0].signature).toBe(
+        "unconstrained fn apply(f: fn(u8) -> u8, x: impl Eq) -> u8"
+      );
+      expect(symbols[1].line).toBe(8);
+    });
+  });
+});
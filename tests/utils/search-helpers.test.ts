@@ -2,7 +2,7 @@ import { describe, it, expect, vi } from "vitest";
 import { join } from "path";
 
 // We need to mock REPOS_DIR before importing the module under test,
-// because parseRgOutput uses REPOS_DIR via `relative()`.
+// because parseRgJsonLine uses REPOS_DIR via `relative()`.
 const MOCK_REPOS_DIR = "/mock/repos";
 
 vi.mock("../../src/utils/git.js", () => ({
@@ -11,119 +11,131 @@ vi.mock("../../src/utils/git.js", () => ({
   isRepoCloned: () => false,
 }));
 
-// Must import after mocks are set up
-const { escapeShell, parseRgOutput, getFileType } = await import(
-  "../../src/utils/search.js"
-);
-
-describe("escapeShell()", () => {
-  it("passes through simple strings", () => {
-    expect(escapeShell("hello")).toBe("hello");
-    expect(escapeShell("fn main")).toBe("fn main");
-  });
+vi.mock("../../src/utils/workspaces.js", () => ({
+  getWorkspaces: () => [{ name: "my-app", path: "/home/me/my-app" }],
+}));
 
-  it("escapes double quotes", () => {
-    expect(escapeShell('say "hi"')).toBe('say \\"hi\\"');
-  });
+vi.mock("../../src/utils/nargo.js", () => ({
+  listNargoDependencies: () => [
+    {
+      name: "nargo:noir_sort@v0.2.2",
+      path: "/home/me/nargo/github.com/noir-lang/noir_sort/v0.2.2",
+    },
+  ],
+}));
 
-  it("escapes dollar signs", () => {
-    expect(escapeShell("$HOME")).toBe("\\$HOME");
+// Must import after mocks are set up
+const {
+  parseRgJsonLine,
+  getFileType,
+  resolveSourcePath,
+  toSourcePath,
+} = await import("../../src/utils/search.js");
+
+/** An `rg --json` match message */
+function rgMatch(path: string, line: number, text: string): string {
+  return JSON.stringify({
+    type: "match",
+    data: {
+      path: { text: path },
+      lines: { text: `${text}\n` },
+      line_number: line,
+      absolute_offset: 0,
+      submatches: [],
+    },
+  });
+}
+
+describe("parseRgJsonLine()", () => {
+  it("parses match messages", () => {
+    const result = parseRgJsonLine(rgMatch(`${MOCK_REPOS_DIR}/noir/src/main.nr`, 42, "fn main() {}"));
+
+    expect(result).toEqual({
+      file: "noir/src/main.nr",
+      line: 42,
+      content: "fn main() {}",
+      repo: "noir",
+    });
+  });
+
+  it("skips other messages and malformed lines", () => {
+    expect(
+      parseRgJsonLine(JSON.stringify({ type: "begin", data: { path: { text: "/mock/repos/noir/a.nr" } } }))
+    ).toBeNull();
+    expect(parseRgJsonLine(JSON.stringify({ type: "summary", data: {} }))).toBeNull();
+    expect(parseRgJsonLine("this is not a valid rg line")).toBeNull();
+    expect(parseRgJsonLine("")).toBeNull();
+  });
+
+  it("keeps content containing colons and quotes", () => {
+    const result = parseRgJsonLine(
+      rgMatch(`${MOCK_REPOS_DIR}/noir/test.nr`, 5, '  let x: Field = "a:b";')
+    );
+
+    expect(result?.content).toBe('let x: Field = "a:b";');
+  });
+
+  it("decodes paths and lines that are not valid UTF-8", () => {
+    const result = parseRgJsonLine(
+      JSON.stringify({
+        type: "match",
+        data: {
+          path: { bytes: Buffer.from(`${MOCK_REPOS_DIR}/noir/a.nr`).toString("base64") },
+          lines: { bytes: Buffer.from("fn f() {}\n").toString("base64") },
+          line_number: 1,
+        },
+      })
+    );
+
+    expect(result).toMatchObject({ file: "noir/a.nr", content: "fn f() {}" });
   });
 
-  it("escapes backticks", () => {
-    expect(escapeShell("`whoami`")).toBe("\\`whoami\\`");
-  });
+  it("extracts relative paths and repo names", () => {
+    const result = parseRgJsonLine(rgMatch(`${MOCK_REPOS_DIR}/noir-bignum/src/lib.nr`, 10, "use dep;"));
 
-  it("escapes backslashes", () => {
-    expect(escapeShell("a\\b")).toBe("a\\\\b");
+    expect(result?.file).toBe("noir-bignum/src/lib.nr");
+    expect(result?.repo).toBe("noir-bignum");
   });
 
-  it("escapes exclamation marks", () => {
-    expect(escapeShell("hello!")).toBe("hello\\!");
-  });
+  it("labels workspace matches with the workspace name", () => {
+    const result = parseRgJsonLine(rgMatch("/home/me/my-app/src/main.nr", 3, "fn main() {}"));
 
-  it("preserves regex characters", () => {
-    expect(escapeShell("foo|bar")).toBe("foo|bar");
-    expect(escapeShell("a*b+c?")).toBe("a*b+c?");
-    expect(escapeShell("(group)")).toBe("(group)");
-    expect(escapeShell("[abc]")).toBe("[abc]");
-    expect(escapeShell("a{2,3}")).toBe("a{2,3}");
-    expect(escapeShell("^start$end")).toContain("^start");
-    // $ gets escaped, which is correct for shell safety
-    expect(escapeShell("^start$end")).toBe("^start\\$end");
-  });
-
-  it("handles shell injection attempts", () => {
-    // The " is escaped with a backslash, preventing shell interpretation
-    const result1 = escapeShell('"; rm -rf /');
-    expect(result1).toBe('\\"; rm -rf /');
-    expect(result1.startsWith('\\"')).toBe(true);
-
-    const result2 = escapeShell("`whoami`");
-    expect(result2).toBe("\\`whoami\\`");
-
-    const result3 = escapeShell("$(whoami)");
-    expect(result3).toBe("\\$(whoami)");
+    expect(result?.file).toBe("my-app/src/main.nr");
+    expect(result?.repo).toBe("my-app");
   });
 });
 
-describe("parseRgOutput()", () => {
-  it("parses standard file:line:content format", () => {
-    const output = `${MOCK_REPOS_DIR}/noir/src/main.nr:42:fn main() {}\n`;
-    const results = parseRgOutput(output, 10);
-
-    expect(results).toHaveLength(1);
-    expect(results[0].file).toBe("noir/src/main.nr");
-    expect(results[0].line).toBe(42);
-    expect(results[0].content).toBe("fn main() {}");
-    expect(results[0].repo).toBe("noir");
-  });
-
-  it("respects maxResults limit", () => {
-    const lines = Array.from(
-      { length: 10 },
-      (_, i) => `${MOCK_REPOS_DIR}/noir/file${i}.nr:${i + 1}:line ${i}`
-    ).join("\n");
-
-    const results = parseRgOutput(lines, 3);
-    expect(results).toHaveLength(3);
-  });
-
-  it("skips blank lines", () => {
-    const output = `${MOCK_REPOS_DIR}/noir/a.nr:1:hello\n\n\n${MOCK_REPOS_DIR}/noir/b.nr:2:world\n`;
-    const results = parseRgOutput(output, 10);
-    expect(results).toHaveLength(2);
+describe("resolveSourcePath()", () => {
+  it("resolves repo paths under REPOS_DIR", () => {
+    expect(resolveSourcePath("noir/noir_stdlib")).toBe(
+      join(MOCK_REPOS_DIR, "noir/noir_stdlib")
+    );
   });
 
-  it("skips malformed lines", () => {
-    const output = [
-      `${MOCK_REPOS_DIR}/noir/good.nr:1:valid line`,
-      "this is not a valid rg line",
-      `${MOCK_REPOS_DIR}/noir/also-good.nr:2:another valid`,
-    ].join("\n");
-
-    const results = parseRgOutput(output, 10);
-    expect(results).toHaveLength(2);
+  it("resolves workspace paths to the workspace root", () => {
+    expect(resolveSourcePath("my-app/src/main.nr")).toBe(
+      "/home/me/my-app/src/main.nr"
+    );
+    expect(resolveSourcePath("my-app")).toBe("/home/me/my-app");
   });
 
-  it("handles content containing colons", () => {
-    const output = `${MOCK_REPOS_DIR}/noir/test.nr:5:let x: Field = 42;\n`;
-    const results = parseRgOutput(output, 10);
-
-    expect(results).toHaveLength(1);
-    expect(results[0].content).toBe("let x: Field = 42;");
+  it("resolves cached nargo dependency paths", () => {
+    expect(resolveSourcePath("nargo:noir_sort@v0.2.2/src/lib.nr")).toBe(
+      "/home/me/nargo/github.com/noir-lang/noir_sort/v0.2.2/src/lib.nr"
+    );
   });
+});
 
-  it("extracts relative paths and repo names", () => {
-    const output = `${MOCK_REPOS_DIR}/noir-bignum/src/lib.nr:10:use dep;\n`;
-    const results = parseRgOutput(output, 10);
-
-    expect(results[0].file).toBe("noir-bignum/src/lib.nr");
-    expect(results[0].repo).toBe("noir-bignum");
+describe("toSourcePath()", () => {
+  it("maps repo files relative to REPOS_DIR", () => {
+    expect(toSourcePath(`${MOCK_REPOS_DIR}/noir/src/lib.nr`)).toEqual({
+      file: "noir/src/lib.nr",
+      repo: "noir",
+    });
   });
 
-  it("returns empty array for empty input", () => {
-    expect(parseRgOutput("", 10)).toEqual([]);
+  it("does not match directories that only share a prefix", () => {
+    expect(toSourcePath("/home/me/my-app-old/x.nr").repo).not.toBe("my-app");
   });
 });
 
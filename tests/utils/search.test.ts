@@ -1,23 +1,40 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { join } from "path";
+import { EventEmitter } from "events";
+import { Readable } from "stream";
+import type { ChildProcess } from "child_process";
 
 const MOCK_REPOS_DIR = "/mock/repos";
 
 // Mock git utilities
 vi.mock("../../src/utils/git.js", () => ({
   REPOS_DIR: MOCK_REPOS_DIR,
-  getRepoPath: (name: string) => join(MOCK_REPOS_DIR, name),
+  getRepoPath: (name: string, version?: string) =>
+    join(MOCK_REPOS_DIR, version ? `${name}@${version}` : name),
   isRepoCloned: vi.fn(() => true),
+  getSearchableRepoPaths: vi.fn((version?: string) => [
+    join(MOCK_REPOS_DIR, version ? `noir@${version}` : "noir"),
+    join(MOCK_REPOS_DIR, "noir-examples"),
+  ]),
+  getDefaultVersion: vi.fn(() => "v1.0.0-beta.18"),
+}));
+
+vi.mock("../../src/utils/workspaces.js", () => ({
+  getWorkspaces: vi.fn(() => []),
+}));
+
+vi.mock("../../src/utils/nargo.js", () => ({
+  listNargoDependencies: vi.fn(() => []),
 }));
 
 // Mock child_process
 vi.mock("child_process", () => ({
-  execSync: vi.fn(),
+  spawn: vi.fn(),
 }));
 
-// Mock fs
+// Mock fs (no user repo registry is present when config.ts loads)
 vi.mock("fs", () => ({
-  existsSync: vi.fn(() => true),
+  existsSync: vi.fn((path: string) => !String(path).endsWith("repos.json")),
   readFileSync: vi.fn(() => "line1\nline2\nline3"),
 }));
 
@@ -34,10 +51,12 @@ vi.mock("../../src/repos/config.js", async (importOriginal) => {
   };
 });
 
-const { execSync } = await import("child_process");
+const { spawn } = await import("child_process");
 const { existsSync, readFileSync } = await import("fs");
 const { globbySync } = await import("globby");
 const { isRepoCloned } = await import("../../src/utils/git.js");
+const { getWorkspaces } = await import("../../src/utils/workspaces.js");
+const { listNargoDependencies } = await import("../../src/utils/nargo.js");
 
 const {
   searchCode,
@@ -50,69 +69,309 @@ const {
   manualSearch,
 } = await import("../../src/utils/search.js");
 
-const mockedExecSync = vi.mocked(execSync);
+const mockedSpawn = vi.mocked(spawn);
 const mockedExistsSync = vi.mocked(existsSync);
 const mockedReadFileSync = vi.mocked(readFileSync);
 const mockedGlobbySync = vi.mocked(globbySync);
 const mockedIsRepoCloned = vi.mocked(isRepoCloned);
+const mockedGetWorkspaces = vi.mocked(getWorkspaces);
+const mockedListNargoDependencies = vi.mocked(listNargoDependencies);
+
+/**
+ * Fake rg process printing `--json` match messages for [path, line, text]
+ * entries, then exiting with `code`
+ */
+function fakeRg(
+  matches: [string, number, string][],
+  options: { code?: number; stderr?: string; error?: string } = {}
+): ChildProcess {
+  const { code = matches.length > 0 ? 0 : 1, stderr = "", error } = options;
+  const rg = Object.assign(new EventEmitter(), {
+    stdout: Readable.from(
+      matches.map(
+        ([path, line, text]) =>
+          JSON.stringify({
+            type: "match",
+            data: { path: { text: path }, lines: { text: `${text}\n` }, line_number: line },
+          }) + "\n"
+      )
+    ),
+    stderr: Readable.from(stderr ? [stderr] : []),
+    kill: vi.fn(),
+  });
+  if (error) {
+    process.nextTick(() => rg.emit("error", Object.assign(new Error(error), { code: "ENOENT" })));
+  }
+  rg.stdout.on("end", () => setImmediate(() => rg.emit("close", error ? -2 : code)));
+  return rg as unknown as ChildProcess;
+}
+
+function mockRg(...args: Parameters<typeof fakeRg>): void {
+  mockedSpawn.mockImplementationOnce(() => fakeRg(...args));
+}
+
+/** Arguments of an rg call */
+function rgArgs(call = 0): string[] {
+  return mockedSpawn.mock.calls[call][1] as string[];
+}
 
 describe("utils/search", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockedSpawn.mockImplementation(() => fakeRg([]));
     mockedExistsSync.mockReturnValue(true);
     mockedIsRepoCloned.mockReturnValue(true);
+    mockedGetWorkspaces.mockReturnValue([]);
+    mockedListNargoDependencies.mockReturnValue([]);
   });
 
   describe("searchCode()", () => {
-    it("constructs ripgrep command with proper flags", () => {
-      mockedExecSync.mockReturnValue(
-        `${MOCK_REPOS_DIR}/noir/src/main.nr:1:fn main() {}\n`
+    it("runs ripgrep without a shell, with JSON output and proper flags", async () => {
+      mockRg([[`${MOCK_REPOS_DIR}/noir/src/main.nr`, 1, "fn main() {}"]]);
+
+      await searchCode("fn main", { filePattern: "*.{nr,toml}", maxResults: 10 });
+
+      expect(mockedSpawn.mock.calls[0][0]).toBe("rg");
+      expect(rgArgs()).toEqual([
+        "--json",
+        "-i", // case insensitive by default
+        "--no-require-git",
+        "-g",
+        "*.{nr,toml}",
+        "-g",
+        "!target/",
+        "-m",
+        "10",
+        "-e",
+        "fn main",
+        "--",
+        join(MOCK_REPOS_DIR, "noir"),
+        join(MOCK_REPOS_DIR, "noir-examples"),
+      ]);
+    });
+
+    it("parses matches from the JSON output", async () => {
+      mockRg([[`${MOCK_REPOS_DIR}/noir/src/main.nr`, 42, "    fn main() {}"]]);
+
+      const results = await searchCode("fn main");
+      expect(results).toEqual([
+        { file: "noir/src/main.nr", line: 42, content: "fn main() {}", repo: "noir" },
+      ]);
+    });
+
+    it("passes queries that look like flags or contain quotes as they are", async () => {
+      await searchCode('-> "Field"', { mode: "literal" });
+      expect(rgArgs()).toContain('-> "Field"');
+      expect(rgArgs()[rgArgs().indexOf('-> "Field"') - 1]).toBe("-e");
+    });
+
+    it("stops ripgrep once maxResults distinct matches are found", async () => {
+      const rg = fakeRg([
+        [`${MOCK_REPOS_DIR}/noir/a.nr`, 1, "hash"],
+        [`${MOCK_REPOS_DIR}/noir/a.nr`, 1, "hash"],
+        [`${MOCK_REPOS_DIR}/noir/a.nr`, 2, "hash"],
+        [`${MOCK_REPOS_DIR}/noir/b.nr`, 1, "hash"],
+      ]);
+      mockedSpawn.mockImplementationOnce(() => rg);
+
+      const results = await searchCode("hash", { maxResults: 2 });
+      expect(results.map((r) => `${r.file}:${r.line}`)).toEqual([
+        "noir/a.nr:1",
+        "noir/a.nr:2",
+      ]);
+      expect(rg.kill).toHaveBeenCalled();
+    });
+
+    it("returns no results without falling back when rg finds nothing", async () => {
+      const results = await searchCode("nothing");
+      expect(results).toEqual([]);
+      expect(mockedGlobbySync).not.toHaveBeenCalled();
+    });
+
+    it("reports regexes rg can't compile", async () => {
+      mockRg([], {
+        code: 2,
+        stderr:
+          "regex parse error:\n    (?<!x)a\n    ^^^^\nerror: look-around, including look-ahead and look-behind, is not supported\n",
+      });
+
+      await expect(searchCode("(?<!x)a")).rejects.toThrow(
+        "Invalid regex '(?<!x)a': look-around, including look-ahead and look-behind, is not supported."
       );
+      expect(mockedGlobbySync).not.toHaveBeenCalled();
+    });
+
+    it("reports other rg failures", async () => {
+      mockRg([], { code: 2, stderr: "rg: /mock/repos/noir: Permission denied (os error 13)\n" });
+
+      await expect(searchCode("hash")).rejects.toThrow(
+        "ripgrep failed: rg: /mock/repos/noir: Permission denied (os error 13)"
+      );
+    });
+
+    it("keeps the matches of an rg run with errors in some files", async () => {
+      mockRg([[`${MOCK_REPOS_DIR}/noir/a.nr`, 3, "hash"]], {
+        code: 2,
+        stderr: "rg: /mock/repos/noir/b.nr: Permission denied (os error 13)\n",
+      });
 
-      searchCode("fn main", { filePattern: "*.nr", maxResults: 10 });
+      const results = await searchCode("hash");
+      expect(results).toHaveLength(1);
+    });
+
+    it("omits -i flag when caseSensitive is true", async () => {
+      await searchCode("Test", { caseSensitive: true });
+
+      expect(rgArgs()).not.toContain("-i");
+    });
+
+    it("passes -F for literal and -F -w for word mode", async () => {
+      await searchCode("Field(", { mode: "literal" });
+      await searchCode("hash", { mode: "word" });
+
+      expect(rgArgs(0)).toContain("-F");
+      expect(rgArgs(0)).not.toContain("-w");
+      expect(rgArgs(1).join(" ")).toContain("-F -w");
+    });
+
+    it("leaves Rust regex syntax that JS lacks to rg", async () => {
+      await searchCode("(?i)poseidon");
 
-      const call = mockedExecSync.mock.calls[0];
-      const cmd = call[0] as string;
-      expect(cmd).toContain("rg");
-      expect(cmd).toContain("-i"); // case insensitive by default
-      expect(cmd).toContain("-n");
-      expect(cmd).toContain("-g");
-      expect(cmd).toContain("*.nr");
-      expect(cmd).toContain("fn main");
+      expect(rgArgs()).toContain("(?i)poseidon");
     });
 
-    it("omits -i flag when caseSensitive is true", () => {
-      mockedExecSync.mockReturnValue("");
+    it("reports an invalid regex when falling back to the manual search", async () => {
+      mockRg([], { error: "spawn rg ENOENT" });
 
-      searchCode("Test", { caseSensitive: true });
+      await expect(searchCode("Field(")).rejects.toThrow("Invalid regex 'Field('");
+    });
+
+    it("searches specific repo when provided", async () => {
+      await searchCode("query", { repo: "noir-bignum" });
 
-      const cmd = mockedExecSync.mock.calls[0][0] as string;
-      expect(cmd).not.toMatch(/\s-i\s/);
+      expect(rgArgs()).toContain(join(MOCK_REPOS_DIR, "noir-bignum"));
     });
 
-    it("searches specific repo when provided", () => {
-      mockedExecSync.mockReturnValue("");
+    it("searches the requested version of versioned repos", async () => {
+      await searchCode("fn main", { version: "v1.0.0-beta.3" });
+
+      expect(rgArgs()).toContain(join(MOCK_REPOS_DIR, "noir@v1.0.0-beta.3"));
+      expect(rgArgs()).toContain(join(MOCK_REPOS_DIR, "noir-examples"));
+    });
 
-      searchCode("query", { repo: "noir-bignum" });
+    it("resolves a versioned repo path with the requested version", async () => {
+      await searchCode("fn main", { repo: "noir/noir_stdlib", version: "v1.0.0-beta.3" });
 
-      const cmd = mockedExecSync.mock.calls[0][0] as string;
-      expect(cmd).toContain(join(MOCK_REPOS_DIR, "noir-bignum"));
+      expect(rgArgs()).toContain(join(MOCK_REPOS_DIR, "noir@v1.0.0-beta.3/noir_stdlib"));
     });
 
-    it("returns empty array when search path does not exist", () => {
+    it("searches workspaces alongside REPOS_DIR", async () => {
+      mockedGetWorkspaces.mockReturnValue([
+        { name: "my-app", path: "/home/me/my-app" },
+      ]);
+      mockRg([["/home/me/my-app/src/main.nr", 1, "fn main() {}"]]);
+
+      const results = await searchCode("fn main");
+
+      expect(rgArgs()).toContain(join(MOCK_REPOS_DIR, "noir"));
+      expect(rgArgs()).toContain("/home/me/my-app");
+      expect(results[0].repo).toBe("my-app");
+      expect(results[0].file).toBe("my-app/src/main.nr");
+    });
+
+    it("searches a single workspace by name", async () => {
+      mockedGetWorkspaces.mockReturnValue([
+        { name: "my-app", path: "/home/me/my-app" },
+      ]);
+
+      await searchCode("fn main", { repo: "my-app" });
+
+      expect(rgArgs()).toContain("/home/me/my-app");
+      expect(rgArgs().join(" ")).not.toContain(MOCK_REPOS_DIR);
+    });
+
+    it("searches cached nargo dependencies", async () => {
+      mockedListNargoDependencies.mockReturnValue([
+        {
+          name: "nargo:noir-bignum@v0.7.0",
+          host: "github.com",
+          org: "noir-lang",
+          repo: "noir-bignum",
+          tag: "v0.7.0",
+          path: "/home/me/nargo/github.com/noir-lang/noir-bignum/v0.7.0",
+          url: "https://github.com/noir-lang/noir-bignum",
+        },
+      ]);
+      mockRg([
+        [
+          "/home/me/nargo/github.com/noir-lang/noir-bignum/v0.7.0/src/lib.nr",
+          4,
+          "pub struct BigNum {}",
+        ],
+        [
+          "/home/me/nargo/github.com/noir-lang/noir-bignum/v0.7.0/src/lib.nr",
+          9,
+          "impl BigNum {}",
+        ],
+      ]);
+
+      const results = await searchCode("BigNum", { contextAfter: 1 });
+
+      expect(rgArgs()).toContain("/home/me/nargo/github.com/noir-lang/noir-bignum/v0.7.0");
+      expect(results[0].repo).toBe("nargo:noir-bignum@v0.7.0");
+      expect(results[0].file).toBe("nargo:noir-bignum@v0.7.0/src/lib.nr");
+      // The cache is listed once per search, not per match
+      expect(mockedListNargoDependencies).toHaveBeenCalledTimes(1);
+    });
+
+    it("returns empty array when search path does not exist", async () => {
       mockedExistsSync.mockReturnValue(false);
 
-      const results = searchCode("test");
+      const results = await searchCode("test");
       expect(results).toEqual([]);
     });
 
-    it("falls back to manualSearch when rg fails", () => {
-      mockedExecSync.mockImplementation(() => {
-        throw new Error("rg not found");
+    it("adds the surrounding lines and the enclosing Noir item", async () => {
+      mockRg([[`${MOCK_REPOS_DIR}/noir/src/lib.nr`, 3, "        pedersen::hash(input)"]]);
+      mockedReadFileSync.mockReturnValueOnce(
+        [
+          "impl Hasher {",
+          "    fn digest(input: [Field; 2]) -> Field {",
+          "        pedersen::hash(input)",
+          "    }",
+          "}",
+        ].join("\n")
+      );
+
+      const results = await searchCode("pedersen", {
+        contextBefore: 1,
+        contextAfter: 5,
+        scope: true,
+      });
+      expect(results[0]).toMatchObject({
+        line: 3,
+        content: "pedersen::hash(input)",
+        context: {
+          startLine: 2,
+          lines: ["    fn digest(input: [Field; 2]) -> Field {", "        pedersen::hash(input)", "    }", "}"],
+        },
+        scope: "fn Hasher::digest",
       });
+    });
+
+    it("does not read matched files without context or scope", async () => {
+      mockRg([[`${MOCK_REPOS_DIR}/noir/src/lib.nr`, 1, "fn main() {}"]]);
+
+      const results = await searchCode("main");
+      expect(results[0].context).toBeUndefined();
+      expect(mockedReadFileSync).not.toHaveBeenCalled();
+    });
+
+    it("falls back to manualSearch when rg is not installed", async () => {
+      mockRg([], { error: "spawn rg ENOENT" });
       mockedGlobbySync.mockReturnValue([]);
 
-      const results = searchCode("test");
+      const results = await searchCode("test");
       expect(results).toEqual([]);
       // Verify globby was called (manualSearch uses it)
       expect(mockedGlobbySync).toHaveBeenCalled();
@@ -120,41 +379,49 @@ describe("utils/search", () => {
   });
 
   describe("searchDocs()", () => {
-    it("uses md/mdx file pattern", () => {
-      mockedExecSync.mockReturnValue("");
-
-      searchDocs("getting started");
+    it("uses md/mdx file pattern", async () => {
+      await searchDocs("getting started");
 
-      const cmd = mockedExecSync.mock.calls[0][0] as string;
-      expect(cmd).toContain("*.{md,mdx}");
+      expect(rgArgs()).toContain("*.{md,mdx}");
     });
 
-    it("handles section path", () => {
+    it("handles section path", async () => {
       // When section exists, it searches within that subdirectory
       mockedExistsSync.mockReturnValue(true);
-      mockedExecSync.mockReturnValue("");
 
-      searchDocs("install", { section: "tutorials" });
+      await searchDocs("install", { section: "tutorials" });
+
+      expect(rgArgs().join(" ")).toContain("noir/docs/tutorials");
+    });
+
+    it("reports the headings a docs match is under", async () => {
+      mockRg([[`${MOCK_REPOS_DIR}/noir/docs/hashes.md`, 7, "Use poseidon2 for hashing"]]);
+      mockedReadFileSync.mockReturnValueOnce(
+        ["# Hashes", "## Pedersen", "```", "# not a heading", "```", "## Poseidon2", "Use poseidon2 for hashing"].join("\n")
+      );
 
-      const cmd = mockedExecSync.mock.calls[0][0] as string;
-      expect(cmd).toContain("noir/docs/tutorials");
+      const results = await searchDocs("poseidon2");
+      expect(results[0].scope).toBe("Hashes > Poseidon2");
     });
   });
 
   describe("searchStdlib()", () => {
-    it("searches within noir/noir_stdlib", () => {
-      mockedExecSync.mockReturnValue("");
+    it("searches within noir/noir_stdlib", async () => {
+      await searchStdlib("hash");
+
+      expect(rgArgs().join(" ")).toContain("noir/noir_stdlib");
+    });
 
-      searchStdlib("hash");
+    it("searches the requested version", async () => {
+      await searchStdlib("hash", { version: "v1.0.0-beta.3" });
 
-      const cmd = mockedExecSync.mock.calls[0][0] as string;
-      expect(cmd).toContain("noir/noir_stdlib");
+      expect(rgArgs().join(" ")).toContain("noir@v1.0.0-beta.3/noir_stdlib");
     });
 
-    it("returns empty when stdlib path does not exist", () => {
+    it("returns empty when stdlib path does not exist", async () => {
       mockedExistsSync.mockReturnValue(false);
 
-      const results = searchStdlib("hash");
+      const results = await searchStdlib("hash");
       expect(results).toEqual([]);
     });
   });
@@ -196,22 +463,32 @@ describe("utils/search", () => {
       expect(results.length).toBe(2);
     });
 
-    it("falls back to escaped regex on invalid pattern", () => {
-      mockedGlobbySync.mockReturnValue([
-        join(MOCK_REPOS_DIR, "noir/src/a.nr"),
-      ]);
-      mockedReadFileSync.mockReturnValue("test [invalid regex");
-
-      // Invalid regex like "[invalid" should not throw
-      const results = manualSearch(
-        "[invalid",
-        MOCK_REPOS_DIR,
-        "*.nr",
-        10,
-        false
+    it("throws on an invalid regex instead of escaping it", () => {
+      expect(() =>
+        manualSearch("[invalid", MOCK_REPOS_DIR, "*.nr", 10, false)
+      ).toThrow(
+        "Invalid regex '[invalid': Unterminated character class. Use mode 'literal' to search for the text as written."
       );
+    });
 
-      expect(results.length).toBe(1);
+    it("matches the query as written in literal mode", () => {
+      mockedGlobbySync.mockReturnValue([join(MOCK_REPOS_DIR, "noir/src/a.nr")]);
+      mockedReadFileSync.mockReturnValue("let a: [u8; 32] = x;\nlet b: u8 = 3;");
+
+      const results = manualSearch("[u8; 32]", MOCK_REPOS_DIR, "*.nr", 10, false, "literal");
+      expect(results.map((r) => r.line)).toEqual([1]);
+    });
+
+    it("matches whole words only in word mode", () => {
+      mockedGlobbySync.mockReturnValue([join(MOCK_REPOS_DIR, "noir/src/a.nr")]);
+      mockedReadFileSync.mockReturnValue("let h = hash(x);\nlet p = pedersen_hash(x);\nHash::new()");
+
+      expect(
+        manualSearch("hash", MOCK_REPOS_DIR, "*.nr", 10, false, "word").map((r) => r.line)
+      ).toEqual([1, 3]);
+      expect(
+        manualSearch("hash", MOCK_REPOS_DIR, "*.nr", 10, true, "word").map((r) => r.line)
+      ).toEqual([1]);
     });
   });
 
@@ -235,6 +512,25 @@ describe("utils/search", () => {
       expect(examples[1].repo).toBe("noir");
     });
 
+    it("includes circuits from workspaces", () => {
+      mockedExistsSync.mockReturnValue(true);
+      mockedGetWorkspaces.mockReturnValue([
+        { name: "my-app", path: "/home/me/my-app" },
+      ]);
+      mockedGlobbySync
+        .mockReturnValueOnce([])
+        .mockReturnValueOnce([])
+        .mockReturnValueOnce(["/home/me/my-app/circuits/vote/src/main.nr"]);
+
+      const examples = listExamples();
+      expect(examples).toHaveLength(1);
+      expect(examples[0]).toMatchObject({
+        name: "vote",
+        repo: "my-app",
+        path: "my-app/circuits/vote/src/main.nr",
+      });
+    });
+
     it("filters by category", () => {
       mockedExistsSync.mockReturnValue(true);
       mockedGlobbySync
@@ -298,6 +594,31 @@ describe("utils/search", () => {
       );
     });
 
+    it("reads from the requested version of a versioned repo", () => {
+      mockedReadFileSync.mockReturnValue("old stdlib");
+
+      expect(readFile("noir/noir_stdlib/src/lib.nr", "v1.0.0-beta.3")).toBe(
+        "old stdlib"
+      );
+      expect(mockedReadFileSync).toHaveBeenCalledWith(
+        join(MOCK_REPOS_DIR, "noir@v1.0.0-beta.3/noir_stdlib/src/lib.nr"),
+        "utf-8"
+      );
+    });
+
+    it("resolves workspace paths", () => {
+      mockedGetWorkspaces.mockReturnValue([
+        { name: "my-app", path: "/home/me/my-app" },
+      ]);
+      mockedReadFileSync.mockReturnValue("ws content");
+
+      expect(readFile("my-app/src/main.nr")).toBe("ws content");
+      expect(mockedReadFileSync).toHaveBeenCalledWith(
+        "/home/me/my-app/src/main.nr",
+        "utf-8"
+      );
+    });
+
     it("reads absolute path directly", () => {
       mockedExistsSync.mockReturnValue(true);
       mockedReadFileSync.mockReturnValue("abs content");
@@ -344,11 +665,56 @@ describe("utils/search", () => {
       }
     });
 
+    it("includes cached nargo dependencies with their tag", () => {
+      mockedListNargoDependencies.mockReturnValue([
+        {
+          name: "nargo:noir-bignum@v0.7.0",
+          host: "github.com",
+          org: "noir-lang",
+          repo: "noir-bignum",
+          tag: "v0.7.0",
+          path: "/home/me/nargo/github.com/noir-lang/noir-bignum/v0.7.0",
+          url: "https://github.com/noir-lang/noir-bignum",
+        },
+      ]);
+
+      const cached = listLibraries("libraries").find(
+        (l) => l.source === "nargo-cache"
+      );
+      expect(cached).toMatchObject({
+        name: "nargo:noir-bignum@v0.7.0",
+        category: "libraries",
+        tag: "v0.7.0",
+        cloned: true,
+      });
+      expect(
+        listLibraries("reference").some((l) => l.source === "nargo-cache")
+      ).toBe(false);
+    });
+
+    it("flags compatibility with the selected Noir version", () => {
+      mockedReadFileSync.mockReturnValue(
+        '[package]\nname = "bignum"\ncompiler_version = ">=1.0.0, <1.1.0"\n'
+      );
+
+      const compatible = listLibraries("libraries", "v1.0.0");
+      expect(compatible[0]).toMatchObject({
+        compilerVersion: ">=1.0.0, <1.1.0",
+        compatible: true,
+      });
+
+      const incompatible = listLibraries("libraries", "v0.36.0");
+      expect(incompatible[0].compatible).toBe(false);
+
+      mockedReadFileSync.mockReturnValue("line1\nline2\nline3");
+    });
+
     it("includes clone status", () => {
       mockedIsRepoCloned.mockReturnValue(false);
       const libs = listLibraries();
       for (const lib of libs) {
         expect(lib.cloned).toBe(false);
+        expect(lib.compilerVersion).toBeUndefined();
       }
     });
   });
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { execSync } from "child_process";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, existsSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+
+// Set env before importing modules
+const BASE_DIR = mkdtempSync(join(tmpdir(), "noir-mcp-snapshot-"));
+process.env.NOIR_MCP_REPOS_DIR = BASE_DIR;
+process.env.NOIR_MCP_REPOS_CONFIG = join(BASE_DIR, "repos.json");
+
+const { REPOS_DIR, isRepoCloned } = await import("../../src/utils/git.js");
+const { DEFAULT_NOIR_VERSION } = await import("../../src/repos/config.js");
+const { createSnapshot, restoreSnapshot } = await import(
+  "../../src/utils/snapshot.js"
+);
+
+const git = (cwd: string, command: string) =>
+  execSync(`git -c user.email=test@example.com -c user.name=test ${command}`, {
+    cwd,
+    encoding: "utf-8",
+  }).trim();
+
+function makeClone(dirName: string): string {
+  const repoPath = join(REPOS_DIR, dirName);
+  mkdirSync(repoPath, { recursive: true });
+  git(repoPath, "init -q");
+  writeFileSync(join(repoPath, "main.nr"), "fn main() {}\n");
+  git(repoPath, "add .");
+  git(repoPath, "commit -q -m init");
+  return git(repoPath, "rev-parse HEAD");
+}
+
+describe("utils/snapshot", () => {
+  const archive = join(BASE_DIR, "out", "snapshot.tar.gz");
+
+  beforeEach(() => {
+    rmSync(REPOS_DIR, { recursive: true, force: true });
+    rmSync(archive, { force: true });
+  });
+
+  afterAll(() => {
+    rmSync(BASE_DIR, { recursive: true, force: true });
+  });
+
+  it("refuses to export without clones", async () => {
+    await expect(createSnapshot(archive)).rejects.toThrow("No cloned repositories");
+  });
+
+  it("restores exported clones", async () => {
+    const commit = makeClone("noir-examples");
+
+    const { lock } = await createSnapshot(archive);
+    expect(lock.repos).toEqual([
+      expect.objectContaining({ name: "noir-examples", commit }),
+    ]);
+
+    rmSync(REPOS_DIR, { recursive: true, force: true });
+    expect(isRepoCloned("noir-examples")).toBe(false);
+
+    await restoreSnapshot(archive);
+    expect(isRepoCloned("noir-examples")).toBe(true);
+    expect(existsSync(join(REPOS_DIR, "noir-examples", "main.nr"))).toBe(true);
+    expect(existsSync(join(BASE_DIR, "repos.lock.json"))).toBe(true);
+  });
+
+  it("leaves out clones an interrupted sync left behind", async () => {
+    makeClone("noir-examples");
+    mkdirSync(join(REPOS_DIR, ".noir@v1.0.0-beta.19.tmp-abc123"), { recursive: true });
+    mkdirSync(join(REPOS_DIR, ".noir-examples.tmp-def456.old"), { recursive: true });
+
+    const { manifest } = await createSnapshot(archive);
+    expect(manifest.entries).toEqual(["noir-examples"]);
+    rmSync(REPOS_DIR, { recursive: true, force: true });
+
+    await restoreSnapshot(archive);
+    expect(isRepoCloned("noir-examples")).toBe(true);
+    expect(existsSync(join(REPOS_DIR, ".noir@v1.0.0-beta.19.tmp-abc123"))).toBe(false);
+  });
+
+  it("refuses a different Noir version unless forced", async () => {
+    makeClone("noir@v0.36.0");
+    writeFileSync(
+      join(REPOS_DIR, ".default-versions.json"),
+      JSON.stringify({ noir: "v0.36.0" })
+    );
+
+    const { manifest } = await createSnapshot(archive);
+    expect(manifest.noirVersion).toBe("v0.36.0");
+    rmSync(REPOS_DIR, { recursive: true, force: true });
+
+    await expect(restoreSnapshot(archive)).rejects.toThrow(
+      `Snapshot contains Noir v0.36.0, but this server expects ${DEFAULT_NOIR_VERSION}`
+    );
+    expect(isRepoCloned("noir", "v0.36.0")).toBe(false);
+
+    await restoreSnapshot(archive, { force: true });
+    expect(isRepoCloned("noir", "v0.36.0")).toBe(true);
+  });
+
+  it("rejects archives that are not snapshots", async () => {
+    const dir = join(BASE_DIR, "junk");
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, "file.txt"), "hello");
+    mkdirSync(join(BASE_DIR, "out"), { recursive: true });
+    execSync(`tar -czf ${archive} -C ${dir} file.txt`);
+
+    await expect(restoreSnapshot(archive)).rejects.toThrow("Not a snapshot archive");
+  });
+
+  it.each(["", ".", "..", "noir/../..", "noir@"])(
+    "rejects a manifest entry of %j",
+    async (entry) => {
+      const dir = join(BASE_DIR, "bad");
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(
+        join(dir, "snapshot.json"),
+        JSON.stringify({ snapshotVersion: 1, createdAt: "", entries: [entry] })
+      );
+      writeFileSync(
+        join(dir, "repos.lock.json"),
+        JSON.stringify({ lockfileVersion: 1, defaultVersions: {}, repos: [] })
+      );
+      mkdirSync(join(BASE_DIR, "out"), { recursive: true });
+      execSync(`tar -czf ${archive} -C ${dir} snapshot.json repos.lock.json`);
+      makeClone("noir-examples");
+
+      await expect(restoreSnapshot(archive)).rejects.toThrow(
+        "'entries' must list repo directory names"
+      );
+      expect(isRepoCloned("noir-examples")).toBe(true);
+    }
+  );
+
+  it("fails for a missing archive", async () => {
+    await expect(restoreSnapshot(join(BASE_DIR, "missing.tar.gz"))).rejects.toThrow(
+      "Snapshot archive not found"
+    );
+  });
+});
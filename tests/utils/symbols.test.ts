@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, existsSync, utimesSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+
+const reposDir = mkdtempSync(join(tmpdir(), "noir-mcp-symbols-"));
+const workspaceDir = mkdtempSync(join(tmpdir(), "noir-mcp-workspace-"));
+
+vi.mock("../../src/utils/git.js", () => ({
+  REPOS_DIR: reposDir,
+  getRepoCommit: vi.fn(async () => "abc1234def5678"),
+  getRepoPath: vi.fn((name: string) => join(reposDir, name)),
+  getSearchableRepoPaths: vi.fn(() => [join(reposDir, "noir-bignum")]),
+  readSyncManifest: vi.fn(() => null),
+}));
+
+vi.mock("../../src/utils/search.js", () => ({
+  getLocalSources: vi.fn(() => []),
+  resolveSourcePath: vi.fn((name: string) => join(reposDir, name)),
+}));
+
+const { getRepoCommit } = await import("../../src/utils/git.js");
+const { getLocalSources } = await import("../../src/utils/search.js");
+const { findSymbols, getRepoSymbols } = await import("../../src/utils/symbols.js");
+
+function writeSource(dir: string, file: string, content: string): void {
+  mkdirSync(join(dir, file, ".."), { recursive: true });
+  writeFileSync(join(dir, file), content);
+}
+
+describe("utils/symbols", () => {
+  const repo = join(reposDir, "noir-bignum");
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    rmSync(repo, { recursive: true, force: true });
+    mkdirSync(join(repo, ".git"), { recursive: true });
+    writeSource(
+      repo,
+      "src/bignum.nr",
+      [
+        "pub struct BigNum<let N: u32> { limbs: [u128; N] }",
+        "impl<let N: u32> BigNum<N> {",
+        "    pub fn new() -> Self { BigNum { limbs: [0; N] } }",
+        "    fn new_unchecked() -> Self { BigNum { limbs: [0; N] } }",
+        "}",
+        "pub fn bignum_from_field(x: Field) -> BigNum<3> { BigNum::new() }",
+      ].join("\n")
+    );
+    writeSource(repo, "src/utils.nr", "fn new_limbs() -> [u128; 3] { [0; 3] }\n");
+  });
+
+  afterAll(() => {
+    rmSync(reposDir, { recursive: true, force: true });
+    rmSync(workspaceDir, { recursive: true, force: true });
+  });
+
+  describe("getRepoSymbols()", () => {
+    it("stores the index in the clone and reuses it for the same commit", async () => {
+      const symbols = await getRepoSymbols("noir-bignum");
+      expect(symbols.find((s) => s.name === "BigNum" && s.kind === "struct")).toMatchObject({
+        file: "noir-bignum/src/bignum.nr",
+        repo: "noir-bignum",
+        line: 1,
+      });
+      expect(existsSync(join(repo, ".git", "noir-mcp-symbols.json"))).toBe(true);
+
+      // Files changed without a new commit are not re-parsed
+      writeSource(repo, "src/extra.nr", "fn extra() {}\n");
+      expect((await getRepoSymbols("noir-bignum")).some((s) => s.name === "extra")).toBe(false);
+    });
+
+    it("rebuilds the index when the commit changes", async () => {
+      await getRepoSymbols("noir-bignum");
+      writeSource(repo, "src/extra.nr", "fn extra() {}\n");
+      vi.mocked(getRepoCommit).mockResolvedValueOnce("fff0000");
+
+      expect((await getRepoSymbols("noir-bignum")).some((s) => s.name === "extra")).toBe(true);
+    });
+  });
+
+  describe("findSymbols()", () => {
+    it("ranks exact matches before prefix and fuzzy matches", async () => {
+      vi.mocked(getRepoCommit).mockResolvedValue("1111111");
+
+      const matches = await findSymbols("new");
+      expect(matches.map((m) => [m.name, m.match])).toEqual([
+        ["new", "exact"],
+        ["new_limbs", "prefix"],
+        ["new_unchecked", "prefix"],
+      ]);
+    });
+
+    it("filters by kind and qualifier", async () => {
+      vi.mocked(getRepoCommit).mockResolvedValue("2222222");
+
+      expect((await findSymbols("BigNum", { kind: "struct" })).map((m) => m.kind)).toEqual([
+        "struct",
+      ]);
+      expect((await findSymbols("BigNum::new")).map((m) => m.name)).toEqual([
+        "new",
+        "new_unchecked",
+      ]);
+    });
+
+    it("matches names fuzzily", async () => {
+      vi.mocked(getRepoCommit).mockResolvedValue("3333333");
+
+      const matches = await findSymbols("bnfrom");
+      expect(matches.map((m) => [m.name, m.match])).toEqual([["bignum_from_field", "fuzzy"]]);
+    });
+
+    it("includes local sources", async () => {
+      writeSource(workspaceDir, "src/main.nr", "fn main() {}\n");
+      vi.mocked(getLocalSources).mockReturnValue([{ name: "my-app", path: workspaceDir }]);
+
+      const matches = await findSymbols("main");
+      expect(matches).toMatchObject([{ name: "main", file: "my-app/src/main.nr", repo: "my-app" }]);
+      vi.mocked(getLocalSources).mockReturnValue([]);
+    });
+
+    it("re-parses workspace files only once they are modified", async () => {
+      writeSource(workspaceDir, "src/lib.nr", "fn before() {}\n");
+      vi.mocked(getLocalSources).mockReturnValue([{ name: "my-lib", path: workspaceDir }]);
+      expect(await findSymbols("before")).toHaveLength(1);
+
+      writeSource(workspaceDir, "src/lib.nr", "fn after() {}\n");
+      const later = new Date(Date.now() + 60_000);
+      utimesSync(join(workspaceDir, "src/lib.nr"), later, later);
+      expect(await findSymbols("before")).toHaveLength(0);
+      expect(await findSymbols("after")).toHaveLength(1);
+      vi.mocked(getLocalSources).mockReturnValue([]);
+    });
+
+    it("parses a nargo dependency once per tag", async () => {
+      const dep = join(workspaceDir, "dep");
+      writeSource(dep, "src/lib.nr", "fn cached() {}\n");
+      vi.mocked(getLocalSources).mockReturnValue([
+        { name: "nargo:dep@v1.0.0", path: dep, tag: "v1.0.0" },
+      ]);
+      expect(await findSymbols("cached")).toHaveLength(1);
+
+      writeSource(dep, "src/lib.nr", "fn changed() {}\n");
+      expect(await findSymbols("cached")).toHaveLength(1);
+      expect(await findSymbols("changed")).toHaveLength(0);
+      vi.mocked(getLocalSources).mockReturnValue([]);
+    });
+  });
+});
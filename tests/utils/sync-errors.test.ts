@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { classifySyncError } from "../../src/utils/sync-errors.js";
+
+describe("utils/sync-errors", () => {
+  describe("classifySyncError()", () => {
+    it.each([
+      ["fatal: unable to access 'https://github.com/x/': Could not resolve host: github.com", "network"],
+      ["fatal: the remote end hung up unexpectedly", "network"],
+      ["fatal: Remote branch v9.9.9 not found in upstream origin", "ref-not-found"],
+      ["fatal: couldn't find remote ref refs/heads/nope", "ref-not-found"],
+      ["No commit starting with 0123456 in noir-bignum: fatal: Needed a single revision", "ref-not-found"],
+      ["fatal: could not read Username for 'https://github.com': terminal prompts disabled", "auth"],
+      ["remote: Repository not found.", "auth"],
+      ["error: unable to write file: No space left on device", "disk-full"],
+      ["spawn git ENOENT", "git-missing"],
+      ["/home/me/.noir-mcp/repos is busy: sync by process 42 on laptop since 2026-01-01", "lock-held"],
+      ["fatal: Unable to create '/repos/noir/.git/index.lock': File exists.", "lock-held"],
+      ["something unexpected", "unknown"],
+    ])("classifies %j as %s", (message, kind) => {
+      expect(classifySyncError(new Error(message))).toEqual({ kind, message });
+    });
+
+    it("prefers the specific cause over a generic access error", () => {
+      const message =
+        "fatal: unable to access 'https://github.com/x/': The requested URL returned error: 403";
+      expect(classifySyncError(message).kind).toBe("auth");
+    });
+  });
+});
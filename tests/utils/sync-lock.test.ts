@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, afterAll, beforeEach } from "vitest";
+import { mkdtempSync, rmSync, utimesSync, writeFileSync, existsSync } from "fs";
+import { join } from "path";
+import { hostname, tmpdir } from "os";
+
+/** Runs once just before the next takeover guard is created */
+const takeover: { before?: () => void } = {};
+
+vi.mock("fs", async (importOriginal) => {
+  const fs = await importOriginal<typeof import("fs")>();
+  return {
+    ...fs,
+    writeFileSync: (...args: Parameters<typeof fs.writeFileSync>) => {
+      if (String(args[0]).endsWith(".takeover")) {
+        const before = takeover.before;
+        takeover.before = undefined;
+        before?.();
+      }
+      return fs.writeFileSync(...args);
+    },
+  };
+});
+
+// Set env before importing module
+const dir = mkdtempSync(join(tmpdir(), "noir-mcp-lock-"));
+process.env.NOIR_MCP_REPOS_DIR = dir;
+
+const { SYNC_LOCK_PATH, acquireSyncLock, getSyncLock, withSyncLock } = await import(
+  "../../src/utils/sync-lock.js"
+);
+
+/** Write a lock as another process would */
+function writeLock(info: { pid: number; hostname: string }, ageMs = 0): void {
+  writeFileSync(
+    SYNC_LOCK_PATH,
+    JSON.stringify({ operation: "sync", startedAt: "2026-01-01T00:00:00.000Z", ...info })
+  );
+  const time = new Date(Date.now() - ageMs);
+  utimesSync(SYNC_LOCK_PATH, time, time);
+}
+
+describe("utils/sync-lock", () => {
+  beforeEach(() => {
+    rmSync(SYNC_LOCK_PATH, { force: true });
+    rmSync(`${SYNC_LOCK_PATH}.takeover`, { force: true });
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps the lock next to the repos directory", () => {
+    expect(SYNC_LOCK_PATH).toBe(join(dir, "sync.lock"));
+  });
+
+  it("holds the lock until released", () => {
+    const release = acquireSyncLock("sync");
+    expect(getSyncLock()).toMatchObject({ operation: "sync", pid: process.pid });
+    expect(() => acquireSyncLock("remove")).toThrow(/is busy: sync by process/);
+
+    release();
+    expect(existsSync(SYNC_LOCK_PATH)).toBe(false);
+    expect(getSyncLock()).toBeNull();
+  });
+
+  it("respects a lock held by another machine", () => {
+    writeLock({ pid: 1234, hostname: "other-host" });
+
+    expect(getSyncLock()).toMatchObject({ hostname: "other-host" });
+    expect(() => acquireSyncLock("sync")).toThrow(/other-host/);
+  });
+
+  it("takes over a lock whose process has exited", () => {
+    writeLock({ pid: 2 ** 30, hostname: hostname() });
+    expect(getSyncLock()).toBeNull();
+
+    const release = acquireSyncLock("sync");
+    expect(getSyncLock()?.pid).toBe(process.pid);
+    release();
+  });
+
+  it("takes over a lock that has not been refreshed", () => {
+    writeLock({ pid: 1234, hostname: "other-host" }, 10 * 60 * 1000);
+
+    const release = acquireSyncLock("sync");
+    expect(getSyncLock()?.pid).toBe(process.pid);
+    release();
+  });
+
+  it("lets only one of two contenders take over a stale lock", () => {
+    writeLock({ pid: 1234, hostname: "other-host" }, 10 * 60 * 1000);
+    let release: (() => void) | undefined;
+    // The first contender replaces the lock after the second found it stale
+    takeover.before = () => {
+      release = acquireSyncLock("sync");
+    };
+
+    expect(() => acquireSyncLock("remove")).toThrow(/is busy: sync by process/);
+    expect(getSyncLock()).toMatchObject({ operation: "sync", pid: process.pid });
+    release!();
+    expect(existsSync(SYNC_LOCK_PATH)).toBe(false);
+  });
+
+  it("leaves a stale lock to the contender already taking it over", () => {
+    writeLock({ pid: 1234, hostname: "other-host" }, 10 * 60 * 1000);
+    writeFileSync(`${SYNC_LOCK_PATH}.takeover`, "1234");
+
+    expect(() => acquireSyncLock("sync")).toThrow(/taking over its lock/);
+    expect(getSyncLock()).toBeNull();
+  });
+
+  it("does not remove a lock taken over by another process", () => {
+    const release = acquireSyncLock("sync");
+    writeLock({ pid: 1234, hostname: "other-host" });
+
+    release();
+    expect(getSyncLock()).toMatchObject({ hostname: "other-host" });
+  });
+
+  it("releases the lock when the operation fails", async () => {
+    await expect(
+      withSyncLock("sync", async () => {
+        throw new Error("clone failed");
+      })
+    ).rejects.toThrow("clone failed");
+    expect(existsSync(SYNC_LOCK_PATH)).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const files: Record<string, string> = {
+  "noir-examples/hash/src/main.nr": [
+    "use std::hash::poseidon2::Poseidon2;",
+    "",
+    "fn main(x: Field) -> pub Field {",
+    "    // Poseidon2::hash is the cheapest hash",
+    "    let h = Poseidon2::hash([x], 1);",
+    '    assert(h != 0, "hash must not be zero");',
+    "    h",
+    "}",
+  ].join("\n"),
+  "noir/noir_stdlib/src/hash/poseidon2.nr": [
+    "pub struct Poseidon2 {}",
+    "impl Poseidon2 {",
+    "    pub fn hash<let N: u32>(input: [Field; N], len: u32) -> Field {",
+    "        Self::hash_internal(input, len)",
+    "    }",
+    "}",
+  ].join("\n"),
+  "noir-bignum/src/lib.nr": [
+    "use std::hash::{pedersen_hash, Hash};",
+    "fn digest(x: Field) -> Field { pedersen::hash([x]) }",
+  ].join("\n"),
+};
+
+vi.mock("../../src/utils/search.js", () => ({
+  searchCode: vi.fn(async () => []),
+  readFile: vi.fn((file: string) => files[file] ?? null),
+}));
+
+const { searchCode } = await import("../../src/utils/search.js");
+const { findUsages } = await import("../../src/utils/usages.js");
+
+/** Fake searchCode output: every line containing the word */
+function hitsFor(word: string) {
+  return Object.entries(files).flatMap(([file, content]) =>
+    content.split("\n").flatMap((line, i) =>
+      new RegExp(`\\b${word}\\b`).test(line)
+        ? [{ file, line: i + 1, content: line.trim(), repo: file.split("/")[0] }]
+        : []
+    )
+  );
+}
+
+describe("utils/usages", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("findUsages()", () => {
+    it("searches .nr files for the name as a whole word", async () => {
+      await findUsages("Poseidon2::hash", { repo: "noir-examples", maxResults: 5 });
+      expect(searchCode).toHaveBeenCalledWith("\\bhash\\b", {
+        filePattern: "*.nr",
+        repo: "noir-examples",
+        version: undefined,
+        caseSensitive: true,
+        maxResults: 200,
+      });
+    });
+
+    it("skips comments, strings, definitions and other paths of the same name", async () => {
+      vi.mocked(searchCode).mockResolvedValueOnce(hitsFor("hash"));
+
+      const { usages } = await findUsages("std::hash::poseidon2::Poseidon2::hash");
+      expect(usages.map((u) => `${u.file}:${u.line}`)).toEqual([
+        "noir-examples/hash/src/main.nr:5",
+      ]);
+      expect(usages[0].kind).toBe("call");
+    });
+
+    it("classifies imports and references of an unqualified name", async () => {
+      vi.mocked(searchCode).mockResolvedValueOnce(hitsFor("Poseidon2"));
+
+      const { usages, truncated } = await findUsages("Poseidon2");
+      expect(usages.map((u) => [u.file, u.line, u.kind])).toEqual([
+        ["noir-examples/hash/src/main.nr", 1, "import"],
+        ["noir-examples/hash/src/main.nr", 5, "reference"],
+        ["noir/noir_stdlib/src/hash/poseidon2.nr", 2, "reference"],
+      ]);
+      expect(truncated).toBe(false);
+    });
+
+    it("reports when the text matches were capped before enough usages were found", async () => {
+      const comment = {
+        file: "noir-examples/hash/src/main.nr",
+        line: 4,
+        content: "// Poseidon2::hash is the cheapest hash",
+        repo: "noir-examples",
+      };
+      vi.mocked(searchCode).mockResolvedValueOnce(Array(200).fill(comment));
+
+      const { usages, truncated } = await findUsages("hash", { maxResults: 5 });
+      expect(usages).toEqual([]);
+      expect(truncated).toBe(true);
+    });
+
+    it("rejects queries that are not Noir paths", async () => {
+      await expect(findUsages("hash(")).rejects.toThrow("'hash(' is not a Noir name or path");
+      expect(searchCode).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "fs";
+import { join, delimiter } from "path";
+import { tmpdir } from "os";
+
+const {
+  addWorkspace,
+  getWorkspace,
+  getWorkspaces,
+  clearWorkspaces,
+  parseWorkspacesEnv,
+} = await import("../../src/utils/workspaces.js");
+
+describe("utils/workspaces", () => {
+  let root: string;
+
+  beforeEach(() => {
+    clearWorkspaces();
+    root = mkdtempSync(join(tmpdir(), "noir-mcp-ws-"));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  const makeDir = (name: string) => {
+    const dir = join(root, name);
+    mkdirSync(dir, { recursive: true });
+    return dir;
+  };
+
+  describe("parseWorkspacesEnv()", () => {
+    it("returns empty list when unset", () => {
+      expect(parseWorkspacesEnv(undefined)).toEqual([]);
+      expect(parseWorkspacesEnv("")).toEqual([]);
+    });
+
+    it("splits on the platform path delimiter", () => {
+      expect(parseWorkspacesEnv(["/a", " /b ", ""].join(delimiter))).toEqual([
+        "/a",
+        "/b",
+      ]);
+    });
+  });
+
+  describe("addWorkspace()", () => {
+    it("registers a workspace named after its directory", () => {
+      const dir = makeDir("my_circuit");
+
+      const workspace = addWorkspace(dir);
+      expect(workspace).toEqual({ name: "my_circuit", path: dir });
+      expect(getWorkspace("my_circuit")).toEqual(workspace);
+      expect(getWorkspaces()).toHaveLength(1);
+    });
+
+    it("uses an explicit name", () => {
+      const dir = makeDir("project");
+
+      expect(addWorkspace(dir, "app").name).toBe("app");
+    });
+
+    it("returns the existing workspace when the same path is added twice", () => {
+      const dir = makeDir("project");
+
+      addWorkspace(dir);
+      addWorkspace(dir);
+      expect(getWorkspaces()).toHaveLength(1);
+    });
+
+    it("suffixes derived names that clash with repos or workspaces", () => {
+      writeFileSync(join(makeDir("a/noir"), "Nargo.toml"), "");
+      makeDir("b/noir");
+
+      expect(addWorkspace(join(root, "a/noir")).name).toBe("noir-2");
+      expect(addWorkspace(join(root, "b/noir")).name).toBe("noir-3");
+    });
+
+    it("rejects explicit names that are already taken", () => {
+      expect(() => addWorkspace(makeDir("x"), "noir")).toThrow(
+        "already used"
+      );
+    });
+
+    it("rejects invalid names", () => {
+      expect(() => addWorkspace(makeDir("x"), "a/b")).toThrow(
+        "not a valid workspace name"
+      );
+    });
+
+    it("rejects paths that do not exist", () => {
+      expect(() => addWorkspace(join(root, "missing"))).toThrow(
+        "does not exist"
+      );
+    });
+  });
+});